@@ -0,0 +1,23 @@
+-- Migration: Add mqtt_journal table for raw MQTT message storage
+-- Every match update received over MQTT is appended here so a match
+-- can be replayed through the live handlers (POST /api/admin/mqtt-journal)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS mqtt_journal (
+    id BIGSERIAL PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    payload JSONB NOT NULL,           -- one update object exactly as received
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Replay reads one match in receive order, pruning deletes by age
+CREATE INDEX IF NOT EXISTS idx_mqtt_journal_match_received ON mqtt_journal(match_id, received_at, id);
+CREATE INDEX IF NOT EXISTS idx_mqtt_journal_received_at ON mqtt_journal(received_at);
+
+-- Enable Row Level Security (raw feed is internal - no public read)
+ALTER TABLE mqtt_journal ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write mqtt_journal" 
+ON mqtt_journal FOR ALL 
+USING (auth.role() = 'service_role');
@@ -0,0 +1,45 @@
+-- Migration: Add tracked_competitions table
+-- Single source of truth for the leagues we sync and show
+-- (replaces the TOP_LEAGUE_IDS lists copied across sync-service and routes)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tracked_competitions (
+    competition_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100,        -- lower = more important (grouping, feeds)
+    display_order INTEGER NOT NULL DEFAULT 100,   -- order in league lists
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,        -- master switch
+    sync_enabled BOOLEAN NOT NULL DEFAULT TRUE,   -- fetch matches/reference data
+    visible BOOLEAN NOT NULL DEFAULT TRUE,        -- return matches to the app
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_competitions_priority ON tracked_competitions(priority);
+
+-- Enable Row Level Security
+ALTER TABLE tracked_competitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read tracked_competitions" 
+ON tracked_competitions FOR SELECT 
+USING (true);
+
+CREATE POLICY "Allow service write tracked_competitions" 
+ON tracked_competitions FOR ALL 
+USING (auth.role() = 'service_role');
+
+-- Seed with the leagues that were hardcoded before
+INSERT INTO tracked_competitions (competition_id, name, priority, display_order) VALUES
+    ('jednm9whz0ryox8', 'Premier League', 1, 1),
+    ('gy0or5jhg6qwzv3', 'Bundesliga', 2, 2),
+    ('vl7oqdehlyr510j', 'La Liga', 3, 3),
+    ('4zp5rzghp5q82w1', 'Serie A', 4, 4),
+    ('yl5ergphnzr8k0o', 'Ligue 1', 5, 5),
+    ('z8yomo4h7wq0j6l', 'Champions League', 6, 6),
+    ('56ypq3nh0xmd7oj', 'Europa League', 7, 7),
+    ('p4jwq2gh754m0ve', 'Conference League', 8, 8),
+    ('l965mkyh32r1ge4', 'Championship', 9, 9),
+    ('vl7oqdeheyr510j', 'Eredivisie', 10, 10),
+    ('9vjxm8ghx2r6odg', 'Primeira Liga', 11, 11),
+    ('8y39mp1h6jmojxg', 'Süper Lig', 12, 12)
+ON CONFLICT (competition_id) DO NOTHING;
@@ -0,0 +1,32 @@
+-- Migration: Extend seasons table for the season resolver
+-- The resolver (src/services/season-resolver.ts) discovers the current season
+-- per competition and stores stages, matchday count and team count here
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS current_stage_id TEXT;
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS stages JSONB;              -- [{ id, firstRound, lastRound, matches }]
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS total_matchdays INTEGER;
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS team_count INTEGER;
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_seasons_competition_current ON seasons(competition_id) WHERE is_current;
+
+-- Seed with the 2025/26 values that were hardcoded in the league routes,
+-- the resolver refreshes them on its first run
+INSERT INTO seasons (id, competition_id, name, year, is_current, current_stage_id, total_matchdays, team_count) VALUES
+    ('e4wyrn4hg8gq86p', 'gy0or5jhg6qwzv3', '2025/26', 2025, TRUE, 'y39mp1he8ddmojx', 34, 18), -- Bundesliga
+    ('l965mkyhjpxr1ge', 'jednm9whz0ryox8', '2025/26', 2025, TRUE, '6ypq3nhpo67md7o', 38, 20), -- Premier League
+    ('56ypq3nhx51md7o', 'l965mkyh32r1ge4', '2025/26', 2025, TRUE, 'jw2r09hgv82rz84', 46, 24), -- Championship
+    ('56ypq3nhxw7md7o', 'vl7oqdehlyr510j', '2025/26', 2025, TRUE, 'dn1m1ghgdd5moep', 38, 20), -- La Liga
+    ('4zp5rzghn83q82w', '4zp5rzghp5q82w1', '2025/26', 2025, TRUE, '4wyrn4h5pzlq86p', 38, 20), -- Serie A
+    ('9dn1m1gh645moep', 'yl5ergphnzr8k0o', '2025/26', 2025, TRUE, '965mkyh098kr1ge', 34, 18), -- Ligue 1
+    ('4zp5rzgh8xvq82w', '8y39mp1h6jmojxg', '2025/26', 2025, TRUE, NULL, 38, 19),              -- Süper Lig
+    ('yl5ergphgo0r8k0', 'vl7oqdeheyr510j', '2025/26', 2025, TRUE, '1l4rjnhdp4km7vx', 34, 18), -- Eredivisie
+    ('kjw2r09h811rz84', '9vjxm8ghx2r6odg', '2025/26', 2025, TRUE, '965mkyh09vxr1ge', 34, 18), -- Primeira Liga
+    ('z8yomo4hn70q0j6', 'z8yomo4h7wq0j6l', '2025/26', 2025, TRUE, 'dj2ryoh9064q1zp', 8, 36),  -- Champions League
+    ('v2y8m4zhl38ql07', '56ypq3nh0xmd7oj', '2025/26', 2025, TRUE, 'vjxm8gh76d0r6od', 8, 36)   -- Europa League
+ON CONFLICT (id) DO UPDATE SET
+    is_current = TRUE,
+    current_stage_id = COALESCE(seasons.current_stage_id, EXCLUDED.current_stage_id),
+    total_matchdays = COALESCE(seasons.total_matchdays, EXCLUDED.total_matchdays),
+    team_count = COALESCE(seasons.team_count, EXCLUDED.team_count);
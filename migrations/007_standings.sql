@@ -0,0 +1,42 @@
+-- Migration: Full standings tables
+-- Written by /api/cron/sync-standings (src/services/standings.ts)
+-- One row per team and season table; group stages have several tables per season
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS stage_id TEXT;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS table_id TEXT;                 -- TheSports table id ('' when unknown)
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS group_name TEXT;               -- e.g. 'A' for group stages
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS team_name TEXT;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS team_logo TEXT;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS deduct_points INTEGER DEFAULT 0;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- Zone / promotion (raw TheSports name, label is translated at read time)
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS promotion_id TEXT;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS promotion_name TEXT;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS promotion_color TEXT;
+
+-- Home / away splits
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_played INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_won INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_drawn INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_lost INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_goals_for INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_goals_against INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS home_points INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_played INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_won INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_drawn INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_lost INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_goals_for INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_goals_against INTEGER;
+ALTER TABLE standings ADD COLUMN IF NOT EXISTS away_points INTEGER;
+
+UPDATE standings SET table_id = '' WHERE table_id IS NULL;
+ALTER TABLE standings ALTER COLUMN table_id SET DEFAULT '';
+ALTER TABLE standings ALTER COLUMN table_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_standings_season_table_team
+    ON standings(season_id, table_id, team_id);
+CREATE INDEX IF NOT EXISTS idx_standings_competition_season
+    ON standings(competition_id, season_id, position);
@@ -0,0 +1,10 @@
+-- Migration: Season and matchday on matches
+-- Needed by the standings engine (src/services/standings-engine.ts) to build
+-- a season's table and the "table as of matchday N"
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS season_id TEXT;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS stage_id TEXT;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS round_num INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_matches_season_round ON matches(season_id, round_num);
@@ -0,0 +1,37 @@
+-- Migration: Add standings_snapshots table
+-- One table per completed matchday, written by the standings sync
+-- Serves GET /api/leagues/[id]/standings/history (position over time)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS standings_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    competition_id TEXT NOT NULL,
+    season_id TEXT NOT NULL,
+    round_num INTEGER NOT NULL,       -- table as of the end of this matchday
+    team_id TEXT NOT NULL,
+    team_name TEXT,
+    position INTEGER NOT NULL,
+    played INTEGER NOT NULL DEFAULT 0,
+    won INTEGER NOT NULL DEFAULT 0,
+    drawn INTEGER NOT NULL DEFAULT 0,
+    lost INTEGER NOT NULL DEFAULT 0,
+    goals_for INTEGER NOT NULL DEFAULT 0,
+    goals_against INTEGER NOT NULL DEFAULT 0,
+    goal_difference INTEGER NOT NULL DEFAULT 0,
+    points INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (season_id, round_num, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standings_snapshots_team ON standings_snapshots(season_id, team_id, round_num);
+
+-- Enable Row Level Security
+ALTER TABLE standings_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read standings_snapshots" 
+ON standings_snapshots FOR SELECT 
+USING (true);
+
+CREATE POLICY "Allow service write standings_snapshots" 
+ON standings_snapshots FOR ALL 
+USING (auth.role() = 'service_role');
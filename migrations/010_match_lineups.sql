@@ -0,0 +1,37 @@
+-- Migration: Add match_lineups table
+-- Lineups (with player ratings) are stored when fetched from TheSports
+-- (GET /api/matches/[id]/lineup, and at full time by the live handler)
+-- Used for player appearances/minutes and rating leaderboards
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS match_lineups (
+    match_id TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    team_id TEXT,
+    side TEXT NOT NULL,               -- 'home' | 'away'
+    player_name TEXT,
+    shirt_number INTEGER,
+    position TEXT,                    -- G, D, M, F
+    is_starter BOOLEAN NOT NULL DEFAULT FALSE,
+    is_captain BOOLEAN NOT NULL DEFAULT FALSE,
+    rating NUMERIC(4, 2),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (match_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_lineups_player ON match_lineups(player_id);
+
+-- Player pages and leaderboards search events by player
+CREATE INDEX IF NOT EXISTS idx_match_events_player ON match_events(player_id);
+CREATE INDEX IF NOT EXISTS idx_match_events_assist ON match_events(assist1_id);
+
+-- Enable Row Level Security
+ALTER TABLE match_lineups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read match_lineups" 
+ON match_lineups FOR SELECT 
+USING (true);
+
+CREATE POLICY "Allow service write match_lineups" 
+ON match_lineups FOR ALL 
+USING (auth.role() = 'service_role');
@@ -0,0 +1,23 @@
+-- Migration: Head-to-head sync markers
+-- Previous meetings from TheSports /match/analysis are stored in matches;
+-- this table records when a team pair was last fetched so repeated
+-- views of /api/matches/[id]/h2h and /api/teams/[a]/vs/[b] stay local
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS head_to_head_syncs (
+    team_a_id TEXT NOT NULL,          -- lexicographically smaller team id
+    team_b_id TEXT NOT NULL,
+    source_match_id TEXT,             -- match used for the analysis request
+    meetings INTEGER NOT NULL DEFAULT 0,
+    synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (team_a_id, team_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_home_away ON matches(home_team_id, away_team_id);
+
+-- Enable Row Level Security (internal bookkeeping - no public read)
+ALTER TABLE head_to_head_syncs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write head_to_head_syncs" 
+ON head_to_head_syncs FOR ALL 
+USING (auth.role() = 'service_role');
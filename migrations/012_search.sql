@@ -0,0 +1,80 @@
+-- Migration: Accent- and typo-tolerant search
+-- Trigram indexes on unaccented names of teams, competitions, players and
+-- countries plus search_entities() used by GET /api/search
+-- Aliases (de/en, "München" -> "Munich") are expanded in src/services/search.ts
+-- Run this in Supabase SQL Editor
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE; the wrapper pins the dictionary so it can be indexed
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT lower(public.unaccent('public.unaccent'::regdictionary, coalesce(value, '')))
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_teams_name_trgm ON teams USING gin (search_normalize(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_competitions_name_trgm ON competitions USING gin (search_normalize(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_players_name_trgm ON players USING gin (search_normalize(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_countries_name_trgm ON countries USING gin (search_normalize(name) gin_trgm_ops);
+
+-- Best match per entity over all query variants
+-- score: word similarity (0..1) of the best variant against name / short_name
+CREATE OR REPLACE FUNCTION search_entities(terms TEXT[], per_type_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    entity_type TEXT,
+    entity_id TEXT,
+    name TEXT,
+    short_name TEXT,
+    logo TEXT,
+    country_id TEXT,
+    team_id TEXT,
+    score REAL
+)
+LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+    WITH q AS (SELECT DISTINCT search_normalize(t) AS term FROM unnest(terms) AS t WHERE length(t) >= 2)
+    (
+        SELECT 'team', t.id, t.name, t.short_name, t.logo, t.country_id, NULL::TEXT,
+               MAX(GREATEST(word_similarity(q.term, search_normalize(t.name)),
+                            word_similarity(q.term, search_normalize(t.short_name)))) AS score
+        FROM teams t JOIN q ON q.term <% search_normalize(t.name) OR q.term <% search_normalize(t.short_name)
+        GROUP BY t.id
+        ORDER BY score DESC
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'competition', c.id, c.name, c.short_name, c.logo, c.country_id, NULL::TEXT,
+               MAX(GREATEST(word_similarity(q.term, search_normalize(c.name)),
+                            word_similarity(q.term, search_normalize(c.short_name)))) AS score
+        FROM competitions c JOIN q ON q.term <% search_normalize(c.name) OR q.term <% search_normalize(c.short_name)
+        GROUP BY c.id
+        ORDER BY score DESC
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'player', p.id, p.name, p.short_name, p.photo, NULL::TEXT, p.team_id,
+               MAX(GREATEST(word_similarity(q.term, search_normalize(p.name)),
+                            word_similarity(q.term, search_normalize(p.short_name)))) AS score
+        FROM players p JOIN q ON q.term <% search_normalize(p.name) OR q.term <% search_normalize(p.short_name)
+        GROUP BY p.id
+        ORDER BY score DESC
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'country', co.id, co.name, NULL::TEXT, co.logo, NULL::TEXT, NULL::TEXT,
+               MAX(word_similarity(q.term, search_normalize(co.name))) AS score
+        FROM countries co JOIN q ON q.term <% search_normalize(co.name)
+        GROUP BY co.id
+        ORDER BY score DESC
+        LIMIT per_type_limit
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION search_entities(TEXT[], INTEGER) TO anon, authenticated, service_role;
@@ -0,0 +1,12 @@
+-- Migration: Match clock fields
+-- Period and period kickoff from the MQTT score array so the server-side
+-- ticker (services/match-clock.ts) can advance minute between messages,
+-- plus the display minute with stoppage time ("45+2'")
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE matches
+    ADD COLUMN IF NOT EXISTS period TEXT,                    -- first_half, halftime, second_half, extra_time_first_half, extra_time_second_half, penalties, ...
+    ADD COLUMN IF NOT EXISTS period_started_at TIMESTAMPTZ,  -- kickoff of the current period
+    ADD COLUMN IF NOT EXISTS minute_display TEXT;            -- "45+2'"
+
+CREATE INDEX IF NOT EXISTS idx_matches_live_clock ON matches(status) WHERE period_started_at IS NOT NULL;
@@ -0,0 +1,29 @@
+-- Migration: Deterministic incident identity
+-- match_events rows get an event_key (type|time|position|player#n) so MQTT
+-- incident lists are applied as a diff (upsert + delete of removed keys)
+-- instead of delete-and-reinsert - see services/incidents.ts
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE match_events ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+-- Backfill: player is player_id, else player_name; #n numbers identical
+-- incidents in insertion order (same keys as toIncidentRows)
+UPDATE match_events e
+SET event_key = k.event_key
+FROM (
+    SELECT id,
+           concat_ws('|', type, coalesce(time::TEXT, ''), coalesce(position::TEXT, ''), player)
+               || '#' || row_number() OVER (
+                   PARTITION BY match_id, type, time, position, player
+                   ORDER BY id
+               ) AS event_key
+    FROM (
+        SELECT *, coalesce(nullif(player_id, ''), nullif(player_name, ''), '') AS player
+        FROM match_events
+    ) src
+) k
+WHERE e.id = k.id AND e.event_key IS NULL;
+
+ALTER TABLE match_events ALTER COLUMN event_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_events_key ON match_events(match_id, event_key);
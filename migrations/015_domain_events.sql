@@ -0,0 +1,24 @@
+-- Migration: Add domain_events audit log
+-- Every event published on the in-process domain event bus (GoalScored,
+-- StatusChanged, FullTime, ...) is appended here by the audit subscriber
+-- (see services/domain-events.ts)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS domain_events (
+    id BIGSERIAL PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    source TEXT NOT NULL,             -- mqtt, sync, live-sync, admin
+    payload JSONB NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_match ON domain_events(match_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_domain_events_type ON domain_events(type, occurred_at);
+
+-- Enable Row Level Security (audit log is internal - no public read)
+ALTER TABLE domain_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write domain_events" 
+ON domain_events FOR ALL 
+USING (auth.role() = 'service_role');
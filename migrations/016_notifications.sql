@@ -0,0 +1,83 @@
+-- Migration: Users and push notifications
+-- app_users are identified by an API key (only its SHA-256 hash is stored).
+-- Users register devices, subscribe to teams/matches/competitions and choose
+-- which events they want; notification_deliveries de-duplicates sends
+-- (one row per notification and device) - see services/notifications.ts
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS app_users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    api_key_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('android', 'ios', 'web')),
+    token TEXT NOT NULL UNIQUE,       -- FCM/APNs token or Web Push endpoint
+    web_push_keys JSONB,              -- { p256dh, auth } for Web Push
+    locale TEXT NOT NULL DEFAULT 'de',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_devices_user ON notification_devices(user_id);
+
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('team', 'match', 'competition')),
+    target_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, target_type, target_id)
+);
+
+-- Recipients are looked up by subscribed team/match/competition
+CREATE INDEX IF NOT EXISTS idx_notification_subscriptions_target ON notification_subscriptions(target_type, target_id);
+
+-- No row = default events (goal, red_card, kick_off, full_time)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES app_users(id) ON DELETE CASCADE,
+    events TEXT[] NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    dedup_key TEXT NOT NULL,          -- e.g. goal:<matchId>:<event_key>
+    device_id UUID NOT NULL REFERENCES notification_devices(id) ON DELETE CASCADE,
+    match_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',  -- pending, sent, failed
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (dedup_key, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_match ON notification_deliveries(match_id);
+
+-- Enable Row Level Security (user data is internal - no public read)
+ALTER TABLE app_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write app_users" 
+ON app_users FOR ALL 
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Allow service write notification_devices" 
+ON notification_devices FOR ALL 
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Allow service write notification_subscriptions" 
+ON notification_subscriptions FOR ALL 
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Allow service write notification_preferences" 
+ON notification_preferences FOR ALL 
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Allow service write notification_deliveries" 
+ON notification_deliveries FOR ALL 
+USING (auth.role() = 'service_role');
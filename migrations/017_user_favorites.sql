@@ -0,0 +1,19 @@
+-- Migration: Add user_favorites table
+-- Favorite teams, competitions and matches of app users (see migration 016)
+-- GET /api/me/feed lists matches involving them first
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS user_favorites (
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('team', 'competition', 'match')),
+    target_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, target_type, target_id)
+);
+
+-- Enable Row Level Security (user data is internal - no public read)
+ALTER TABLE user_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write user_favorites" 
+ON user_favorites FOR ALL 
+USING (auth.role() = 'service_role');
@@ -0,0 +1,21 @@
+-- Migration: Add service_keys table
+-- API keys for the admin, cron and debug routes (only the SHA-256 hash is stored)
+-- role: admin (everything), cron (/api/cron/*), read (read-only debug/admin GETs)
+-- Issued and revoked via /api/admin/service-keys - see lib/auth.ts
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS service_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'cron', 'read')),
+    key_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMPTZ
+);
+
+-- Enable Row Level Security (credentials are internal - no public read)
+ALTER TABLE service_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service write service_keys" 
+ON service_keys FOR ALL 
+USING (auth.role() = 'service_role');
@@ -4,12 +4,16 @@
  * Forces fresh data fetch from Supabase on next request
  */
 
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Import cache module to reset it
 import * as cache from '@/services/cache';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         console.log('[CacheReset] Performing hard cache reset...');
 
@@ -32,8 +36,8 @@ export async function POST() {
     }
 }
 
-export async function GET() {
-    return POST();
+export async function GET(request: NextRequest) {
+    return POST(request);
 }
 
 export const dynamic = 'force-dynamic';
@@ -0,0 +1,106 @@
+/**
+ * GET    /api/admin/competitions/[id] - single tracked competition
+ * PATCH  /api/admin/competitions/[id] - update priority, display order or flags
+ * DELETE /api/admin/competitions/[id] - stop tracking the competition
+ */
+
+import { requireRole } from '@/lib/auth';
+import {
+    deleteTrackedCompetition,
+    getTrackedCompetitions,
+    updateTrackedCompetition,
+    validateTrackedCompetitionInput
+} from '@/services/tracked-competitions';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+    return NextResponse.json(
+        { success: false, error: `Competition ${id} is not tracked` },
+        { status: 404 }
+    );
+}
+
+function errorResponse(error: unknown) {
+    console.error('[Admin] Competition error:', error);
+    return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 500 }
+    );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
+    try {
+        const { id } = await params;
+        const competitions = await getTrackedCompetitions(true);
+        const competition = competitions.find(c => c.competition_id === id);
+
+        if (!competition) return notFound(id);
+
+        return NextResponse.json({
+            success: true,
+            data: competition,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const validationError = validateTrackedCompetitionInput(body, false);
+        if (validationError) {
+            return NextResponse.json(
+                { success: false, error: validationError },
+                { status: 400 }
+            );
+        }
+
+        const competition = await updateTrackedCompetition(id, body);
+        if (!competition) return notFound(id);
+
+        console.log(`[Admin] Updated tracked competition ${id}`);
+
+        return NextResponse.json({
+            success: true,
+            data: competition,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const { id } = await params;
+        const deleted = await deleteTrackedCompetition(id);
+
+        if (!deleted) return notFound(id);
+
+        console.log(`[Admin] Stopped tracking competition ${id}`);
+
+        return NextResponse.json({
+            success: true,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,80 @@
+/**
+ * GET  /api/admin/competitions
+ * Lists all tracked competitions (enabled and disabled) in display order
+ *
+ * POST /api/admin/competitions
+ * Adds (or replaces) a tracked competition
+ * Body: { competition_id, name, priority?, display_order?, enabled?, sync_enabled?, visible? }
+ */
+
+import { requireRole } from '@/lib/auth';
+import {
+    createTrackedCompetition,
+    getTrackedCompetitions,
+    validateTrackedCompetitionInput
+} from '@/services/tracked-competitions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
+    try {
+        const competitions = await getTrackedCompetitions(true);
+
+        return NextResponse.json({
+            success: true,
+            data: competitions,
+            count: competitions.length,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Admin] Error listing competitions:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const { competition_id: competitionId, ...input } = body;
+
+        if (!competitionId || typeof competitionId !== 'string') {
+            return NextResponse.json(
+                { success: false, error: 'competition_id is required' },
+                { status: 400 }
+            );
+        }
+
+        const validationError = validateTrackedCompetitionInput(input, true);
+        if (validationError) {
+            return NextResponse.json(
+                { success: false, error: validationError },
+                { status: 400 }
+            );
+        }
+
+        const competition = await createTrackedCompetition(competitionId, input);
+        console.log(`[Admin] Tracking competition ${competitionId} (${competition.name})`);
+
+        return NextResponse.json({
+            success: true,
+            data: competition,
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('[Admin] Error saving competition:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,12 +1,20 @@
 /**
  * POST /api/admin/fix-assist
  * Update goal event with assist1_name
+ * The corrected rows reach SSE clients and domain event subscribers like an MQTT update
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { publishIncidentEvents } from '@/services/domain-events';
+import { updatedIncidentEvents } from '@/services/incidents';
+import { publishLiveDelta } from '@/services/live-stream';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const body = await request.json();
         const { matchId, time, assist1Name } = body;
@@ -18,6 +26,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const { data: before } = await supabase
+            .from('match_events')
+            .select('*')
+            .eq('match_id', matchId);
+
         const { data, error } = await supabase
             .from('match_events')
             .update({
@@ -35,6 +48,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (data && data.length > 0) {
+            publishLiveDelta(matchId, 'incidents', { added: [], changed: data, removed: [], total: before?.length ?? data.length });
+        }
+        publishIncidentEvents(matchId, updatedIncidentEvents(matchId, before || [], data || []), 'admin');
+
         return NextResponse.json({
             success: true,
             updated: data?.length || 0,
@@ -2,15 +2,25 @@
  * POST /api/admin/fix-score
  * Admin endpoint to manually fix match scores
  * Required for cases where MQTT sends incorrect data
+ * Body: { matchId, homeScore?, awayScore?, status?, force? }
+ * Status changes follow the allowed transitions (services/match-status);
+ * force: true overrides them (e.g. reopening a finished match)
+ * Status changes are published as domain events (StatusChanged, FullTime, ...)
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { publishStatusChange } from '@/services/domain-events';
+import { isMatchStatus, MATCH_STATUSES, resolveStatusTransition } from '@/services/match-status';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const body = await request.json();
-        const { matchId, homeScore, awayScore, status } = body;
+        const { matchId, homeScore, awayScore, status, force } = body;
 
         if (!matchId) {
             return NextResponse.json(
@@ -19,6 +29,31 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (status !== undefined && !isMatchStatus(status)) {
+            return NextResponse.json(
+                { success: false, error: `status must be one of ${MATCH_STATUSES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        let previousStatus: string | null = null;
+        if (status !== undefined) {
+            const { data: current } = await supabase
+                .from('matches')
+                .select('status')
+                .eq('id', matchId)
+                .maybeSingle();
+            previousStatus = current?.status ?? null;
+
+            const { allowed } = resolveStatusTransition(matchId, current?.status, status, 'admin', { force: force === true });
+            if (!allowed) {
+                return NextResponse.json(
+                    { success: false, error: `Transition ${current?.status} -> ${status} not allowed (use force: true to override)` },
+                    { status: 409 }
+                );
+            }
+        }
+
         const updateData: Record<string, unknown> = {
             updated_at: new Date().toISOString(),
         };
@@ -44,6 +79,13 @@ export async function POST(request: NextRequest) {
 
         console.log(`[Admin] Fixed match ${matchId}: ${homeScore}-${awayScore}`);
 
+        if (status !== undefined) {
+            publishStatusChange(matchId, previousStatus, status, 'admin', {
+                score: { home: data.home_score || 0, away: data.away_score || 0 },
+                competitionId: data.competition_id,
+            });
+        }
+
         return NextResponse.json({
             success: true,
             match: data,
@@ -1,12 +1,20 @@
 /**
  * POST /api/admin/fix-var-event
  * Update VAR event with var_reason and var_result
+ * Resulting goal cancellations are published as domain events
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { publishIncidentEvents } from '@/services/domain-events';
+import { EVENT_VAR, updatedIncidentEvents } from '@/services/incidents';
+import { publishLiveDelta } from '@/services/live-stream';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const body = await request.json();
         const { matchId, time, varReason, varResult } = body;
@@ -18,6 +26,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const { data: before } = await supabase
+            .from('match_events')
+            .select('*')
+            .eq('match_id', matchId);
+
         const { data, error } = await supabase
             .from('match_events')
             .update({
@@ -25,7 +38,7 @@ export async function POST(request: NextRequest) {
                 var_result: varResult,
             })
             .eq('match_id', matchId)
-            .eq('type', 28)  // VAR event
+            .eq('type', EVENT_VAR)
             .eq('time', time)
             .select();
 
@@ -36,6 +49,12 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (data && data.length > 0) {
+            publishLiveDelta(matchId, 'incidents', { added: [], changed: data, removed: [], total: before?.length ?? data.length });
+        }
+        // e.g. a goal cancelled after the fact goes out as GoalCancelledByVar
+        publishIncidentEvents(matchId, updatedIncidentEvents(matchId, before || [], data || []), 'admin');
+
         return NextResponse.json({
             success: true,
             updated: data?.length || 0,
@@ -0,0 +1,104 @@
+/**
+ * GET  /api/admin/mqtt-journal?matchId=...&from=...&to=...
+ * Lists the raw MQTT messages journaled for a match (receive order)
+ *
+ * POST /api/admin/mqtt-journal
+ * Replays a match's journal through the live handlers to rebuild
+ * matches, match_events and match_stats
+ * Body: { matchId, reset?: boolean, from?, to? }
+ * reset defaults to true for a full replay; it can't be combined with from/to
+ */
+
+import { requireRole } from '@/lib/auth';
+import { getMatchJournal, replayMatchJournal } from '@/services/mqtt-journal';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const matchId = searchParams.get('matchId');
+
+        if (!matchId) {
+            return NextResponse.json(
+                { success: false, error: 'matchId is required' },
+                { status: 400 }
+            );
+        }
+
+        const entries = await getMatchJournal(matchId, {
+            from: searchParams.get('from') || undefined,
+            to: searchParams.get('to') || undefined,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                matchId,
+                count: entries.length,
+                entries,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Journal] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const { matchId, reset, from, to } = body;
+
+        if (!matchId) {
+            return NextResponse.json(
+                { success: false, error: 'matchId is required' },
+                { status: 400 }
+            );
+        }
+
+        if (reset === true && (from || to)) {
+            return NextResponse.json(
+                { success: false, error: 'reset is only possible when replaying the whole journal (without from/to)' },
+                { status: 400 }
+            );
+        }
+
+        const result = await replayMatchJournal(matchId, {
+            reset: typeof reset === 'boolean' ? reset : undefined,
+            from,
+            to,
+        });
+
+        if (result.entries === 0) {
+            return NextResponse.json(
+                { success: false, error: `No journal entries for match ${matchId}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Journal] Replay error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
@@ -0,0 +1,69 @@
+/**
+ * POST /api/admin/mqtt-scenario
+ * Plays a scripted MQTT scenario through the live update pipeline
+ *
+ * Body:
+ *   { builtin: 'full-match', matchId: '...' }   → built-in 90-minute timeline
+ *   { scenario: { name, steps: [...] } }         → custom scenario
+ * Optional: speed (0 = no waiting, 60 = one match minute per second), target ('direct' | 'transport')
+ */
+
+import { requireRole } from '@/lib/auth';
+import { BUILTIN_SCENARIOS, MqttScenario, playScenario } from '@/services/mqtt-scenario';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const { builtin, matchId, scenario, speed, target } = body;
+
+        let toPlay: MqttScenario;
+
+        if (builtin) {
+            const build = BUILTIN_SCENARIOS[builtin];
+            if (!build) {
+                return NextResponse.json(
+                    { success: false, error: `Unknown scenario "${builtin}". Available: ${Object.keys(BUILTIN_SCENARIOS).join(', ')}` },
+                    { status: 400 }
+                );
+            }
+            if (!matchId) {
+                return NextResponse.json(
+                    { success: false, error: 'matchId is required for built-in scenarios' },
+                    { status: 400 }
+                );
+            }
+            toPlay = build(matchId);
+        } else if (scenario && Array.isArray(scenario.steps)) {
+            toPlay = scenario;
+        } else {
+            return NextResponse.json(
+                { success: false, error: 'builtin or scenario is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = await playScenario(toPlay, {
+            speed: typeof speed === 'number' ? speed : 0,
+            target: target === 'transport' ? 'transport' : 'direct',
+        });
+
+        return NextResponse.json({
+            success: result.errors.length === 0,
+            data: result,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Scenario] Error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
@@ -2,15 +2,16 @@
  * POST /api/admin/refresh-events
  * Manually refresh events for a match from TheSports API
  * Used when events were stored before schema updates (missing var_reason/var_result)
+ * The diff reaches SSE clients and domain event subscribers like an MQTT update
  */
 
-import { supabase } from '@/lib/supabase';
+import { requireRole } from '@/lib/auth';
+import { publishIncidentEvents } from '@/services/domain-events';
+import { EVENT_VAR, syncMatchIncidents, toIncidentRows } from '@/services/incidents';
+import { publishLiveDelta } from '@/services/live-stream';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 interface ApiEvent {
     type?: number;
     time?: number;
@@ -29,7 +30,16 @@ interface ApiEvent {
     var_result?: number;
 }
 
+interface HistoryMatch {
+    id?: string;
+    incidents?: ApiEvent[];
+    tlive?: ApiEvent[];
+}
+
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const body = await request.json();
         const { matchId } = body;
@@ -44,32 +54,16 @@ export async function POST(request: NextRequest) {
         console.log(`[Admin] Refreshing events for match ${matchId}`);
 
         // Fetch from TheSports API - try live/history endpoint for finished matches
-        const historyUrl = `${API_URL}/v1/football/match/live/history?user=${USERNAME}&secret=${API_KEY}&id=${matchId}`;
-        const response = await fetch(historyUrl, {
-            headers: { 'Accept': 'application/json' },
-        });
-
-        if (!response.ok) {
-            return NextResponse.json(
-                { success: false, error: `API request failed: ${response.status}` },
-                { status: 500 }
-            );
-        }
-
-        const data = await response.json();
-
-        if (data.err) {
-            return NextResponse.json(
-                { success: false, error: `API error: ${data.err}` },
-                { status: 500 }
-            );
-        }
+        const history = await theSportsRequest<HistoryMatch | HistoryMatch[]>(
+            '/v1/football/match/live/history',
+            { id: matchId }
+        );
 
         // Extract incidents
         let incidents: ApiEvent[] = [];
-        const matchData = Array.isArray(data.data)
-            ? data.data.find((m: any) => m.id === matchId) || data.data[0]
-            : data.data;
+        const matchData = Array.isArray(history)
+            ? history.find(m => m.id === matchId) || history[0]
+            : history;
 
         if (matchData?.incidents && Array.isArray(matchData.incidents)) {
             incidents = matchData.incidents;
@@ -85,48 +79,20 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Delete existing events
-        await supabase
-            .from('match_events')
-            .delete()
-            .eq('match_id', matchId);
-
-        // Insert fresh events with var_reason and var_result
-        const eventsToInsert = incidents.map(incident => ({
-            match_id: matchId,
-            type: incident.type ?? null,
-            time: incident.time ?? null,
-            position: incident.position ?? null,
-            player_id: incident.player_id ?? null,
-            player_name: incident.player_name ?? null,
-            player2_id: incident.player2_id ?? null,
-            player2_name: incident.player2_name ?? null,
-            in_player_id: incident.in_player_id ?? null,
-            in_player_name: incident.in_player_name ?? null,
-            out_player_id: incident.out_player_id ?? null,
-            out_player_name: incident.out_player_name ?? null,
-            home_score: incident.home_score ?? null,
-            away_score: incident.away_score ?? null,
-            var_reason: incident.var_reason ?? null,
-            var_result: incident.var_result ?? null,
-        }));
-
-        const { error: insertError } = await supabase
-            .from('match_events')
-            .insert(eventsToInsert);
-
-        if (insertError) {
-            console.error('[Admin] Insert error:', insertError);
-            return NextResponse.json(
-                { success: false, error: insertError.message },
-                { status: 500 }
-            );
-        }
+        // Applied as a diff - unchanged events keep their rows
+        const result = await syncMatchIncidents(matchId, incidents);
+        const rows = toIncidentRows(matchId, incidents);
 
-        console.log(`[Admin] Refreshed ${eventsToInsert.length} events for match ${matchId}`);
+        console.log(`[Admin] Refreshed ${result.total} events for match ${matchId}: +${result.added.length} ~${result.changed.length} -${result.removed.length}`);
+
+        const { added, changed, removed } = result;
+        if (added.length > 0 || changed.length > 0 || removed.length > 0) {
+            publishLiveDelta(matchId, 'incidents', { added, changed, removed, total: result.total });
+        }
+        publishIncidentEvents(matchId, result.events, 'admin');
 
         // Log VAR events specifically
-        const varEvents = eventsToInsert.filter(e => e.type === 28);
+        const varEvents = rows.filter(e => e.type === EVENT_VAR);
         if (varEvents.length > 0) {
             console.log(`[Admin] VAR events found:`, varEvents.map(e => ({
                 time: e.time,
@@ -137,7 +103,10 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({
             success: true,
-            eventsCount: eventsToInsert.length,
+            eventsCount: result.total,
+            added: result.added.length,
+            changed: result.changed.length,
+            removed: result.removed.length,
             varEventsCount: varEvents.length,
             varEvents: varEvents.map(e => ({
                 time: e.time,
@@ -150,7 +119,7 @@ export async function POST(request: NextRequest) {
         console.error('[Admin] Error:', error);
         return NextResponse.json(
             { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
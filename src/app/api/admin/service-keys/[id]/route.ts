@@ -0,0 +1,42 @@
+/**
+ * DELETE /api/admin/service-keys/[id]
+ * Revoke a service key - admin only
+ */
+
+import { requireRole } from '@/lib/auth';
+import { revokeServiceKey } from '@/services/service-keys';
+import { NextRequest, NextResponse } from 'next/server';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const { id } = await params;
+        if (!UUID_PATTERN.test(id) || !(await revokeServiceKey(id))) {
+            return NextResponse.json(
+                { success: false, error: 'Service key not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error revoking service key:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
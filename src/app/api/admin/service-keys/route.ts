@@ -0,0 +1,75 @@
+/**
+ * GET  /api/admin/service-keys
+ * Issued service keys (without hashes) - admin only
+ *
+ * POST /api/admin/service-keys      Body: { name, role: 'admin' | 'cron' | 'read' }
+ * Returns the API key once - it can't be recovered afterwards
+ */
+
+import { isServiceRole, requireRole, SERVICE_ROLES } from '@/lib/auth';
+import { createServiceKey, listServiceKeys } from '@/services/service-keys';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const keys = await listServiceKeys();
+
+        return NextResponse.json({
+            success: true,
+            data: keys.map(k => ({
+                id: k.id,
+                name: k.name,
+                role: k.role,
+                createdAt: k.created_at,
+                revokedAt: k.revoked_at,
+            })),
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error listing service keys:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
+    try {
+        const { name, role } = await request.json();
+        if (typeof name !== 'string' || !name.trim() || !isServiceRole(role)) {
+            return NextResponse.json(
+                { success: false, error: `name is required and role must be one of ${SERVICE_ROLES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const { key, apiKey } = await createServiceKey(name.trim(), role);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                id: key.id,
+                name: key.name,
+                role: key.role,
+                apiKey,
+                createdAt: key.created_at,
+            },
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating service key:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
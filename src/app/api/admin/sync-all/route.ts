@@ -8,13 +8,12 @@
  * - pages: number - max pages to fetch for paginated endpoints (default: 100)
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { fetchAllPages as fetchApiPages, httpStatusForError } from '@/services/thesports';
+import { getCompetitionPriorities } from '@/services/tracked-competitions';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 interface SyncResult {
     type: string;
     fetched: number;
@@ -27,35 +26,15 @@ interface SyncResult {
 // API FETCH HELPERS
 // ============================================================================
 
-async function fetchPage<T>(endpoint: string, page: number): Promise<T[]> {
-    try {
-        const url = `${API_URL}${endpoint}?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-        const response = await fetch(url);
-        const data = await response.json();
-
-        if (data.code === 0 && data.results) {
-            return Array.isArray(data.results) ? data.results : [];
-        }
-        return [];
-    } catch (error) {
-        console.error(`[SyncAll] Error fetching ${endpoint} page ${page}:`, error);
-        return [];
-    }
-}
-
 async function fetchAllPages<T>(endpoint: string, maxPages: number): Promise<T[]> {
-    const allResults: T[] = [];
-
-    for (let page = 1; page <= maxPages; page++) {
-        const results = await fetchPage<T>(endpoint, page);
-        if (results.length === 0) {
-            console.log(`[SyncAll] ${endpoint}: Stopped at page ${page} (empty)`);
-            break;
-        }
-        allResults.push(...results);
-        console.log(`[SyncAll] ${endpoint}: Page ${page} fetched ${results.length} items (total: ${allResults.length})`);
-    }
-
+    const allResults = await fetchApiPages<T>(endpoint, {
+        maxPages,
+        onPage: (page, results) => {
+            console.log(`[SyncAll] ${endpoint}: Page ${page} fetched ${results.length} items`);
+        },
+    });
+
+    console.log(`[SyncAll] ${endpoint}: ${allResults.length} items total`);
     return allResults;
 }
 
@@ -112,14 +91,8 @@ async function syncCompetitions(maxPages: number): Promise<SyncResult> {
     let inserted = 0;
     let errors = 0;
 
-    // Top 5 European leagues get priority
-    const TOP_LEAGUES: Record<string, number> = {
-        'jednm9whz0ryox8': 1, // Premier League
-        'gy0or5jhg6qwzv3': 2, // Bundesliga
-        'vl7oqdehlyr510j': 3, // La Liga
-        '4zp5rzghp5q82w1': 4, // Serie A
-        'yl5ergphnzr8k0o': 5, // Ligue 1
-    };
+    // Tracked competitions keep their priority, everything else goes last
+    const priorities = await getCompetitionPriorities();
 
     const BATCH_SIZE = 100;
     for (let i = 0; i < competitions.length; i += BATCH_SIZE) {
@@ -130,7 +103,7 @@ async function syncCompetitions(maxPages: number): Promise<SyncResult> {
             logo: c.logo || null,
             country_id: c.country_id || null,
             type: c.type?.toString() || null,
-            priority: TOP_LEAGUES[c.id] || 999,
+            priority: priorities.get(c.id) ?? 999,
             primary_color: c.primary_color || null,
             secondary_color: c.secondary_color || null,
             updated_at: new Date().toISOString(),
@@ -242,6 +215,9 @@ async function syncSeasons(maxPages: number): Promise<SyncResult> {
 // ============================================================================
 
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     const searchParams = request.nextUrl.searchParams;
     const type = searchParams.get('type') || 'all';
     const maxPages = parseInt(searchParams.get('pages') || '100', 10);
@@ -288,7 +264,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
-        }, { status: 500 });
+        }, { status: httpStatusForError(error) });
     }
 }
 
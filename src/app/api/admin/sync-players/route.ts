@@ -12,30 +12,20 @@
  * - pages: max pages to fetch (default: 200, each page ~1000 players)
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 async function fetchPage<T>(endpoint: string, page: number): Promise<T[]> {
-    try {
-        const url = `${API_URL}${endpoint}?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-        const response = await fetch(url);
-        const data = await response.json();
-
-        if (data.code === 0 && data.results) {
-            return Array.isArray(data.results) ? data.results : [];
-        }
-        return [];
-    } catch (error) {
-        console.error(`[SyncPlayers] Error fetching page ${page}:`, error);
-        return [];
-    }
+    const results = await theSportsRequest<T[]>(endpoint, { page });
+    return Array.isArray(results) ? results : [];
 }
 
 export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     const searchParams = request.nextUrl.searchParams;
     const maxPages = parseInt(searchParams.get('pages') || '200', 10);
 
@@ -124,7 +114,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
-        }, { status: 500 });
+        }, { status: httpStatusForError(error) });
     }
 }
 
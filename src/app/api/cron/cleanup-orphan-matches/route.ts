@@ -4,10 +4,14 @@
  * These matches cannot be repaired since we have no team reference
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
 
-export async function GET() {
     try {
         console.log('[Cleanup] Starting orphan match cleanup...');
 
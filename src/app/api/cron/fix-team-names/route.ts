@@ -4,9 +4,10 @@
  * Uses the cache service to look up correct team names
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
 import { ensureCachesLoaded, getCacheStats, getCompetitionById, getTeamById } from '@/services/cache';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Fallback logos for competitions (in case API doesn't provide one)
 const COMPETITION_LOGOS: Record<string, string> = {
@@ -15,7 +16,10 @@ const COMPETITION_LOGOS: Record<string, string> = {
     'p4jwq2gh754m0ve': 'https://img.thesports.com/football/competition/88637a74a2cbd634b8b9504a60d711cd.png', // Conference League
 };
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
     try {
         console.log('[Fix] Starting team name fix...');
 
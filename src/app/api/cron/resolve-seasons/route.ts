@@ -0,0 +1,49 @@
+/**
+ * GET /api/cron/resolve-seasons
+ * Re-discovers the current season of every tracked competition and stores it
+ * in the seasons table (handles season rollover)
+ */
+
+import { requireRole } from '@/lib/auth';
+import { resolveAllTrackedSeasons } from '@/services/season-resolver';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
+    try {
+        console.log('[Seasons] Resolving current seasons...');
+        const { resolved, failed } = await resolveAllTrackedSeasons();
+
+        for (const failure of failed) {
+            console.error(`[Seasons] ${failure.competitionId}: ${failure.error}`);
+        }
+        console.log(`[Seasons] Complete: ${resolved.length} resolved, ${failed.length} failed`);
+
+        return NextResponse.json({
+            success: true,
+            synced: resolved.length,
+            errors: failed.length,
+            data: resolved.map(s => ({
+                competitionId: s.competitionId,
+                seasonId: s.seasonId,
+                name: s.name,
+                currentStageId: s.currentStageId,
+                totalMatchdays: s.totalMatchdays,
+                teamCount: s.teamCount,
+            })),
+            failed,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Seasons] Error:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
@@ -3,10 +3,14 @@
  * Syncs matches for last 7 days + today + next 7 days (15 days total)
  */
 
+import { requireRole } from '@/lib/auth';
 import { syncAllDays } from '@/services/sync-service';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
 
-export async function GET() {
     try {
         console.log('[Cron] Starting 15-day sync...');
 
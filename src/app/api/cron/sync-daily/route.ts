@@ -4,10 +4,15 @@
  * Should be called every 1-5 minutes
  */
 
+import { requireRole } from '@/lib/auth';
 import { syncDailyMatches } from '@/services/sync-service';
+import { httpStatusForError } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
     try {
         // Get date from query or use today
         const { searchParams } = new URL(request.url);
@@ -28,7 +33,7 @@ export async function GET(request: NextRequest) {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
             },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
@@ -0,0 +1,36 @@
+/**
+ * GET /api/cron/sync-lineups
+ * Stores the lineups of matches kicking off within the next 75 minutes
+ * (or started within the last 30) that have none yet - the first stored
+ * lineup publishes LineupsAnnounced (push, SSE, audit)
+ */
+
+import { requireRole } from '@/lib/auth';
+import { syncUpcomingLineups } from '@/services/lineups';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
+    try {
+        const { synced, errors } = await syncUpcomingLineups();
+        console.log(`[Lineups] Sync complete: ${synced} stored, ${errors} errors`);
+
+        return NextResponse.json({
+            success: true,
+            synced,
+            errors,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Lineups] Sync error:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
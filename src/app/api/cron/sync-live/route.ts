@@ -7,9 +7,13 @@
  * Previous functionality: Cron job to sync live matches from TheSports API to Supabase
  */
 
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
 
-export async function GET() {
     // Return immediately - live updates now handled by WebSocket only
     return NextResponse.json({
         success: true,
@@ -4,6 +4,7 @@
  * Should be called after cache is loaded, typically after sync-daily
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
 import {
     ensureCachesLoaded,
@@ -12,24 +13,13 @@ import {
     getCountryById,
     getTeamById
 } from '@/services/cache';
-import { NextResponse } from 'next/server';
-
-// TOP LEAGUES to sync - must match sync-service.ts
-const TOP_LEAGUE_IDS = [
-    'jednm9whz0ryox8', // Premier League
-    'l965mkyh32r1ge4', // Championship
-    'gy0or5jhg6qwzv3', // Bundesliga
-    'vl7oqdehlyr510j', // La Liga
-    '4zp5rzghp5q82w1', // Serie A
-    'yl5ergphnzr8k0o', // Ligue 1
-    'vl7oqdeheyr510j', // Eredivisie
-    '9vjxm8ghx2r6odg', // Primeira Liga
-    'z8yomo4h7wq0j6l', // Champions League
-    '56ypq3nh0xmd7oj', // Europa League
-    'p4jwq2gh754m0ve', // Conference League
-];
-
-export async function GET() {
+import { getSyncedCompetitionIds } from '@/services/tracked-competitions';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
     try {
         console.log('[SyncRef] Starting reference data sync...');
 
@@ -43,11 +33,12 @@ export async function GET() {
         let teamsSynced = 0;
         let errors = 0;
 
-        // 2. Sync TOP LEAGUE competitions
+        // 2. Sync tracked competitions
         console.log('[SyncRef] Syncing competitions...');
         const countryIds = new Set<string>();
+        const trackedIds = await getSyncedCompetitionIds();
 
-        for (const compId of TOP_LEAGUE_IDS) {
+        for (const compId of trackedIds) {
             const comp = getCompetitionById(compId);
             if (!comp) {
                 console.warn(`[SyncRef] Competition ${compId} not found in cache`);
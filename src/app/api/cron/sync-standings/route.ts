@@ -0,0 +1,37 @@
+/**
+ * GET /api/cron/sync-standings
+ * Syncs the full tables of all tracked competitions into the standings table
+ * Called every 10 minutes by the cron scheduler
+ */
+
+import { requireRole } from '@/lib/auth';
+import { syncAllStandings } from '@/services/standings';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'cron');
+    if (denied) return denied;
+
+    try {
+        console.log('[Standings] Starting standings sync...');
+        const { synced, errors, competitions } = await syncAllStandings();
+        console.log(`[Standings] Complete: ${synced} rows, ${errors} errors`);
+
+        return NextResponse.json({
+            success: true,
+            synced,
+            errors,
+            competitions,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('[Standings] Error:', error);
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
@@ -3,10 +3,14 @@
  * Returns cache statistics for debugging
  */
 
+import { requireRole } from '@/lib/auth';
 import { getCacheStats } from '@/services/cache';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
 
-export async function GET() {
     const stats = getCacheStats();
 
     return NextResponse.json({
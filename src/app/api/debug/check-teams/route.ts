@@ -3,8 +3,9 @@
  * Checks if specific team IDs from standings API exist in Supabase teams table
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 const TEAM_IDS_TO_CHECK = [
     'z318q66hdd1qo9j', // Liverpool (from PL standings)
@@ -13,7 +14,10 @@ const TEAM_IDS_TO_CHECK = [
     '318q66hoklkqo9j', // Bayern (from Bundesliga standings)
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         // Check these specific team IDs in Supabase
         const { data: teams, error } = await supabase
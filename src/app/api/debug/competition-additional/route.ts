@@ -1,18 +1,16 @@
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const { searchParams } = new URL(request.url);
         const uuid = searchParams.get('uuid') || 'gy0or5jhg6qwzv3'; // Default to Bundesliga
 
-        const response = await fetch(
-            `${API_URL}/v1/football/competition/additional/list?user=${USERNAME}&secret=${API_KEY}&uuid=${uuid}`
-        );
-        const data = await response.json();
+        const data = await theSportsRequestRaw('/v1/football/competition/additional/list', { uuid });
 
         return NextResponse.json({
             success: true,
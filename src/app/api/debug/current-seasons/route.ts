@@ -4,11 +4,9 @@
  * Uses competition/detail endpoint which contains cur_season_id
  */
 
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Our top league competition IDs
 const TOP_LEAGUES = [
@@ -19,21 +17,20 @@ const TOP_LEAGUES = [
     { id: 'yl5ergphnzr8k0o', name: 'Ligue 1' },
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
         for (const league of TOP_LEAGUES) {
             try {
                 // Try competition/detail endpoint
-                const detailUrl = `${API_URL}/v1/football/competition/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${league.id}`;
-                const detailResponse = await fetch(detailUrl);
-                const detailData = await detailResponse.json();
+                const detailData = await theSportsRequestRaw<{ cur_season_id?: string; cur_round?: number }>('/v1/football/competition/detail', { uuid: league.id });
 
                 // Also try to get season list for this competition
-                const seasonUrl = `${API_URL}/v1/football/season/list?user=${USERNAME}&secret=${API_KEY}&competition_id=${league.id}`;
-                const seasonResponse = await fetch(seasonUrl);
-                const seasonData = await seasonResponse.json();
+                const seasonData = await theSportsRequestRaw<Array<{ id: string; year: string; name?: string }>>('/v1/football/season/list', { competition_id: league.id });
 
                 results.push({
                     competitionId: league.id,
@@ -1,13 +1,14 @@
 /**
  * Debug endpoint to check diary pagination
  */
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const date = searchParams.get('date') || new Date().toISOString().split('T')[0].replace(/-/g, '');
 
@@ -16,14 +17,8 @@ export async function GET(request: NextRequest) {
     // Try pages 1-5
     for (let page = 1; page <= 5; page++) {
         try {
-            const url = `${API_URL}/v1/football/match/diary?user=${USERNAME}&secret=${API_KEY}&date=${date}&page=${page}`;
-            const response = await fetch(url, {
-                headers: { 'Accept': 'application/json' },
-                cache: 'no-store',
-            });
-
-            const data = await response.json();
-            const matches = data.results || data.data || [];
+            const data = await theSportsRequestRaw<unknown[]>('/v1/football/match/diary', { date, page });
+            const matches = data.results || (Array.isArray(data.data) ? data.data : []);
 
             results.push({
                 page,
@@ -3,11 +3,9 @@
  * Tries multiple potential Bundesliga season IDs to find the current one
  */
 
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Various season IDs to test - trying different patterns
 const TEST_SEASON_IDS = [
@@ -41,15 +39,16 @@ const TEST_SEASON_IDS = [
     'e4wyrn4hgzyq86p',
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
         for (const seasonId of TEST_SEASON_IDS) {
             try {
-                const url = `${API_URL}/v1/football/season/recent/table/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`;
-                const response = await fetch(url);
-                const data = await response.json();
+                const data = await theSportsRequestRaw<{ tables?: Array<{ rows?: Array<{ points: number; total: number }> }> }>('/v1/football/season/recent/table/detail', { uuid: seasonId });
 
                 const tables = data.results?.tables || [];
                 const rows = tables[0]?.rows || [];
@@ -3,8 +3,9 @@
  * Finds current season IDs by analyzing recent matches in Supabase
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 const TOP_LEAGUES = [
     { id: 'gy0or5jhg6qwzv3', name: 'Bundesliga' },
@@ -14,7 +15,10 @@ const TOP_LEAGUES = [
     { id: 'yl5ergphnzr8k0o', name: 'Ligue 1' },
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
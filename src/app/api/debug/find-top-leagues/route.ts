@@ -1,12 +1,10 @@
 /**
  * Debug endpoint to find top league competition IDs
  */
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 // Top league keywords to search for
 const TOP_LEAGUES = [
     'Premier League',
@@ -22,21 +20,18 @@ const TOP_LEAGUES = [
 ];
 
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const page = searchParams.get('page') || '1';
 
     try {
-        const url = `${API_URL}/v1/football/competition/additional/list?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-        const response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        const data = await response.json();
+        const data = await theSportsRequestRaw<Array<{ id: string; name: string; short_name?: string; country_id?: string; logo?: string }>>('/v1/football/competition/additional/list', { page });
         const competitions = data.results || [];
 
         // Filter for top leagues
-        const topLeagues = competitions.filter((c: { name?: string; short_name?: string }) => {
+        const topLeagues = competitions.filter(c => {
             const name = (c.name || '').toLowerCase();
             const shortName = (c.short_name || '').toLowerCase();
 
@@ -58,7 +53,7 @@ export async function GET(request: NextRequest) {
             page,
             totalCompetitions: competitions.length,
             topLeaguesFound: topLeagues.length,
-            topLeagues: topLeagues.map((c: { id: string; name: string; short_name?: string; country_id?: string; logo?: string }) => ({
+            topLeagues: topLeagues.map(c => ({
                 id: c.id,
                 name: c.name,
                 shortName: c.short_name,
@@ -3,12 +3,10 @@
  * Fetches logos for specific team IDs from both Supabase and TheSports API
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Teams that need logos
 const TEAMS_NEEDING_LOGOS = [
@@ -21,7 +19,10 @@ const TEAMS_NEEDING_LOGOS = [
     { id: 'n54qllh261zqvy9', name: 'Holstein Kiel' },
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
@@ -43,9 +44,7 @@ export async function GET() {
             } else {
                 // Try TheSports API
                 try {
-                    const url = `${API_URL}/v1/football/team/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${team.id}`;
-                    const response = await fetch(url);
-                    const data = await response.json();
+                    const data = await theSportsRequestRaw<{ logo?: string }>('/v1/football/team/detail', { uuid: team.id });
                     if (data.results?.logo) {
                         logo = data.results.logo;
                         source = 'api';
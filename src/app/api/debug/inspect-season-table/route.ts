@@ -3,18 +3,16 @@
  * Inspects the season/recent/table/detail API data structure
  */
 
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
-        const response = await fetch(
-            `${API_URL}/v1/football/season/recent/table/detail?user=${USERNAME}&secret=${API_KEY}`
-        );
-        const data = await response.json();
+        const data = await theSportsRequestRaw('/v1/football/season/recent/table/detail');
 
         const rawData = data.data || data.results || data;
 
@@ -32,7 +30,7 @@ export async function GET(request: NextRequest) {
             const keys = Object.keys(rawData);
             count = keys.length;
             if (keys.length > 0) {
-                sampleItem = { key: keys[0], value: rawData[keys[0]] };
+                sampleItem = { key: keys[0], value: (rawData as Record<string, unknown>)[keys[0]] };
             }
         }
 
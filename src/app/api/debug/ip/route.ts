@@ -3,16 +3,16 @@
  * Returns the outbound IP of the server as seen by TheSports API
  */
 
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
-    try {
-        const response = await fetch('https://api.thesports.com/v1/ip/demo', {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store'
-        });
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
 
-        const data = await response.json();
+    try {
+        const data = await theSportsRequestRaw('/v1/ip/demo');
 
         return NextResponse.json({
             success: true,
@@ -3,10 +3,14 @@
  * Forces a cache reload
  */
 
+import { requireRole } from '@/lib/auth';
 import { getCacheStats, initializeCache } from '@/services/cache';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
 
-export async function GET() {
     try {
         console.log('[Debug] Forcing cache reload...');
 
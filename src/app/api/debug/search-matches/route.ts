@@ -1,33 +1,37 @@
 /**
  * Debug endpoint to search for specific matches in TheSports API
  */
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+interface DiaryMatch {
+    id: string;
+    home_team_id?: string;
+    away_team_id?: string;
+    competition_id?: string;
+    status_id?: number;
+    match_time?: number;
+}
 
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const date = searchParams.get('date') || new Date().toISOString().split('T')[0].replace(/-/g, '');
     const search = searchParams.get('search') || '';
 
     try {
         // Fetch diary matches
-        const url = `${API_URL}/v1/football/match/diary?user=${USERNAME}&secret=${API_KEY}&date=${date}`;
-        const response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        const data = await response.json();
-        const matches = data.results || data.data || [];
+        const data = await theSportsRequestRaw<DiaryMatch[]>('/v1/football/match/diary', { date });
+        const matches: DiaryMatch[] = data.results || (Array.isArray(data.data) ? data.data : []);
 
         // Collect unique team and competition IDs
         const teamIds = new Set<string>();
         const compIds = new Set<string>();
 
-        matches.forEach((m: { home_team_id?: string; away_team_id?: string; competition_id?: string }) => {
+        matches.forEach(m => {
             if (m.home_team_id) teamIds.add(m.home_team_id);
             if (m.away_team_id) teamIds.add(m.away_team_id);
             if (m.competition_id) compIds.add(m.competition_id);
@@ -40,12 +44,10 @@ export async function GET(request: NextRequest) {
         // Get first 10 team names
         const teamIdArray = Array.from(teamIds).slice(0, 50);
         if (teamIdArray.length > 0) {
-            const teamUrl = `${API_URL}/v1/football/team/additional/list?user=${USERNAME}&secret=${API_KEY}&page=1`;
-            const teamResp = await fetch(teamUrl, { headers: { 'Accept': 'application/json' } });
-            const teamData = await teamResp.json();
+            const teamData = await theSportsRequestRaw<Array<{ id: string; name: string }>>('/v1/football/team/additional/list', { page: 1 });
             const teams = teamData.results || [];
 
-            teams.forEach((t: { id: string; name: string }) => {
+            teams.forEach(t => {
                 if (teamIdArray.includes(t.id)) {
                     teamSamples[t.id] = t.name;
                 }
@@ -56,7 +58,7 @@ export async function GET(request: NextRequest) {
         let filteredMatches = matches;
         if (search) {
             // We need to check team names - for now just return raw matches
-            filteredMatches = matches.filter((m: { id?: string }) =>
+            filteredMatches = matches.filter(m =>
                 JSON.stringify(m).toLowerCase().includes(search.toLowerCase())
             );
         }
@@ -68,14 +70,7 @@ export async function GET(request: NextRequest) {
             uniqueCompetitions: compIds.size,
             searchQuery: search || null,
             filteredCount: filteredMatches.length,
-            samples: filteredMatches.slice(0, 10).map((m: {
-                id: string;
-                home_team_id?: string;
-                away_team_id?: string;
-                competition_id?: string;
-                status_id?: number;
-                match_time?: number;
-            }) => ({
+            samples: filteredMatches.slice(0, 10).map(m => ({
                 id: m.id,
                 home_team_id: m.home_team_id,
                 away_team_id: m.away_team_id,
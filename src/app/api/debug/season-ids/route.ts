@@ -3,11 +3,9 @@
  * Gets current season IDs for top leagues directly from TheSports API
  */
 
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 const TOP_LEAGUE_IDS = [
     'gy0or5jhg6qwzv3', // Bundesliga
@@ -17,7 +15,10 @@ const TOP_LEAGUE_IDS = [
     'yl5ergphnzr8k0o', // Ligue 1
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         // Fetch competition details from TheSports API (includes cur_season_id)
         const results: any[] = [];
@@ -25,13 +26,10 @@ export async function GET() {
         for (const compId of TOP_LEAGUE_IDS) {
             try {
                 // Use season/list to get all seasons for this competition
-                const response = await fetch(
-                    `${API_URL}/v1/football/season/list?user=${USERNAME}&secret=${API_KEY}&competition_id=${compId}`
-                );
-                const data = await response.json();
+                const data = await theSportsRequestRaw<Array<{ id: string; year?: string }>>('/v1/football/season/list', { competition_id: compId });
 
                 // Get seasons array
-                const seasons = data.results || data.data || [];
+                const seasons = data.results || (Array.isArray(data.data) ? data.data : []);
 
                 // Sort by year descending to get latest season
                 const sortedSeasons = [...seasons].sort((a: any, b: any) =>
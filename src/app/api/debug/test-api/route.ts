@@ -1,13 +1,18 @@
 /**
  * Debug endpoint to test TheSports API directly with detailed logging
  */
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
 const API_KEY = process.env.THESPORTS_API_KEY || '';
 const USERNAME = process.env.THESPORTS_USERNAME || '';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     // Test multiple endpoints with correct paths from documentation
     const endpoints = [
         // BASIC INFO - these should work
@@ -30,39 +35,26 @@ export async function GET() {
         '/v1/football/match/additional/diary',        // With /additional/ prefix
     ];
 
-    const results: Record<string, { url: string; status?: number; response?: unknown; error?: string }> = {};
+    const results: Record<string, { response?: unknown; error?: string }> = {};
 
     for (const endpoint of endpoints) {
-        const url = `${API_URL}${endpoint}?user=${USERNAME}&secret=${API_KEY}`;
-
         try {
             console.log(`Testing endpoint: ${endpoint}`);
 
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json',
-                },
-                cache: 'no-store',
-            });
-
-            const data = await response.json();
+            const data = await theSportsRequestRaw(endpoint);
+            const nested = (data.data as { results?: unknown[] } | undefined)?.results;
 
             results[endpoint] = {
-                url: url.replace(API_KEY, '***'),
-                status: response.status,
                 response: data.err ? { error: data.err } : {
                     success: true,
                     code: data.code,
                     dataCount: Array.isArray(data.data) ? data.data.length :
-                        (data.data?.results ? data.data.results.length : 'N/A'),
+                        (nested ? nested.length : 'N/A'),
                     hasData: !!data.data
                 },
             };
         } catch (error) {
             results[endpoint] = {
-                url: url.replace(API_KEY, '***'),
                 error: error instanceof Error ? error.message : 'Unknown error',
             };
         }
@@ -1,13 +1,14 @@
 /**
  * Debug endpoint to test diary endpoint with different date formats
  */
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
 
-export async function GET() {
     // Test different date formats
     const dateFormats = [
         { format: 'YYYY-MM-DD', date: '2025-12-26' },
@@ -20,25 +21,15 @@ export async function GET() {
     const results: Record<string, unknown> = {};
 
     for (const { format, date } of dateFormats) {
-        let url = `${API_URL}/v1/football/match/diary?user=${USERNAME}&secret=${API_KEY}`;
-        if (date) {
-            url += `&date=${date}`;
-        }
-
         try {
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: { 'Accept': 'application/json' },
-                cache: 'no-store',
-            });
-
-            const data = await response.json();
+            const data = await theSportsRequestRaw('/v1/football/match/diary', { date: date || undefined });
+            const nested = (data.data as { results?: unknown[] } | undefined)?.results;
 
             results[format] = {
                 dateParam: date,
                 success: !data.err,
                 error: data.err,
-                dataCount: data.data?.results?.length || (Array.isArray(data.data) ? data.data.length : 'N/A'),
+                dataCount: nested?.length || (Array.isArray(data.data) ? data.data.length : 'N/A'),
                 code: data.code,
                 message: data.message,
             };
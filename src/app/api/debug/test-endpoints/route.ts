@@ -3,18 +3,19 @@
  * Tests various TheSports API endpoints to see what's available
  */
 
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { requireRole } from '@/lib/auth';
+import { TheSportsApiError, theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Get a sample team and match ID
 const SAMPLE_TEAM_ID = 'p3glrw7he0gqdyj'; // Red Bull Salzburg from cache
 const SAMPLE_MATCH_ID = 'vjxm8ghe5gn1r6o';
 const SAMPLE_COMPETITION_ID = 'yl5ergphyvr8k0o';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const endpointsToTest = [
         // === ENDPOINTS FROM TheSportsAPI.pdf ===
         // Real-time data - should contain incidents, stats, score
@@ -47,20 +48,10 @@ export async function GET() {
     const results: Record<string, unknown> = {};
 
     for (const endpoint of endpointsToTest) {
-        const url = new URL(`${API_URL}${endpoint.path}`);
-        url.searchParams.set('user', USERNAME);
-        url.searchParams.set('secret', API_KEY);
-
-        Object.entries(endpoint.params).forEach(([key, value]) => {
-            url.searchParams.set(key, value);
-        });
-
         try {
-            const response = await fetch(url.toString(), {
-                headers: { 'Accept': 'application/json' },
-            });
-
-            const data = await response.json();
+            const data = await theSportsRequestRaw<unknown[]>(endpoint.path, endpoint.params);
+            const dataList = Array.isArray(data.data) ? data.data : null;
+            const nested = (data.data as { results?: unknown[] } | undefined)?.results;
 
             // Special debug for team_stats/detail
             if (endpoint.path.includes('team_stats/detail')) {
@@ -77,16 +68,15 @@ export async function GET() {
                     rawDataSample: data,
                     dataIsArray: Array.isArray(data.data),
                     resultsIsArray: Array.isArray(data.results),
-                    firstResult: data.results?.[0] || data.data?.[0] || data.data || null
+                    firstResult: data.results?.[0] || dataList?.[0] || data.data || null
                 };
             }
 
             const hasData = !!(data.data || data.results);
             const error = data.err || null;
-            const sampleData = data.data?.results?.[0] || data.results?.[0] || data.data || null;
+            const sampleData = nested?.[0] || data.results?.[0] || data.data || null;
 
             results[endpoint.path] = {
-                status: response.status,
                 authorized: !error,
                 hasData,
                 error,
@@ -95,7 +85,7 @@ export async function GET() {
             };
         } catch (e) {
             results[endpoint.path] = {
-                status: 0,
+                status: e instanceof TheSportsApiError ? e.status : null,
                 authorized: false,
                 error: e instanceof Error ? e.message : 'Unknown error',
             };
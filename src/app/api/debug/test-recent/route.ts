@@ -1,13 +1,14 @@
 /**
  * Debug endpoint to test match/recent/list with date filtering
  */
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
     const page = searchParams.get('page') || '1';
@@ -15,13 +16,7 @@ export async function GET(request: NextRequest) {
 
     try {
         // Test /match/recent/list endpoint
-        const url = `${API_URL}/v1/football/match/recent/list?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-        const response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        const data = await response.json();
+        const data = await theSportsRequestRaw<Array<{ match_time?: number; home_team_id?: string; away_team_id?: string }>>('/v1/football/match/recent/list', { page });
 
         if (data.err) {
             return NextResponse.json({
@@ -30,7 +25,7 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        const matches = data.results || data.data || [];
+        const matches = data.results || (Array.isArray(data.data) ? data.data : []);
 
         // Filter by date if provided
         const dateStart = new Date(`${date}T00:00:00Z`).getTime() / 1000;
@@ -45,13 +40,11 @@ export async function GET(request: NextRequest) {
         let searchResults = filteredMatches;
         if (search) {
             // Get team names for search
-            const teamUrl = `${API_URL}/v1/football/team/additional/list?user=${USERNAME}&secret=${API_KEY}&page=1`;
-            const teamResp = await fetch(teamUrl, { headers: { 'Accept': 'application/json' } });
-            const teamData = await teamResp.json();
+            const teamData = await theSportsRequestRaw<Array<{ id: string; name: string }>>('/v1/football/team/additional/list', { page: 1 });
             const teams = teamData.results || [];
 
             const teamMap: Record<string, string> = {};
-            teams.forEach((t: { id: string; name: string }) => {
+            teams.forEach(t => {
                 teamMap[t.id] = t.name;
             });
 
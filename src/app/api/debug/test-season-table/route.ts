@@ -3,13 +3,14 @@
  * Tests the season/recent/table/detail endpoint with different season IDs
  */
 
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: Request) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const { searchParams } = new URL(request.url);
         const seasonId = searchParams.get('season_id');
@@ -17,15 +18,14 @@ export async function GET(request: Request) {
         // If no season_id provided, test multiple endpoints
         if (!seasonId) {
             // Test table/live first to see what's currently available
-            const liveUrl = `${API_URL}/v1/football/table/live?user=${USERNAME}&secret=${API_KEY}`;
-            const liveResponse = await fetch(liveUrl);
-            const liveData = await liveResponse.json();
+            const liveData = await theSportsRequestRaw('/v1/football/table/live');
+            const liveTables = Array.isArray(liveData.data) ? liveData.data : [];
 
             return NextResponse.json({
                 success: true,
                 message: 'Use ?season_id=XXX to test specific season',
-                tableLiveCount: liveData.data?.length || 0,
-                tableLiveSamples: (liveData.data || []).slice(0, 5).map((t: any) => ({
+                tableLiveCount: liveTables.length,
+                tableLiveSamples: liveTables.slice(0, 5).map((t: any) => ({
                     season_id: t.season_id,
                     firstTeam: t.tables?.[0]?.rows?.[0]?.team_id,
                     rowCount: t.tables?.[0]?.rows?.length,
@@ -34,9 +34,7 @@ export async function GET(request: Request) {
         }
 
         // Test with provided season_id
-        const url = `${API_URL}/v1/football/season/recent/table/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`;
-        const response = await fetch(url);
-        const data = await response.json();
+        const data = await theSportsRequestRaw<{ tables?: Array<{ rows?: unknown[] }>; promotions?: unknown[] }>('/v1/football/season/recent/table/detail', { uuid: seasonId });
 
         // Parse the response
         const tables = data.results?.tables || [];
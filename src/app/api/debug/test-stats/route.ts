@@ -3,13 +3,14 @@
  * Debug endpoint to test team_stats APIs with specific match IDs
  */
 
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const matchId = searchParams.get('match_id') || '4wyrn4h68j8jq86'; // AC Milan vs Verona
 
@@ -17,23 +18,18 @@ export async function GET(request: NextRequest) {
 
     // Test all stats endpoints
     const endpoints = [
-        { name: 'team_stats/list', url: `/v1/football/match/team_stats/list?user=${USERNAME}&secret=${API_KEY}` },
-        { name: 'team_stats/detail (id)', url: `/v1/football/match/team_stats/detail?user=${USERNAME}&secret=${API_KEY}&id=${matchId}` },
-        { name: 'team_stats/detail (uuid)', url: `/v1/football/match/team_stats/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}` },
-        { name: 'half/team_stats/list', url: `/v1/football/match/half/team_stats/list?user=${USERNAME}&secret=${API_KEY}` },
-        { name: 'half/team_stats/detail', url: `/v1/football/match/half/team_stats/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}` },
-        { name: 'detail_live', url: `/v1/football/match/detail_live?user=${USERNAME}&secret=${API_KEY}` },
-        { name: 'live/history', url: `/v1/football/match/live/history?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}` },
+        { name: 'team_stats/list', path: '/v1/football/match/team_stats/list', params: {} },
+        { name: 'team_stats/detail (id)', path: '/v1/football/match/team_stats/detail', params: { id: matchId } },
+        { name: 'team_stats/detail (uuid)', path: '/v1/football/match/team_stats/detail', params: { uuid: matchId } },
+        { name: 'half/team_stats/list', path: '/v1/football/match/half/team_stats/list', params: {} },
+        { name: 'half/team_stats/detail', path: '/v1/football/match/half/team_stats/detail', params: { uuid: matchId } },
+        { name: 'detail_live', path: '/v1/football/match/detail_live', params: {} },
+        { name: 'live/history', path: '/v1/football/match/live/history', params: { uuid: matchId } },
     ];
 
     for (const ep of endpoints) {
         try {
-            const response = await fetch(`${API_URL}${ep.url}`, {
-                headers: { 'Accept': 'application/json' },
-                cache: 'no-store',
-            });
-
-            const data = await response.json();
+            const data = await theSportsRequestRaw(ep.path, ep.params);
 
             // Check if match is in results
             let matchFound = false;
@@ -3,12 +3,10 @@
  * Tests the table/live endpoint to see standings data structure
  */
 
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 // Top League IDs
 const TOP_LEAGUE_IDS = [
     'gy0or5jhg6qwzv3', // Bundesliga
@@ -19,25 +17,27 @@ const TOP_LEAGUE_IDS = [
 ];
 
 export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const competitionId = searchParams.get('competition_id') || 'gy0or5jhg6qwzv3'; // Default: Bundesliga
 
     try {
         // Try table/live endpoint
-        const liveUrl = `${API_URL}/v1/football/table/live?user=${USERNAME}&secret=${API_KEY}`;
-        const liveResponse = await fetch(liveUrl);
-        const liveData = await liveResponse.json();
+        const liveData = await theSportsRequestRaw('/v1/football/table/live');
 
         // Try to find data for our competition
         let relevantData = null;
-        const allData = liveData.data || liveData.results || liveData;
+        const allData: unknown = liveData.data || liveData.results || liveData;
 
         // Check if it's an object with season_id keys
         if (allData && typeof allData === 'object' && !Array.isArray(allData)) {
             // It might be keyed by season_id
-            const keys = Object.keys(allData);
+            const table = allData as Record<string, { competition_id?: string } | undefined>;
+            const keys = Object.keys(table);
             for (const key of keys) {
-                const entry = allData[key];
+                const entry = table[key];
                 if (entry?.competition_id === competitionId || key.includes(competitionId)) {
                     relevantData = entry;
                     break;
@@ -50,7 +50,7 @@ export async function GET(request: NextRequest) {
                 dataType: 'object',
                 keyCount: keys.length,
                 sampleKeys: keys.slice(0, 5),
-                firstValue: keys.length > 0 ? allData[keys[0]] : null,
+                firstValue: keys.length > 0 ? table[keys[0]] : null,
                 relevantData: relevantData,
             });
         }
@@ -3,11 +3,9 @@
  * Tests team lookup from TheSports API
  */
 
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Team IDs from Bundesliga standings
 const TEST_TEAM_IDS = [
@@ -17,15 +15,16 @@ const TEST_TEAM_IDS = [
     'kdj2ryoh3wyq1zp', // Position 5
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
         for (const teamId of TEST_TEAM_IDS) {
             try {
-                const url = `${API_URL}/v1/football/team/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${teamId}`;
-                const response = await fetch(url);
-                const data = await response.json();
+                const data = await theSportsRequestRaw<{ name?: string; short_name?: string; logo?: string }>('/v1/football/team/detail', { uuid: teamId });
 
                 results.push({
                     teamId,
@@ -3,13 +3,14 @@
  * Tests the team endpoint to see what format the API returns
  */
 
-import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'read');
+    if (denied) return denied;
 
-export async function GET() {
     try {
         // Try different endpoint paths
         const endpointsToTest = [
@@ -21,22 +22,16 @@ export async function GET() {
         const results: Record<string, unknown> = {};
 
         for (const endpoint of endpointsToTest) {
-            const url = `${API_URL}${endpoint}?user=${USERNAME}&secret=${API_KEY}&page=1`;
-
             try {
-                const response = await fetch(url, {
-                    headers: { 'Accept': 'application/json' },
-                });
-
-                const data = await response.json();
+                const data = await theSportsRequestRaw<unknown[]>(endpoint, { page: 1 });
+                const nested = (data.data as { results?: unknown[] } | undefined)?.results;
 
                 results[endpoint] = {
-                    status: response.status,
                     hasData: !!data.data,
                     hasResults: !!data.results,
-                    dataKeys: data.data ? Object.keys(data.data) : null,
-                    resultsLength: data.data?.results?.length || data.results?.length || 0,
-                    sample: data.data?.results?.[0] || data.results?.[0] || null,
+                    dataKeys: data.data && typeof data.data === 'object' ? Object.keys(data.data) : null,
+                    resultsLength: nested?.length || data.results?.length || 0,
+                    sample: nested?.[0] || data.results?.[0] || null,
                     error: data.err || null,
                 };
             } catch (e) {
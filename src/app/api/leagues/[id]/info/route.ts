@@ -2,65 +2,32 @@
  * GET /api/leagues/[id]/info
  * Returns combined info for a league's Info Tab:
  * - Season progress
- * - Top 3 standings (from TheSports season/recent/table/detail API)
+ * - Top 3 standings (from the standings table)
  * - Top match of the matchday
  * - Championship history (static)
  */
 
-import { supabase } from '@/lib/supabase';
+import { DbStanding, supabase } from '@/lib/supabase';
+import { formatPreviousSeasonName, getCurrentSeason } from '@/services/season-resolver';
+import { getStandings, groupStandingTables } from '@/services/standings';
+import { theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Current 2025/26 season IDs mapped by competition_id
-// These are verified to work with /v1/football/season/recent/table/detail
-const CURRENT_SEASON_IDS: Record<string, string> = {
-    'gy0or5jhg6qwzv3': 'e4wyrn4hg8gq86p', // Bundesliga 2025/26
-    'jednm9whz0ryox8': 'l965mkyhjpxr1ge', // Premier League 2025/26
-    'l965mkyh32r1ge4': '56ypq3nhx51md7o', // Championship 2025/26
-    'vl7oqdehlyr510j': '56ypq3nhxw7md7o', // La Liga 2025/26
-    '4zp5rzghp5q82w1': '4zp5rzghn83q82w', // Serie A 2025/26
-    'yl5ergphnzr8k0o': '9dn1m1gh645moep', // Ligue 1 2025/26
-    '8y39mp1h6jmojxg': '4zp5rzgh8xvq82w', // Süper Lig 2025/26
-    'vl7oqdeheyr510j': 'yl5ergphgo0r8k0', // Eredivisie 2025/26
-    '9vjxm8ghx2r6odg': 'kjw2r09h811rz84', // Primeira Liga 2025/26
-    'z8yomo4h7wq0j6l': 'z8yomo4hn70q0j6', // Champions League 2025/26
-    '56ypq3nh0xmd7oj': 'v2y8m4zhl38ql07', // Europa League 2025/26
-};
-
-// Current stage IDs for fetching matchday fixtures
-const CURRENT_STAGE_IDS: Record<string, string> = {
-    'gy0or5jhg6qwzv3': 'y39mp1he8ddmojx', // Bundesliga
-    'jednm9whz0ryox8': '6ypq3nhpo67md7o', // Premier League
-    'l965mkyh32r1ge4': 'jw2r09hgv82rz84', // Championship
-    'vl7oqdehlyr510j': 'dn1m1ghgdd5moep', // La Liga
-    '4zp5rzghp5q82w1': '4wyrn4h5pzlq86p', // Serie A
-    'yl5ergphnzr8k0o': '965mkyh098kr1ge', // Ligue 1
-    '8y39mp1h6jmojxg': 'y39mp1hepd8mojx', // Süper Lig (placeholder - will be updated)
-    'vl7oqdeheyr510j': '1l4rjnhdp4km7vx', // Eredivisie
-    '9vjxm8ghx2r6odg': '965mkyh09vxr1ge', // Primeira Liga
-    'z8yomo4h7wq0j6l': 'dj2ryoh9064q1zp', // Champions League
-    '56ypq3nh0xmd7oj': 'vjxm8gh76d0r6od', // Europa League
-};
-
-// Season info per league (2025/26)
-const SEASON_INFO: Record<string, { totalMatchdays: number; season: string; teamCount: number }> = {
-    'gy0or5jhg6qwzv3': { totalMatchdays: 34, season: '2025/26', teamCount: 18 }, // Bundesliga
-    'jednm9whz0ryox8': { totalMatchdays: 38, season: '2025/26', teamCount: 20 }, // Premier League
-    'l965mkyh32r1ge4': { totalMatchdays: 46, season: '2025/26', teamCount: 24 }, // Championship
-    'vl7oqdehlyr510j': { totalMatchdays: 38, season: '2025/26', teamCount: 20 }, // La Liga
-    '4zp5rzghp5q82w1': { totalMatchdays: 38, season: '2025/26', teamCount: 20 }, // Serie A
-    'yl5ergphnzr8k0o': { totalMatchdays: 34, season: '2025/26', teamCount: 18 }, // Ligue 1
-    '8y39mp1h6jmojxg': { totalMatchdays: 38, season: '2025/26', teamCount: 19 }, // Süper Lig
-    'vl7oqdeheyr510j': { totalMatchdays: 34, season: '2025/26', teamCount: 18 }, // Eredivisie
-    '9vjxm8ghx2r6odg': { totalMatchdays: 34, season: '2025/26', teamCount: 18 }, // Primeira Liga
-    'z8yomo4h7wq0j6l': { totalMatchdays: 8, season: '2025/26', teamCount: 36 }, // Champions League
-    '56ypq3nh0xmd7oj': { totalMatchdays: 8, season: '2025/26', teamCount: 36 }, // Europa League
-};
-
+interface SeasonMatch {
+    id: string;
+    home_team_id: string;
+    away_team_id: string;
+    match_time: number;
+    status_id: number;
+    round?: { round_num?: number };
+}
 
+interface CompetitionAdditional {
+    title_holder?: [string, number];
+    most_titles?: [string[], number];
+    primary_color?: string;
+    secondary_color?: string;
+}
 
 export async function GET(
     _request: NextRequest,
@@ -68,41 +35,35 @@ export async function GET(
 ) {
     try {
         const { id: leagueId } = await params;
-        const seasonId = CURRENT_SEASON_IDS[leagueId];
-        const seasonInfo = SEASON_INFO[leagueId] || { totalMatchdays: 34, season: '2025/26', teamCount: 18 };
-
-        // 1. Fetch standings from TheSports API first
-        let tableResult = null;
+        const season = await getCurrentSeason(leagueId);
+        const seasonId = season?.seasonId;
+        const seasonInfo = {
+            totalMatchdays: season?.totalMatchdays || 34,
+            season: season?.name || '',
+            teamCount: season?.teamCount || 18,
+        };
+
+        // 1. Standings from the standings table (first table for group stages)
+        let rows: DbStanding[] = [];
         if (seasonId) {
             try {
-                const response = await fetch(`${API_URL}/v1/football/season/recent/table/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`);
-                tableResult = await response.json();
+                rows = groupStandingTables((await getStandings(leagueId)).rows)[0]?.rows || [];
             } catch (err) {
-                console.error('Table fetch error:', err);
+                console.error('Standings read error:', err);
             }
         }
 
-        // Parse standings rows
-        const tables = tableResult?.results?.tables || [];
-        const rows = tables[0]?.rows || [];
-
-        // 2. Get team IDs from top 3 standings
-        const top3TeamIds = rows.slice(0, 3).map((row: any) => row.team_id as string);
-
-        // 3. Fetch data in parallel - teams by specific IDs, upcoming matches from API
-        const [teamsResult, upcomingMatchResult, competitionAdditional] = await Promise.all([
-            // Get only the teams we need from Supabase
-            top3TeamIds.length > 0
-                ? supabase
-                    .from('teams')
-                    .select('id, name, logo')
-                    .in('id', top3TeamIds)
-                : Promise.resolve({ data: [], error: null }),
+        // Team names and logos are stored with the standings rows
+        const teamMap = new Map<string, { name: string; logo: string }>();
+        for (const row of rows) {
+            if (row.team_id && row.team_name) teamMap.set(row.team_id, { name: row.team_name, logo: row.team_logo || '' });
+        }
 
+        // 2. Fetch data in parallel - upcoming matches and competition data from API
+        const [upcomingMatchResult, competitionAdditional] = await Promise.all([
             // Get recent matches from TheSports API using season_id (auto-updates with current season)
             seasonId
-                ? fetch(`${API_URL}/v1/football/match/season/recent?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`)
-                    .then(r => r.json())
+                ? theSportsRequest<SeasonMatch[]>('/v1/football/match/season/recent', { uuid: seasonId })
                     .catch(err => {
                         console.error('Match season/recent fetch error:', err);
                         return null;
@@ -110,22 +71,13 @@ export async function GET(
                 : Promise.resolve(null),
 
             // Get competition additional data (title_holder, most_titles) from TheSports API
-            fetch(`${API_URL}/v1/football/competition/additional/list?user=${USERNAME}&secret=${API_KEY}&uuid=${leagueId}`)
-                .then(r => r.json())
+            theSportsRequest<CompetitionAdditional[]>('/v1/football/competition/additional/list', { uuid: leagueId })
                 .catch(err => {
                     console.error('Competition additional fetch error:', err);
                     return null;
                 }),
         ]);
 
-        // Build team lookup map
-        const teamMap = new Map<string, { name: string; logo: string }>();
-        if (teamsResult.data) {
-            for (const team of teamsResult.data) {
-                teamMap.set(team.id, { name: team.name, logo: team.logo || '' });
-            }
-        }
-
         // Process standings
         let top3Standings: Array<{
             position: number;
@@ -144,20 +96,19 @@ export async function GET(
 
         if (rows.length > 0) {
             // Get matchday from first team's total games played
-            currentMatchday = rows[0]?.total || 1;
+            currentMatchday = rows[0]?.played || 1;
 
-            // Get top 3 standings with team name lookup
-            top3Standings = rows.slice(0, 3).map((row: any, idx: number) => {
-                const teamInfo = teamMap.get(row.team_id) || { name: `Team ${idx + 1}`, logo: '' };
+            // Get top 3 standings (team name and logo are stored with the row)
+            top3Standings = rows.slice(0, 3).map((row, idx) => {
                 return {
                     position: row.position || idx + 1,
-                    team: teamInfo.name,
-                    logo: teamInfo.logo,
-                    played: row.total || 0,
+                    team: row.team_name || `Team ${idx + 1}`,
+                    logo: row.team_logo || '',
+                    played: row.played || 0,
                     won: row.won || 0,
-                    drawn: row.draw || 0,
-                    lost: row.loss || 0,
-                    goals: `${row.goals || 0}:${row.goals_against || 0}`,
+                    drawn: row.drawn || 0,
+                    lost: row.lost || 0,
+                    goals: `${row.goals_for || 0}:${row.goals_against || 0}`,
                     points: row.points || 0,
                     zone: idx < 4 ? 'cl' : undefined,
                 };
@@ -169,13 +120,13 @@ export async function GET(
         // IMPORTANT: Only from current (next) matchday
         let topMatch = null;
         let calculatedCurrentRound = currentMatchday; // Default to table-based matchday
-        const upcomingMatches = upcomingMatchResult?.results || [];
+        const upcomingMatches = upcomingMatchResult || [];
 
         if (upcomingMatches.length > 0 && rows.length > 0) {
             // Build position map from standings (team_id -> position)
             const positionMap = new Map<string, number>();
-            rows.forEach((row: any) => {
-                positionMap.set(row.team_id, row.position);
+            rows.forEach(row => {
+                if (row.team_id && row.position) positionMap.set(row.team_id, row.position);
             });
 
             const teamCount = seasonInfo?.teamCount || 18;
@@ -332,7 +283,7 @@ export async function GET(
 
         // Get championship data from API or fallback to static data
         let championships = null;
-        const additionalData = competitionAdditional?.results?.[0];
+        const additionalData = competitionAdditional?.[0];
         if (additionalData) {
             // API format: title_holder = [team_id, title_count]
             // API format: most_titles = [[team_ids], count]
@@ -373,7 +324,7 @@ export async function GET(
                     lastChampion: lastChampionTeam ? {
                         name: lastChampionTeam.name,
                         logo: lastChampionTeam.logo,
-                        season: '2024/25', // Current season's champion
+                        season: season ? formatPreviousSeasonName(season) : null, // Previous season's champion
                     } : null,
                     mostTitles: mostTitlesTeam ? {
                         name: mostTitlesTeam.name,
@@ -405,7 +356,7 @@ export async function GET(
             },
             debug: {
                 seasonId,
-                rowsFromApi: rows.length,
+                standingsRows: rows.length,
             },
             timestamp: new Date().toISOString(),
         });
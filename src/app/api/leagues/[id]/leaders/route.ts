@@ -0,0 +1,60 @@
+/**
+ * GET /api/leagues/[id]/leaders
+ * Player leaderboards of the current season
+ * Query: ?type=goals|assists|yellow|red|rating (default goals), ?limit=20 (max 100)
+ * Computed from stored match events and lineup ratings, each entry carries
+ * TheSports' value (upstreamValue) when their season stats are available
+ * Name fallbacks follow ?lang= / Accept-Language (de, en)
+ */
+
+import { resolveLocale } from '@/lib/i18n';
+import { getLeaders, LEADER_TYPES, LeaderType } from '@/services/leaders';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: leagueId } = await params;
+        const { searchParams } = request.nextUrl;
+
+        const type = (searchParams.get('type') || 'goals') as LeaderType;
+        if (!LEADER_TYPES.includes(type)) {
+            return NextResponse.json(
+                { success: false, error: `type must be one of ${LEADER_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+        const result = await getLeaders(leagueId, type, limit, resolveLocale(request));
+
+        if (!result.seasonId) {
+            return NextResponse.json(
+                { success: false, error: `No current season found for league ${leagueId}` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                type,
+                seasonId: result.seasonId,
+                source: result.source,
+                leaders: result.leaders,
+                verification: result.verification,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching leaders:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -2,29 +2,25 @@
  * GET /api/leagues/[id]/schedule
  * Returns match schedule for a league, optionally filtered by matchday (round)
  * Uses TheSports /match/season/recent API with season_id
+ * Query: ?round=, ?tz= IANA timezone for date/time strings (default Europe/Berlin)
  */
 
 import { supabase } from '@/lib/supabase';
+import { formatZonedDate, formatZonedTime, resolveTimeZone } from '@/lib/timezone';
+import { getCurrentSeason } from '@/services/season-resolver';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Current 2025/26 season IDs mapped by competition_id
-const CURRENT_SEASON_IDS: Record<string, string> = {
-    'gy0or5jhg6qwzv3': 'e4wyrn4hg8gq86p', // Bundesliga 2025/26
-    'jednm9whz0ryox8': 'l965mkyhjpxr1ge', // Premier League 2025/26
-    'l965mkyh32r1ge4': '56ypq3nhx51md7o', // Championship 2025/26
-    'vl7oqdehlyr510j': '56ypq3nhxw7md7o', // La Liga 2025/26
-    '4zp5rzghp5q82w1': '4zp5rzghn83q82w', // Serie A 2025/26
-    'yl5ergphnzr8k0o': '9dn1m1gh645moep', // Ligue 1 2025/26
-    '8y39mp1h6jmojxg': '4zp5rzgh8xvq82w', // Süper Lig 2025/26
-    'vl7oqdeheyr510j': 'yl5ergphgo0r8k0', // Eredivisie 2025/26
-    '9vjxm8ghx2r6odg': 'kjw2r09h811rz84', // Primeira Liga 2025/26
-    'z8yomo4h7wq0j6l': 'z8yomo4hn70q0j6', // Champions League 2025/26
-    '56ypq3nh0xmd7oj': 'v2y8m4zhl38ql07', // Europa League 2025/26
-};
+interface SeasonMatch {
+    id: string;
+    home_team_id?: string;
+    away_team_id?: string;
+    match_time?: number;
+    status_id?: number;
+    home_scores?: number[];
+    away_scores?: number[];
+    round?: { round_num?: number };
+}
 
 export async function GET(
     request: NextRequest,
@@ -32,31 +28,33 @@ export async function GET(
 ) {
     try {
         const { id: leagueId } = await params;
-        const seasonId = CURRENT_SEASON_IDS[leagueId];
+        const seasonId = (await getCurrentSeason(leagueId))?.seasonId;
 
         if (!seasonId) {
             return NextResponse.json(
-                { success: false, error: `No season ID configured for league ${leagueId}` },
-                { status: 400 }
+                { success: false, error: `No current season found for league ${leagueId}` },
+                { status: 404 }
             );
         }
 
         // Get optional round/matchday query parameter
         const { searchParams } = new URL(request.url);
         const round = searchParams.get('round');
-
-        // Fetch matches from TheSports API using season/recent
-        let apiUrl = `${API_URL}/v1/football/match/season/recent?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`;
-
-        // Add round filter if specified
-        if (round) {
-            apiUrl += `&round=${round}`;
+        const timeZone = resolveTimeZone(searchParams.get('tz'));
+        if (!timeZone) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid tz. Use an IANA timezone like Europe/Berlin' },
+                { status: 400 }
+            );
         }
 
-        const response = await fetch(apiUrl);
-        const data = await response.json();
+        // Fetch matches from TheSports API using season/recent (round filter if specified)
+        const results = await theSportsRequest<SeasonMatch[]>('/v1/football/match/season/recent', {
+            uuid: seasonId,
+            round: round || undefined,
+        });
 
-        const matches = data?.results || [];
+        const matches = Array.isArray(results) ? results : [];
 
         if (matches.length === 0) {
             return NextResponse.json({
@@ -112,8 +110,8 @@ export async function GET(
                     score: awayScore,
                 },
                 startTime: matchTime?.toISOString() || null,
-                date: matchTime?.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: '2-digit' }) || null,
-                time: matchTime?.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' }) || null,
+                date: matchTime ? formatZonedDate(matchTime, timeZone) : null,
+                time: matchTime ? formatZonedTime(matchTime, timeZone) : null,
                 status: match.status_id || 0,
                 round: match.round?.round_num ?? null,
             };
@@ -138,8 +136,8 @@ export async function GET(
         // Find the earliest upcoming match date for each round
         const roundFirstMatchDate = new Map<number, number>();
         for (const match of upcomingMatches) {
-            const matchTime = new Date(match.startTime).getTime();
-            const round = match.round;
+            const matchTime = new Date(match.startTime as string).getTime();
+            const round = match.round as number;
             const existingTime = roundFirstMatchDate.get(round);
             if (!existingTime || matchTime < existingTime) {
                 roundFirstMatchDate.set(round, matchTime);
@@ -176,6 +174,7 @@ export async function GET(
                 matches: transformedMatches,
                 round: round || 'all',
                 currentRound,
+                timezone: timeZone,
                 totalMatches: transformedMatches.length,
             },
             timestamp: new Date().toISOString(),
@@ -184,7 +183,7 @@ export async function GET(
         console.error('Error fetching schedule:', error);
         return NextResponse.json(
             { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
@@ -0,0 +1,78 @@
+/**
+ * GET /api/leagues/[id]/standings/computed
+ * Table built locally from finished matches (standings engine)
+ * Query: ?matchday=N for the table as of matchday N,
+ *        ?validate=1 to compare the stored (TheSports) table with the computed one,
+ *        ?lang=de|en for zone labels
+ */
+
+import { resolveLocale } from '@/lib/i18n';
+import { computeStandings, validateStandings } from '@/services/standings-engine';
+import { formatStandingRow } from '@/services/standings';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: leagueId } = await params;
+        const { searchParams } = request.nextUrl;
+
+        if (['1', 'true'].includes(searchParams.get('validate') || '')) {
+            const validation = await validateStandings(leagueId);
+            if (!validation) {
+                return NextResponse.json(
+                    { success: false, error: `No current season found for league ${leagueId}` },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json({
+                success: true,
+                data: validation,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        const matchdayParam = searchParams.get('matchday');
+        const matchday = matchdayParam ? parseInt(matchdayParam, 10) : undefined;
+        if (matchday !== undefined && (isNaN(matchday) || matchday < 1)) {
+            return NextResponse.json(
+                { success: false, error: 'matchday must be a positive integer' },
+                { status: 400 }
+            );
+        }
+
+        const table = await computeStandings(leagueId, { matchday });
+        if (!table) {
+            return NextResponse.json(
+                { success: false, error: `No current season found for league ${leagueId}` },
+                { status: 404 }
+            );
+        }
+
+        const locale = resolveLocale(request);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                standings: table.rows.map(row => formatStandingRow(row, locale)),
+                seasonId: table.seasonId,
+                matchday: table.matchday,
+                tiebreakers: table.rules,
+                matchesCounted: table.matchesCounted,
+                teamsCount: table.rows.length,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error computing standings:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,59 @@
+/**
+ * GET /api/leagues/[id]/standings/history
+ * Position, points and goal difference per matchday (season trajectory)
+ * Query: ?team=<team_id> for a single team (otherwise all teams), ?season=<season_id>
+ */
+
+import { getStandingsHistory } from '@/services/standings-history';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: leagueId } = await params;
+        const { searchParams } = request.nextUrl;
+        const teamId = searchParams.get('team') || undefined;
+
+        const { seasonId, teams } = await getStandingsHistory(leagueId, {
+            teamId,
+            seasonId: searchParams.get('season') || undefined,
+        });
+
+        if (!seasonId) {
+            return NextResponse.json(
+                { success: false, error: `No current season found for league ${leagueId}` },
+                { status: 404 }
+            );
+        }
+
+        if (teamId) {
+            const team = teams[0];
+            return NextResponse.json({
+                success: true,
+                data: {
+                    seasonId,
+                    teamId,
+                    team: team?.team || null,
+                    history: team?.history || [],
+                },
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { seasonId, teams },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching standings history:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -5,12 +5,9 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 interface ApiEvent {
     type?: number;
     time?: number;
@@ -83,51 +80,39 @@ export async function GET(
         // 2. Fallback to TheSports API
         let events: ApiEvent[] = [];
         let source = 'none';
+        const upstreamErrors: unknown[] = [];
 
         // Try detail_live first
-        const detailLiveUrl = `${API_URL}/v1/football/match/detail_live?user=${USERNAME}&secret=${API_KEY}`;
-        const detailLiveResponse = await fetch(detailLiveUrl, {
-            headers: { 'Accept': 'application/json' },
-        });
-
-        if (detailLiveResponse.ok) {
-            const detailLiveData = await detailLiveResponse.json();
-
-            if (!detailLiveData.err) {
-                const matches: DetailLiveMatch[] = Array.isArray(detailLiveData.results)
-                    ? detailLiveData.results
-                    : (Array.isArray(detailLiveData.data)
-                        ? detailLiveData.data
-                        : (detailLiveData.data?.results || []));
-
-                const match = matches.find(m => String(m.id) === String(id));
-
-                if (match) {
-                    source = 'detail_live';
-                    if (match.incidents && Array.isArray(match.incidents)) {
-                        events = match.incidents;
-                    } else if (match.tlive && Array.isArray(match.tlive)) {
-                        events = match.tlive;
-                    }
+        try {
+            const matches = await theSportsRequest<DetailLiveMatch[]>('/v1/football/match/detail_live');
+            const match = Array.isArray(matches) ? matches.find(m => String(m.id) === String(id)) : undefined;
+
+            if (match) {
+                source = 'detail_live';
+                if (match.incidents && Array.isArray(match.incidents)) {
+                    events = match.incidents;
+                } else if (match.tlive && Array.isArray(match.tlive)) {
+                    events = match.tlive;
                 }
             }
+        } catch (error) {
+            console.error('[Events] detail_live failed:', error);
+            upstreamErrors.push(error);
         }
 
         // Try live/history as fallback
         if (events.length === 0) {
-            const historyUrl = `${API_URL}/v1/football/match/live/history?user=${USERNAME}&secret=${API_KEY}&id=${id}`;
-            const historyResponse = await fetch(historyUrl, {
-                headers: { 'Accept': 'application/json' },
-            });
-
-            if (historyResponse.ok) {
-                const historyData = await historyResponse.json();
+            try {
+                const history = await theSportsRequest<DetailLiveMatch | DetailLiveMatch[]>(
+                    '/v1/football/match/live/history',
+                    { id }
+                );
 
-                if (!historyData.err && historyData.data) {
+                if (history) {
                     source = 'live/history';
-                    const matchData = Array.isArray(historyData.data)
-                        ? historyData.data.find((m: DetailLiveMatch) => m.id === id) || historyData.data[0]
-                        : historyData.data;
+                    const matchData = Array.isArray(history)
+                        ? history.find(m => m.id === id) || history[0]
+                        : history;
 
                     if (matchData?.incidents && Array.isArray(matchData.incidents)) {
                         events = matchData.incidents;
@@ -135,9 +120,17 @@ export async function GET(
                         events = matchData.tlive;
                     }
                 }
+            } catch (error) {
+                console.error('[Events] live/history failed:', error);
+                upstreamErrors.push(error);
             }
         }
 
+        // Both sources failed - report the outage instead of an empty event list
+        if (upstreamErrors.length === 2) {
+            throw upstreamErrors[upstreamErrors.length - 1];
+        }
+
         return NextResponse.json({
             success: true,
             data: events,
@@ -155,7 +148,7 @@ export async function GET(
                 error: error instanceof Error ? error.message : 'Unknown error',
                 data: [],
             },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
@@ -0,0 +1,71 @@
+/**
+ * GET /api/matches/[id]/h2h
+ * Previous meetings of the two teams of a match, aggregate W/D/L and goals
+ * (from the home team's perspective) and the last meeting at the same venue
+ * Query: ?limit=10 (max 50) number of meetings returned
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getHeadToHead } from '@/services/head-to-head';
+import { isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        const { data: match, error: matchError } = await supabase
+            .from('matches')
+            .select('home_team_id, away_team_id, home_team_name, away_team_name')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (matchError) {
+            throw new Error(matchError.message);
+        }
+        if (!match?.home_team_id || !match.away_team_id
+            || !isValidEntityId(match.home_team_id) || !isValidEntityId(match.away_team_id)) {
+            return NextResponse.json(
+                { success: false, error: `Match ${id} not found` },
+                { status: 404 }
+            );
+        }
+
+        const limit = Math.min(50, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '10', 10) || 10));
+        const h2h = await getHeadToHead(match.home_team_id, match.away_team_id, {
+            matchId: id,
+            venueTeamId: match.home_team_id,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                homeTeam: { id: match.home_team_id, name: match.home_team_name || '' },
+                awayTeam: { id: match.away_team_id, name: match.away_team_name || '' },
+                summary: {
+                    played: h2h.summary.played,
+                    homeWins: h2h.summary.teamAWins,
+                    draws: h2h.summary.draws,
+                    awayWins: h2h.summary.teamBWins,
+                    homeGoals: h2h.summary.teamAGoals,
+                    awayGoals: h2h.summary.teamBGoals,
+                },
+                meetings: h2h.meetings.slice(0, limit),
+                lastMeetingAtVenue: h2h.lastMeetingAtVenue,
+            },
+            matchId: id,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching head-to-head:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -2,30 +2,36 @@
  * GET /api/matches/[id]/info
  * Returns additional match information: venue, referee, environment (weather)
  * Uses TheSports APIs directly for all data
+ * Weather label follows ?lang= / Accept-Language (de, en)
  */
 
+import { getWeatherLabel, resolveLocale } from '@/lib/i18n';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Weather code to German label mapping
-const WEATHER_LABELS: Record<number, string> = {
-    1: 'Teilweise bewölkt',
-    2: 'Bewölkt',
-    3: 'Teilweise bewölkt/Regen',
-    4: 'Schnee',
-    5: 'Sonnig',
-    6: 'Bedeckt/Gewitter',
-    7: 'Bedeckt',
-    8: 'Nebelig',
-    9: 'Bedeckt mit Regen',
-    10: 'Bewölkt mit Regen',
-    11: 'Bewölkt mit Regen/Gewitter',
-    12: 'Wolken/Regen/Gewitter lokal',
-    13: 'Nebel',
-};
+interface RecentMatch {
+    venue_id?: string;
+    referee_id?: string;
+    environment?: {
+        weather: number;
+        temperature?: unknown;
+        humidity?: unknown;
+        wind?: unknown;
+        pressure?: unknown;
+    };
+}
+
+interface VenueResult {
+    name?: string;
+    city?: string;
+    capacity?: string;
+}
+
+interface RefereeResult {
+    name?: string;
+    country?: string;
+    country_name?: string;
+}
 
 // Weather code to icon mapping
 const WEATHER_ICONS: Record<number, string> = {
@@ -67,26 +73,19 @@ const formatWind = (val: unknown): string | null => {
 };
 
 export async function GET(
-    _request: NextRequest,
+    request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const { id: matchId } = await params;
 
         // Fetch match detail from TheSports API using match/recent/list
-        const response = await fetch(
-            `${API_URL}/v1/football/match/recent/list?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}`
+        const results = await theSportsRequest<RecentMatch[] | RecentMatch>(
+            '/v1/football/match/recent/list',
+            { uuid: matchId }
         );
-        const apiData = await response.json();
-
-        if (apiData.err) {
-            return NextResponse.json({
-                success: false,
-                error: apiData.err,
-            }, { status: 400 });
-        }
 
-        const matchData = apiData.results?.[0] || apiData.results || {};
+        const matchData: RecentMatch = (Array.isArray(results) ? results[0] : results) || {};
 
         // Extract venue, referee, environment
         const venueId = matchData.venue_id || null;
@@ -98,11 +97,11 @@ export async function GET(
 
         if (venueId) {
             try {
-                const venueResponse = await fetch(
-                    `${API_URL}/v1/football/venue/list?user=${USERNAME}&secret=${API_KEY}&uuid=${venueId}`
+                const venueResults = await theSportsRequest<VenueResult[] | VenueResult>(
+                    '/v1/football/venue/list',
+                    { uuid: venueId }
                 );
-                const venueData = await venueResponse.json();
-                const venue = venueData.results?.[0] || venueData.results;
+                const venue = Array.isArray(venueResults) ? venueResults[0] : venueResults;
 
                 if (venue && venue.name) {
                     venueInfo = {
@@ -122,11 +121,11 @@ export async function GET(
 
         if (refereeId) {
             try {
-                const refereeResponse = await fetch(
-                    `${API_URL}/v1/football/referee/list?user=${USERNAME}&secret=${API_KEY}&uuid=${refereeId}`
+                const refereeResults = await theSportsRequest<RefereeResult[] | RefereeResult>(
+                    '/v1/football/referee/list',
+                    { uuid: refereeId }
                 );
-                const refereeData = await refereeResponse.json();
-                const referee = refereeData.results?.[0] || refereeData.results;
+                const referee = Array.isArray(refereeResults) ? refereeResults[0] : refereeResults;
 
                 if (referee && referee.name) {
                     refereeInfo = {
@@ -145,7 +144,7 @@ export async function GET(
         if (environment) {
             const weatherCode = environment.weather;
             weatherInfo = {
-                weather: WEATHER_LABELS[weatherCode] || null,
+                weather: getWeatherLabel(weatherCode, resolveLocale(request)),
                 weatherIcon: WEATHER_ICONS[weatherCode] || '🌡️',
                 weatherCode: weatherCode,
                 temperature: formatTemp(environment.temperature),
@@ -174,7 +173,7 @@ export async function GET(
         return NextResponse.json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
-        }, { status: 500 });
+        }, { status: httpStatusForError(error) });
     }
 }
 
@@ -2,22 +2,14 @@
  * GET /api/matches/[id]/lineup
  * Returns match lineup (starting players, substitutes, formations)
  * Uses TheSports /v1/football/match/lineup/detail API
+ * Read-only - match_lineups is filled by the lineups cron (services/lineups.ts)
+ * Position labels follow ?lang= / Accept-Language (de, en)
  */
 
+import { getPositionLabel, getUnknownLabel, resolveLocale } from '@/lib/i18n';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Map position codes to display format
-const POSITION_MAP: Record<string, string> = {
-    'G': 'TW',   // Goalkeeper -> Torwart
-    'D': 'ABW',  // Defender -> Abwehr
-    'M': 'MIT',  // Midfielder -> Mittelfeld
-    'F': 'STR',  // Forward -> Stürmer
-};
-
 interface ApiPlayer {
     id: string;
     name: string;
@@ -32,6 +24,22 @@ interface ApiPlayer {
     incidents?: any[];
 }
 
+interface CoachResult {
+    name?: string;
+    name_en?: string;
+    logo?: string;
+}
+
+interface LineupDetail {
+    confirmed?: number;
+    home_formation?: string;
+    away_formation?: string;
+    lineup?: { home?: ApiPlayer[]; away?: ApiPlayer[] };
+    coach?: { home?: CoachResult & { id?: string }; away?: CoachResult & { id?: string } };
+    coach_id?: { home?: string; away?: string };
+    injury?: unknown;
+}
+
 interface TransformedPlayer {
     id: string;
     name: string;
@@ -48,38 +56,28 @@ interface TransformedPlayer {
 }
 
 export async function GET(
-    _request: NextRequest,
+    request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const { id } = await params;
+        const locale = resolveLocale(request);
 
         // Fetch match lineup from TheSports API using lineup/detail
-        const url = `${API_URL}/v1/football/match/lineup/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${id}`;
-        const response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-        });
-
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data.err) {
-            throw new Error(data.err);
-        }
-
-        const results = data.results || {};
+        const results = await theSportsRequest<LineupDetail>(
+            '/v1/football/match/lineup/detail',
+            { uuid: id },
+            { revalidate: 60 }
+        ) || {};
 
         // Transform player data
         const transformPlayer = (player: ApiPlayer): TransformedPlayer => ({
             id: player.id,
-            name: player.name || 'Unbekannt',
+            name: player.name || getUnknownLabel(locale),
             logo: player.logo || null,
             number: player.shirt_number || 0,
             position: player.position || '',
-            positionLabel: POSITION_MAP[player.position || ''] || player.position || '',
+            positionLabel: getPositionLabel(player.position, locale),
             isStarter: player.first === 1,
             isCaptain: player.captain === 1,
             x: player.x ?? null,
@@ -115,11 +113,11 @@ export async function GET(
         // Fetch coach from /coach/list API if we only have ID
         if (homeCoachId && !homeCoachName) {
             try {
-                const coachRes = await fetch(
-                    `${API_URL}/v1/football/coach/list?user=${USERNAME}&secret=${API_KEY}&uuid=${homeCoachId}`
+                const coachResults = await theSportsRequest<CoachResult[] | CoachResult>(
+                    '/v1/football/coach/list',
+                    { uuid: homeCoachId }
                 );
-                const coachData = await coachRes.json();
-                const coach = coachData.results?.[0] || coachData.results;
+                const coach = Array.isArray(coachResults) ? coachResults[0] : coachResults;
                 if (coach) {
                     homeCoachName = coach.name || coach.name_en || null;
                     homeCoachLogo = coach.logo || null;
@@ -131,11 +129,11 @@ export async function GET(
 
         if (awayCoachId && !awayCoachName) {
             try {
-                const coachRes = await fetch(
-                    `${API_URL}/v1/football/coach/list?user=${USERNAME}&secret=${API_KEY}&uuid=${awayCoachId}`
+                const coachResults = await theSportsRequest<CoachResult[] | CoachResult>(
+                    '/v1/football/coach/list',
+                    { uuid: awayCoachId }
                 );
-                const coachData = await coachRes.json();
-                const coach = coachData.results?.[0] || coachData.results;
+                const coach = Array.isArray(coachResults) ? coachResults[0] : coachResults;
                 if (coach) {
                     awayCoachName = coach.name || coach.name_en || null;
                     awayCoachLogo = coach.logo || null;
@@ -178,7 +176,7 @@ export async function GET(
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
             },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
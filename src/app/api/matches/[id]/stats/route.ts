@@ -2,50 +2,16 @@
  * GET /api/matches/:id/stats
  * Returns team statistics for a match
  * Fetches from TheSports API and caches in Supabase
+ * Labels follow ?lang= / Accept-Language (de, en)
  */
 
+import { getStatLabel, getUnknownStatLabel, Locale, resolveLocale } from '@/lib/i18n';
 import { supabase } from '@/lib/supabase';
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Stat type mapping from TheSports API
-// Based on WebSocket stats format: { type, home, away }
-const STAT_TYPE_MAP: Record<number, { label: string; labelDe: string; isPercentage?: boolean }> = {
-    1: { label: 'Possession', labelDe: 'Ballbesitz', isPercentage: true },
-    2: { label: 'Shots', labelDe: 'Schüsse' },
-    3: { label: 'Shots on Target', labelDe: 'Schüsse aufs Tor' },
-    4: { label: 'Fouls', labelDe: 'Fouls' },
-    5: { label: 'Corner Kicks', labelDe: 'Eckstöße' },
-    6: { label: 'Offsides', labelDe: 'Abseits' },
-    7: { label: 'Yellow Cards', labelDe: 'Gelbe Karten' },
-    8: { label: 'Red Cards', labelDe: 'Rote Karten' },
-    9: { label: 'Free Kicks', labelDe: 'Freistöße' },
-    10: { label: 'Saves', labelDe: 'Paraden' },
-    11: { label: 'Passes', labelDe: 'Pässe' },
-    12: { label: 'Pass Accuracy', labelDe: 'Passgenauigkeit', isPercentage: true },
-    13: { label: 'Tackles', labelDe: 'Tackles' },
-    14: { label: 'Attacks', labelDe: 'Angriffe' },
-    15: { label: 'Dangerous Attacks', labelDe: 'Gefährliche Angriffe' },
-    16: { label: 'Crosses', labelDe: 'Flanken' },
-    17: { label: 'Interceptions', labelDe: 'Abfangaktionen' },
-    18: { label: 'Clearances', labelDe: 'Klärungsaktionen' },
-    19: { label: 'Blocked Shots', labelDe: 'Geblockte Schüsse' },
-    20: { label: 'Big Chances', labelDe: 'Großchancen' },
-    21: { label: 'Dribbles', labelDe: 'Dribblings' },
-    22: { label: 'Duels Won', labelDe: 'Zweikämpfe gewonnen' },
-    23: { label: 'Aerials Won', labelDe: 'Luftduelle gewonnen' },
-    24: { label: 'Long Balls', labelDe: 'Lange Bälle' },
-    25: { label: 'Goal Kicks', labelDe: 'Abstöße' },
-    26: { label: 'Throw-ins', labelDe: 'Einwürfe' },
-    27: { label: 'Hit Woodwork', labelDe: 'Pfostentreffer' },
-    28: { label: 'Key Passes', labelDe: 'Schlüsselpässe' },
-    29: { label: 'Dribbles Successful', labelDe: 'Erfolgreiche Dribblings' },
-    30: { label: 'Duels', labelDe: 'Zweikämpfe' },
-    31: { label: 'Possession Lost', labelDe: 'Ballverluste' },
-};
+// Stat types shown as percentages (labels come from the i18n catalogs)
+const PERCENTAGE_STAT_TYPES = new Set([1, 12]);
 
 // Cache expiry time (60 seconds for live matches)
 const CACHE_TTL_MS = 60 * 1000;
@@ -58,12 +24,16 @@ interface StatRow {
     isPercentage?: boolean;
 }
 
+// Stats as parsed from the API, labelled per request
+type ParsedStat = Omit<StatRow, 'label'>;
+
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const { id: matchId } = await params;
+        const locale = resolveLocale(request);
 
         if (!matchId) {
             return NextResponse.json({ success: false, error: 'Match ID required' }, { status: 400 });
@@ -86,7 +56,7 @@ export async function GET(
                 return NextResponse.json({
                     success: true,
                     matchId,
-                    stats: formatStats(cachedStats),
+                    stats: formatStats(cachedStats, locale),
                     cached: true,
                     cacheAge: Math.round(cacheAge / 1000),
                 });
@@ -95,19 +65,27 @@ export async function GET(
 
         // 2. Fetch fresh stats from TheSports API
         console.log(`[Stats] Fetching fresh stats for ${matchId}`);
-        const apiStats = await fetchStatsFromAPI(matchId);
+        let apiStats: ParsedStat[] = [];
+        let upstreamError: unknown = null;
+        try {
+            apiStats = await fetchStatsFromAPI(matchId);
+        } catch (error) {
+            upstreamError = error;
+        }
 
-        if (!apiStats || apiStats.length === 0) {
+        if (apiStats.length === 0) {
             // Return cached stats if available, even if stale
             if (cachedStats && cachedStats.length > 0) {
                 return NextResponse.json({
                     success: true,
                     matchId,
-                    stats: formatStats(cachedStats),
+                    stats: formatStats(cachedStats, locale),
                     cached: true,
                     stale: true,
                 });
             }
+            // Every upstream source failed - surface the outage rather than "no stats"
+            if (upstreamError) throw upstreamError;
             return NextResponse.json({ success: true, matchId, stats: [] });
         }
 
@@ -118,124 +96,100 @@ export async function GET(
         return NextResponse.json({
             success: true,
             matchId,
-            stats: apiStats,
+            stats: localizeStats(apiStats, locale),
             cached: false,
         });
     } catch (error) {
         console.error('[Stats] Error:', error);
         return NextResponse.json(
             { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
-            { status: 500 }
+            { status: httpStatusForError(error) }
         );
     }
 }
 
-async function fetchStatsFromAPI(matchId: string): Promise<StatRow[]> {
-    try {
-        // Try team_stats/list first (for live/recent matches with stats changed in last 120s)
-        // This endpoint returns stats in the simple { type, home, away } format
-        let url = `${API_URL}/v1/football/match/team_stats/list?user=${USERNAME}&secret=${API_KEY}`;
-
-        console.log(`[Stats] Trying team_stats/list...`);
-        let response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        if (response.ok) {
-            const data = await response.json();
-            if (data.code === 0 && data.results) {
-                // Find our match in the results
-                const matchData = findMatchInResults(data.results, matchId);
-                if (matchData && matchData.stats && matchData.stats.length > 0) {
-                    console.log(`[Stats] Found ${matchData.stats.length} stats in team_stats/list`);
-                    return parseSimpleStats(matchData.stats);
-                }
-            }
-        }
-
-        // Fallback: Try detail_live endpoint which has stats for all live matches
-        console.log(`[Stats] Trying detail_live...`);
-        url = `${API_URL}/v1/football/match/detail_live?user=${USERNAME}&secret=${API_KEY}`;
-
-        response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        if (response.ok) {
-            const data = await response.json();
-            if (data.code === 0 && data.results) {
-                const matchData = findMatchInResults(data.results, matchId);
-                if (matchData && matchData.stats && matchData.stats.length > 0) {
-                    console.log(`[Stats] Found ${matchData.stats.length} stats in detail_live`);
-                    return parseSimpleStats(matchData.stats);
-                }
-            }
-        }
-
-        // Last resort: Try team_stats/detail endpoint with uuid parameter
-        // This endpoint returns stats directly as an array of team objects (not wrapped in match)
-        console.log(`[Stats] Trying team_stats/detail...`);
-        url = `${API_URL}/v1/football/match/team_stats/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}`;
-
-        response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        if (response.ok) {
-            const data = await response.json();
-            console.log(`[Stats] team_stats/detail response code: ${data.code}, results length: ${Array.isArray(data.results) ? data.results.length : 'N/A'}`);
-
-            if (data.code === 0 && data.results && Array.isArray(data.results) && data.results.length >= 2) {
-                const firstItem = data.results[0];
-
-                // Check if it's the detailed team format with team_id, ball_possession, etc.
+/**
+ * Walk the stats fallback chain
+ * Returns [] when the API answered without stats, throws when every source failed
+ */
+async function fetchStatsFromAPI(matchId: string): Promise<ParsedStat[]> {
+    const sources: Array<{ name: string; load: () => Promise<ParsedStat[]> }> = [
+        {
+            // Live/recent matches with stats changed in last 120s - simple { type, home, away } format
+            name: 'team_stats/list',
+            load: async () => {
+                const results = await theSportsRequest<unknown>('/v1/football/match/team_stats/list');
+                const matchData = findMatchInResults(results, matchId);
+                return matchData?.stats?.length > 0 ? parseSimpleStats(matchData.stats) : [];
+            },
+        },
+        {
+            // Stats for all live matches
+            name: 'detail_live',
+            load: async () => {
+                const results = await theSportsRequest<unknown>('/v1/football/match/detail_live');
+                const matchData = findMatchInResults(results, matchId);
+                return matchData?.stats?.length > 0 ? parseSimpleStats(matchData.stats) : [];
+            },
+        },
+        {
+            // Stats directly as an array of team objects (not wrapped in match)
+            name: 'team_stats/detail',
+            load: async () => {
+                const results = await theSportsRequest<Array<Record<string, unknown>>>('/v1/football/match/team_stats/detail', { uuid: matchId });
+                if (!Array.isArray(results) || results.length < 2) return [];
+
+                const firstItem = results[0];
+                // Detailed team format with team_id, ball_possession, etc.
                 if (firstItem && 'team_id' in firstItem && 'ball_possession' in firstItem) {
-                    console.log(`[Stats] Found detailed team stats for ${matchId}`);
-                    return parseDetailedStats(data.results[0], data.results[1]);
+                    return parseDetailedStats(results[0], results[1]);
                 }
-                // Check if it's simple format with type, home, away
-                else if (firstItem && 'type' in firstItem && 'home' in firstItem) {
-                    console.log(`[Stats] Found simple stats for ${matchId}`);
-                    return parseSimpleStats(data.results);
+                // Simple format with type, home, away
+                if (firstItem && 'type' in firstItem && 'home' in firstItem) {
+                    return parseSimpleStats(results as Array<{ type: number; home: number; away: number }>);
                 }
-            }
-        }
-
-        // Try live/history endpoint for finished matches (last 30 days)
-        console.log(`[Stats] Trying live/history...`);
-        url = `${API_URL}/v1/football/match/live/history?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}`;
-
-        response = await fetch(url, {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        if (response.ok) {
-            const data = await response.json();
-            console.log(`[Stats] live/history response code: ${data.code}`);
-
-            if (data.code === 0 && data.results) {
-                // results is an object with {id, score, stats, incidents, tlive}
-                const matchResult = data.results;
-                if (matchResult.stats && Array.isArray(matchResult.stats) && matchResult.stats.length >= 2) {
-                    const firstItem = matchResult.stats[0];
-                    if (firstItem && 'team_id' in firstItem) {
-                        console.log(`[Stats] Found stats in live/history for ${matchId}`);
-                        return parseDetailedStats(matchResult.stats[0], matchResult.stats[1]);
-                    }
+                return [];
+            },
+        },
+        {
+            // Finished matches (last 30 days) - object with {id, score, stats, incidents, tlive}
+            name: 'live/history',
+            load: async () => {
+                const matchResult = await theSportsRequest<{ stats?: Array<Record<string, unknown>> }>(
+                    '/v1/football/match/live/history',
+                    { uuid: matchId }
+                );
+                const stats = matchResult?.stats;
+                if (Array.isArray(stats) && stats.length >= 2 && stats[0] && 'team_id' in stats[0]) {
+                    return parseDetailedStats(stats[0], stats[1]);
                 }
+                return [];
+            },
+        },
+    ];
+
+    let failures = 0;
+    let lastError: unknown = null;
+
+    for (const source of sources) {
+        console.log(`[Stats] Trying ${source.name}...`);
+        try {
+            const stats = await source.load();
+            if (stats.length > 0) {
+                console.log(`[Stats] Found ${stats.length} stats in ${source.name} for ${matchId}`);
+                return stats;
             }
+        } catch (error) {
+            console.error(`[Stats] ${source.name} failed:`, error instanceof Error ? error.message : error);
+            failures++;
+            lastError = error;
         }
-
-        console.log(`[Stats] No stats found for ${matchId}`);
-        return [];
-    } catch (error) {
-        console.error('[Stats] Fetch error:', error);
-        return [];
     }
+
+    if (failures === sources.length) throw lastError;
+
+    console.log(`[Stats] No stats found for ${matchId}`);
+    return [];
 }
 
 // Helper to find match in various result structures
@@ -258,28 +212,26 @@ function findMatchInResults(results: any, matchId: string): any | null {
 }
 
 // Parse simple stats format: [{ type, home, away }, ...]
-function parseSimpleStats(stats: Array<{ type: number; home: number; away: number }>): StatRow[] {
+function parseSimpleStats(stats: Array<{ type: number; home: number; away: number }>): ParsedStat[] {
     return stats
-        .filter(stat => STAT_TYPE_MAP[stat.type]) // Only include known types
+        .filter(stat => getStatLabel(stat.type) !== null) // Only include known types
         .map(stat => ({
             type: stat.type,
-            label: STAT_TYPE_MAP[stat.type]?.labelDe || `Typ ${stat.type}`,
             homeValue: stat.home || 0,
             awayValue: stat.away || 0,
-            isPercentage: STAT_TYPE_MAP[stat.type]?.isPercentage,
+            isPercentage: PERCENTAGE_STAT_TYPES.has(stat.type) || undefined,
         }))
         .sort((a, b) => a.type - b.type); // Sort by type for consistent ordering
 }
 
 // Parse detailed stats format with team objects
-function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
-    const stats: StatRow[] = [];
+function parseDetailedStats(homeStats: any, awayStats: any): ParsedStat[] {
+    const stats: ParsedStat[] = [];
 
     // Ball possession
     if (homeStats.ball_possession !== undefined) {
         stats.push({
             type: 1,
-            label: 'Ballbesitz',
             homeValue: homeStats.ball_possession || 0,
             awayValue: awayStats.ball_possession || 0,
             isPercentage: true,
@@ -290,7 +242,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.shots !== undefined) {
         stats.push({
             type: 2,
-            label: 'Schüsse',
             homeValue: homeStats.shots || 0,
             awayValue: awayStats.shots || 0,
         });
@@ -300,7 +251,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.shots_on_target !== undefined) {
         stats.push({
             type: 3,
-            label: 'Schüsse aufs Tor',
             homeValue: homeStats.shots_on_target || 0,
             awayValue: awayStats.shots_on_target || 0,
         });
@@ -310,7 +260,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.blocked_shots !== undefined) {
         stats.push({
             type: 19,
-            label: 'Geblockte Schüsse',
             homeValue: homeStats.blocked_shots || 0,
             awayValue: awayStats.blocked_shots || 0,
         });
@@ -320,7 +269,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.hit_woodwork !== undefined) {
         stats.push({
             type: 27,
-            label: 'Pfostentreffer',
             homeValue: homeStats.hit_woodwork || 0,
             awayValue: awayStats.hit_woodwork || 0,
         });
@@ -330,7 +278,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.corner_kicks !== undefined) {
         stats.push({
             type: 5,
-            label: 'Eckstöße',
             homeValue: homeStats.corner_kicks || 0,
             awayValue: awayStats.corner_kicks || 0,
         });
@@ -340,7 +287,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.fouls !== undefined) {
         stats.push({
             type: 4,
-            label: 'Fouls',
             homeValue: homeStats.fouls || 0,
             awayValue: awayStats.fouls || 0,
         });
@@ -350,7 +296,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.yellow_cards !== undefined) {
         stats.push({
             type: 7,
-            label: 'Gelbe Karten',
             homeValue: homeStats.yellow_cards || 0,
             awayValue: awayStats.yellow_cards || 0,
         });
@@ -360,7 +305,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.red_cards !== undefined) {
         stats.push({
             type: 8,
-            label: 'Rote Karten',
             homeValue: homeStats.red_cards || 0,
             awayValue: awayStats.red_cards || 0,
         });
@@ -370,7 +314,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.offsides !== undefined) {
         stats.push({
             type: 6,
-            label: 'Abseits',
             homeValue: homeStats.offsides || 0,
             awayValue: awayStats.offsides || 0,
         });
@@ -380,7 +323,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.passes !== undefined) {
         stats.push({
             type: 11,
-            label: 'Pässe',
             homeValue: homeStats.passes || 0,
             awayValue: awayStats.passes || 0,
         });
@@ -392,7 +334,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
         const awayAccuracy = awayStats.passes > 0 ? Math.round((awayStats.passes_accuracy / awayStats.passes) * 100) : 0;
         stats.push({
             type: 12,
-            label: 'Passgenauigkeit',
             homeValue: homeAccuracy,
             awayValue: awayAccuracy,
             isPercentage: true,
@@ -403,7 +344,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.key_passes !== undefined) {
         stats.push({
             type: 28,
-            label: 'Schlüsselpässe',
             homeValue: homeStats.key_passes || 0,
             awayValue: awayStats.key_passes || 0,
         });
@@ -413,7 +353,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.crosses !== undefined) {
         stats.push({
             type: 16,
-            label: 'Flanken',
             homeValue: homeStats.crosses || 0,
             awayValue: awayStats.crosses || 0,
         });
@@ -423,7 +362,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.long_balls !== undefined) {
         stats.push({
             type: 24,
-            label: 'Lange Bälle',
             homeValue: homeStats.long_balls || 0,
             awayValue: awayStats.long_balls || 0,
         });
@@ -433,7 +371,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.tackles !== undefined) {
         stats.push({
             type: 13,
-            label: 'Tackles',
             homeValue: homeStats.tackles || 0,
             awayValue: awayStats.tackles || 0,
         });
@@ -443,7 +380,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.interceptions !== undefined) {
         stats.push({
             type: 17,
-            label: 'Abfangaktionen',
             homeValue: homeStats.interceptions || 0,
             awayValue: awayStats.interceptions || 0,
         });
@@ -453,7 +389,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.clearances !== undefined) {
         stats.push({
             type: 18,
-            label: 'Klärungsaktionen',
             homeValue: homeStats.clearances || 0,
             awayValue: awayStats.clearances || 0,
         });
@@ -463,7 +398,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.dribble !== undefined) {
         stats.push({
             type: 21,
-            label: 'Dribblings',
             homeValue: homeStats.dribble || 0,
             awayValue: awayStats.dribble || 0,
         });
@@ -473,7 +407,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.dribble_succ !== undefined) {
         stats.push({
             type: 29,
-            label: 'Erfolgreiche Dribblings',
             homeValue: homeStats.dribble_succ || 0,
             awayValue: awayStats.dribble_succ || 0,
         });
@@ -483,7 +416,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.duels !== undefined) {
         stats.push({
             type: 30,
-            label: 'Zweikämpfe',
             homeValue: homeStats.duels || 0,
             awayValue: awayStats.duels || 0,
         });
@@ -493,7 +425,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.duels_won !== undefined) {
         stats.push({
             type: 22,
-            label: 'Zweikämpfe gewonnen',
             homeValue: homeStats.duels_won || 0,
             awayValue: awayStats.duels_won || 0,
         });
@@ -503,7 +434,6 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     if (homeStats.poss_losts !== undefined) {
         stats.push({
             type: 31,
-            label: 'Ballverluste',
             homeValue: homeStats.poss_losts || 0,
             awayValue: awayStats.poss_losts || 0,
         });
@@ -512,7 +442,7 @@ function parseDetailedStats(homeStats: any, awayStats: any): StatRow[] {
     return stats;
 }
 
-async function upsertStats(matchId: string, stats: StatRow[]): Promise<void> {
+async function upsertStats(matchId: string, stats: ParsedStat[]): Promise<void> {
     try {
         const rows = stats.map(stat => ({
             match_id: matchId,
@@ -537,17 +467,20 @@ async function upsertStats(matchId: string, stats: StatRow[]): Promise<void> {
     }
 }
 
-function formatStats(cachedStats: any[]): StatRow[] {
-    return cachedStats.map(stat => {
-        const typeInfo = STAT_TYPE_MAP[stat.stat_type] || { label: `Type ${stat.stat_type}`, labelDe: `Typ ${stat.stat_type}` };
-        return {
-            type: stat.stat_type,
-            label: typeInfo.labelDe,
-            homeValue: stat.home_value,
-            awayValue: stat.away_value,
-            isPercentage: typeInfo.isPercentage,
-        };
-    });
+function localizeStats(stats: ParsedStat[], locale: Locale): StatRow[] {
+    return stats.map(stat => ({
+        ...stat,
+        label: getStatLabel(stat.type, locale) || getUnknownStatLabel(stat.type, locale),
+    }));
+}
+
+function formatStats(cachedStats: any[], locale: Locale): StatRow[] {
+    return localizeStats(cachedStats.map(stat => ({
+        type: stat.stat_type,
+        homeValue: stat.home_value,
+        awayValue: stat.away_value,
+        isPercentage: PERCENTAGE_STAT_TYPES.has(stat.stat_type) || undefined,
+    })), locale);
 }
 
 export const dynamic = 'force-dynamic';
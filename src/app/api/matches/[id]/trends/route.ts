@@ -4,12 +4,9 @@
  * Uses TheSports API /v1/football/match/trend/detail
  */
 
+import { httpStatusForError, theSportsRequest } from '@/services/thesports';
 import { NextRequest, NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
 export interface TrendData {
     minute: number;
     value: number;    // Positive = home team, Negative = away team
@@ -31,19 +28,10 @@ export async function GET(
         const { id: matchId } = await params;
 
         // Fetch trend data from TheSports API
-        const response = await fetch(
-            `${API_URL}/v1/football/match/trend/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${matchId}`
-        );
-        const apiData = await response.json();
-
-        if (apiData.err) {
-            return NextResponse.json({
-                success: false,
-                error: apiData.err,
-            }, { status: 400 });
-        }
-
-        const results = apiData.results || {};
+        const results = await theSportsRequest<{ count?: number; per?: number; data?: number[][] }>(
+            '/v1/football/match/trend/detail',
+            { uuid: matchId }
+        ) || {};
         const halfCount = results.count || 2;
         const halfTime = results.per || 45;
         const rawData = results.data || [];
@@ -97,7 +85,7 @@ export async function GET(
         return NextResponse.json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
-        }, { status: 500 });
+        }, { status: httpStatusForError(error) });
     }
 }
 
@@ -3,14 +3,18 @@
  * Clears all matches for a specific date and re-syncs with fresh data
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
 import { syncDailyMatches } from '@/services/sync-service';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(
-    _request: NextRequest,
+    request: NextRequest,
     { params }: { params: Promise<{ date: string }> }
 ) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const { date } = await params;
 
@@ -2,28 +2,16 @@
  * GET /api/matches/date/[date]
  * Returns matches for a specific date from Supabase
  * SIMPLIFIED: All team/competition names are directly in matches table!
+ * Query: ?tz= IANA timezone for the day boundaries and localTime (default Europe/Berlin)
  */
 
 import { supabase } from '@/lib/supabase';
+import { formatZonedTime, getZonedDayRange, resolveTimeZone } from '@/lib/timezone';
+import { getVisibleCompetitionIds } from '@/services/tracked-competitions';
 import { NextRequest, NextResponse } from 'next/server';
 
-// TOP LEAGUES - Only return matches from these competitions
-const TOP_LEAGUE_IDS = [
-    'jednm9whz0ryox8', // Premier League
-    'l965mkyh32r1ge4', // Championship
-    'gy0or5jhg6qwzv3', // Bundesliga
-    'vl7oqdehlyr510j', // La Liga
-    '4zp5rzghp5q82w1', // Serie A
-    'yl5ergphnzr8k0o', // Ligue 1
-    'vl7oqdeheyr510j', // Eredivisie
-    '9vjxm8ghx2r6odg', // Primeira Liga
-    'z8yomo4h7wq0j6l', // Champions League
-    '56ypq3nh0xmd7oj', // Europa League
-    'p4jwq2gh754m0ve', // Conference League
-];
-
 export async function GET(
-    _request: NextRequest,
+    request: NextRequest,
     { params }: { params: Promise<{ date: string }> }
 ) {
     try {
@@ -37,17 +25,25 @@ export async function GET(
             );
         }
 
-        // Create date range for the given day
-        const startOfDay = new Date(`${date}T00:00:00Z`);
-        const endOfDay = new Date(`${date}T23:59:59Z`);
+        const timeZone = resolveTimeZone(request.nextUrl.searchParams.get('tz'));
+        if (!timeZone) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid tz. Use an IANA timezone like Europe/Berlin' },
+                { status: 400 }
+            );
+        }
+
+        // Create date range for the given day in the requested timezone
+        const { start: startOfDay, end: endOfDay } = getZonedDayRange(date, timeZone);
 
-        // SIMPLE query - filter by TOP_LEAGUE_IDS
+        // SIMPLE query - filter by tracked competitions
+        const competitionIds = await getVisibleCompetitionIds();
         const { data: matches, error: dbError } = await supabase
             .from('matches')
             .select('*')
             .gte('start_time', startOfDay.toISOString())
-            .lte('start_time', endOfDay.toISOString())
-            .in('competition_id', TOP_LEAGUE_IDS)
+            .lt('start_time', endOfDay.toISOString())
+            .in('competition_id', competitionIds)
             .order('start_time', { ascending: true });
 
         if (dbError) {
@@ -56,6 +52,7 @@ export async function GET(
                 success: true,
                 data: [],
                 date,
+                timezone: timeZone,
                 count: 0,
             });
         }
@@ -81,7 +78,10 @@ export async function GET(
             },
             status: m.status,
             minute: m.minute,
+            minuteDisplay: m.minute_display || null,
+            period: m.period || null,
             startTime: m.start_time,
+            localTime: formatZonedTime(new Date(m.start_time), timeZone),
             competition: {
                 id: m.competition_id || '',
                 name: m.competition_name || 'Unknown',
@@ -98,6 +98,7 @@ export async function GET(
             success: true,
             data: formattedMatches,
             date,
+            timezone: timeZone,
             count: formattedMatches.length,
         });
     } catch (error) {
@@ -2,13 +2,23 @@
  * GET /api/matches/live
  * Returns all currently live matches from Supabase
  * SIMPLIFIED: All team/competition names are directly in matches table!
+ * Query: ?tz= IANA timezone for localTime (default Europe/Berlin)
  */
 
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { formatZonedTime, resolveTimeZone } from '@/lib/timezone';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const timeZone = resolveTimeZone(request.nextUrl.searchParams.get('tz'));
+        if (!timeZone) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid tz. Use an IANA timezone like Europe/Berlin' },
+                { status: 400 }
+            );
+        }
+
         // SIMPLE query - no JOINs needed!
         const { data: matches, error: dbError } = await supabase
             .from('matches')
@@ -21,6 +31,7 @@ export async function GET() {
             return NextResponse.json({
                 success: true,
                 data: [],
+                timezone: timeZone,
                 count: 0,
             });
         }
@@ -46,7 +57,10 @@ export async function GET() {
             },
             status: m.status,
             minute: m.minute,
+            minuteDisplay: m.minute_display || null,
+            period: m.period || null,
             startTime: m.start_time,
+            localTime: formatZonedTime(new Date(m.start_time), timeZone),
             competition: {
                 id: m.competition_id || '',
                 name: m.competition_name || 'Unknown',
@@ -61,6 +75,7 @@ export async function GET() {
         return NextResponse.json({
             success: true,
             data: formattedMatches,
+            timezone: timeZone,
             count: formattedMatches.length,
         });
     } catch (error) {
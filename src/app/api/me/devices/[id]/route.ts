@@ -0,0 +1,47 @@
+/**
+ * DELETE /api/me/devices/[id]
+ * Unregister a push device of the authenticated user
+ */
+
+import { removeDevice } from '@/services/notifications';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        if (!UUID_PATTERN.test(id) || !(await removeDevice(user.id, id))) {
+            return NextResponse.json(
+                { success: false, error: 'Device not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { id },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error removing device:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,136 @@
+/**
+ * GET  /api/me/devices
+ * Push devices of the authenticated user
+ *
+ * POST /api/me/devices
+ * Register a device for push notifications
+ * Body: { platform: 'android' | 'ios' | 'web', token, webPushKeys?: { p256dh, auth }, locale? }
+ * token is the FCM/APNs token (APNs: hex), or the subscription endpoint for web
+ * (then webPushKeys is required and the endpoint must be on a known push service)
+ * locale defaults to ?lang= / Accept-Language
+ * 409 when the token is registered to another user (a web subscription moves
+ * only with matching keys)
+ */
+
+import { isLocale, resolveLocale } from '@/lib/i18n';
+import { DbNotificationDevice } from '@/lib/supabase';
+import { isPushPlatform, listDevices, registerDevice } from '@/services/notifications';
+import { checkWebPushEndpoint, isApnsToken } from '@/services/push-providers';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+const MAX_TOKEN_LENGTH = 4096;
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+    );
+}
+
+function formatDevice(device: DbNotificationDevice) {
+    return {
+        id: device.id,
+        platform: device.platform,
+        locale: device.locale,
+        createdAt: device.created_at,
+        updatedAt: device.updated_at,
+    };
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const devices = await listDevices(user.id);
+
+        return NextResponse.json({
+            success: true,
+            data: devices.map(formatDevice),
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error listing devices:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const body = await request.json();
+        const { platform, token, webPushKeys, locale } = body;
+
+        if (!isPushPlatform(platform)) {
+            return NextResponse.json(
+                { success: false, error: 'platform must be one of android, ios, web' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof token !== 'string' || !token || token.length > MAX_TOKEN_LENGTH) {
+            return NextResponse.json(
+                { success: false, error: 'token is required' },
+                { status: 400 }
+            );
+        }
+
+        if (platform === 'ios' && !isApnsToken(token)) {
+            return NextResponse.json(
+                { success: false, error: 'iOS devices need the hex APNs device token as token' },
+                { status: 400 }
+            );
+        }
+
+        if (platform === 'web') {
+            if (typeof webPushKeys?.p256dh !== 'string' || typeof webPushKeys?.auth !== 'string') {
+                return NextResponse.json(
+                    { success: false, error: 'Web devices need the subscription endpoint as token and webPushKeys { p256dh, auth }' },
+                    { status: 400 }
+                );
+            }
+
+            const rejected = await checkWebPushEndpoint(token);
+            if (rejected) {
+                return NextResponse.json(
+                    { success: false, error: rejected },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const device = await registerDevice(user.id, {
+            platform,
+            token,
+            webPushKeys: platform === 'web' ? { p256dh: webPushKeys.p256dh, auth: webPushKeys.auth } : null,
+            locale: isLocale(locale) ? locale : resolveLocale(request),
+        });
+
+        if (!device) {
+            return NextResponse.json(
+                { success: false, error: 'Device is registered to another user' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: formatDevice(device),
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error registering device:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
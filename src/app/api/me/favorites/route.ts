@@ -0,0 +1,111 @@
+/**
+ * GET    /api/me/favorites
+ * Favorite teams, competitions and matches of the authenticated user
+ *
+ * POST   /api/me/favorites      Body: { type: 'team' | 'competition' | 'match', id }
+ * DELETE /api/me/favorites?type=&id=
+ */
+
+import { addFavorite, isFavoriteTarget, listFavorites, removeFavorite } from '@/services/favorites';
+import { isValidEntityId } from '@/services/teams';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+function invalidTarget() {
+    return NextResponse.json(
+        { success: false, error: 'type must be one of team, competition, match and id a valid ID' },
+        { status: 400 }
+    );
+}
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+    );
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const favorites = await listFavorites(user.id);
+
+        return NextResponse.json({
+            success: true,
+            data: favorites.map(f => ({
+                type: f.target_type,
+                id: f.target_id,
+                createdAt: f.created_at,
+            })),
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error listing favorites:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const { type, id } = await request.json();
+        if (!isFavoriteTarget(type) || typeof id !== 'string' || !isValidEntityId(id)) {
+            return invalidTarget();
+        }
+
+        await addFavorite(user.id, type, id);
+
+        return NextResponse.json({
+            success: true,
+            data: { type, id },
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error adding favorite:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const type = request.nextUrl.searchParams.get('type');
+        const id = request.nextUrl.searchParams.get('id') || '';
+        if (!isFavoriteTarget(type) || !isValidEntityId(id)) {
+            return invalidTarget();
+        }
+
+        if (!(await removeFavorite(user.id, type, id))) {
+            return NextResponse.json(
+                { success: false, error: 'Favorite not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { type, id },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error removing favorite:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
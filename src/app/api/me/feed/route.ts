@@ -0,0 +1,58 @@
+/**
+ * GET /api/me/feed
+ * Matches of a day for the authenticated user: matches involving their
+ * favorite teams, competitions or matches first, then the other visible
+ * competitions - both grouped by competition in priority order
+ * Query: ?date=YYYY-MM-DD (default today), ?tz= IANA timezone (default Europe/Berlin)
+ */
+
+import { resolveTimeZone, toZonedDateKey } from '@/lib/timezone';
+import { getPersonalFeed } from '@/services/favorites';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) {
+            return NextResponse.json(
+                { success: false, error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const timeZone = resolveTimeZone(request.nextUrl.searchParams.get('tz'));
+        if (!timeZone) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid tz. Use an IANA timezone like Europe/Berlin' },
+                { status: 400 }
+            );
+        }
+
+        const date = request.nextUrl.searchParams.get('date') || toZonedDateKey(new Date(), timeZone);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+                { status: 400 }
+            );
+        }
+
+        const feed = await getPersonalFeed(user.id, date, timeZone);
+
+        return NextResponse.json({
+            success: true,
+            data: feed,
+            date,
+            timezone: timeZone,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error building feed:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,73 @@
+/**
+ * GET /api/me/notification-preferences
+ * Event types the authenticated user gets notifications for
+ *
+ * PUT /api/me/notification-preferences
+ * Body: { events: ['goal', 'red_card', 'kick_off', 'half_time', 'full_time', 'lineups'] }
+ * Goal corrections (VAR) always follow a goal alert and can't be turned off separately
+ */
+
+import { getPreferences, isNotificationEvent, NOTIFICATION_EVENTS, setPreferences } from '@/services/notifications';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+    );
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                events: await getPreferences(user.id),
+                available: NOTIFICATION_EVENTS,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error reading preferences:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const { events } = await request.json();
+        if (!Array.isArray(events) || !events.every(isNotificationEvent)) {
+            return NextResponse.json(
+                { success: false, error: `events must be a list of ${NOTIFICATION_EVENTS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                events: await setPreferences(user.id, events),
+                available: NOTIFICATION_EVENTS,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error saving preferences:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
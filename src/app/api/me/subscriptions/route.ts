@@ -0,0 +1,111 @@
+/**
+ * GET    /api/me/subscriptions
+ * Teams, matches and competitions the authenticated user gets notifications for
+ *
+ * POST   /api/me/subscriptions      Body: { type: 'team' | 'match' | 'competition', id }
+ * DELETE /api/me/subscriptions?type=&id=
+ */
+
+import { addSubscription, isSubscriptionTarget, listSubscriptions, removeSubscription } from '@/services/notifications';
+import { isValidEntityId } from '@/services/teams';
+import { authenticateUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+function invalidTarget() {
+    return NextResponse.json(
+        { success: false, error: 'type must be one of team, match, competition and id a valid ID' },
+        { status: 400 }
+    );
+}
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+    );
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const subscriptions = await listSubscriptions(user.id);
+
+        return NextResponse.json({
+            success: true,
+            data: subscriptions.map(s => ({
+                type: s.target_type,
+                id: s.target_id,
+                createdAt: s.created_at,
+            })),
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error listing subscriptions:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const { type, id } = await request.json();
+        if (!isSubscriptionTarget(type) || typeof id !== 'string' || !isValidEntityId(id)) {
+            return invalidTarget();
+        }
+
+        await addSubscription(user.id, type, id);
+
+        return NextResponse.json({
+            success: true,
+            data: { type, id },
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error adding subscription:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await authenticateUser(request);
+        if (!user) return unauthorized();
+
+        const type = request.nextUrl.searchParams.get('type');
+        const id = request.nextUrl.searchParams.get('id') || '';
+        if (!isSubscriptionTarget(type) || !isValidEntityId(id)) {
+            return invalidTarget();
+        }
+
+        if (!(await removeSubscription(user.id, type, id))) {
+            return NextResponse.json(
+                { success: false, error: 'Subscription not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { type, id },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error removing subscription:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,51 @@
+/**
+ * GET /api/players/[id]/matches
+ * Matches a player appeared in (newest first) with minutes, goals, assists, cards and rating
+ * Query: ?page=1, ?limit=20 (max 100)
+ */
+
+import { getPlayerMatches } from '@/services/players';
+import { isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: playerId } = await params;
+        const { searchParams } = request.nextUrl;
+
+        if (!isValidEntityId(playerId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid player ID' },
+                { status: 400 }
+            );
+        }
+
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+        const { matches, total } = await getPlayerMatches(playerId, { page, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: matches,
+            pagination: {
+                page,
+                limit,
+                total,
+                hasMore: page * limit < total,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching player matches:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
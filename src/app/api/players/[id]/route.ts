@@ -0,0 +1,63 @@
+/**
+ * GET /api/players/[id]
+ * Player profile from the players table (filled by admin/sync-players)
+ * plus season statistics per competition, aggregated from match_events and match_lineups
+ */
+
+import { getPlayer, getPlayerSeasonStats } from '@/services/players';
+import { isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: playerId } = await params;
+
+        if (!isValidEntityId(playerId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid player ID' },
+                { status: 400 }
+            );
+        }
+
+        const [player, seasons] = await Promise.all([
+            getPlayer(playerId),
+            getPlayerSeasonStats(playerId),
+        ]);
+
+        if (!player) {
+            return NextResponse.json(
+                { success: false, error: `Player ${playerId} not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                id: player.id,
+                name: player.name,
+                shortName: player.short_name || player.name,
+                photo: player.photo || '',
+                number: player.jersey_number,
+                position: player.position || '',
+                nationality: player.nationality || '',
+                birthDate: player.birth_date,
+                marketValue: player.market_value,
+                team: player.team,
+                seasons,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching player:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,53 @@
+/**
+ * GET /api/search?q=
+ * Accent- and typo-tolerant search across teams, competitions, players and countries
+ * Query: ?q= (min 2 chars), ?types=team,competition,player,country, ?limit=20 (max 50)
+ * Results are one ranked list with type, logo and subtitle (country or team)
+ */
+
+import { search, SEARCH_TYPES, SearchType } from '@/services/search';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = request.nextUrl;
+        const query = (searchParams.get('q') || '').trim();
+
+        if (query.length < 2 || query.length > 100) {
+            return NextResponse.json(
+                { success: false, error: 'q must be between 2 and 100 characters' },
+                { status: 400 }
+            );
+        }
+
+        const typesParam = searchParams.get('types');
+        const types = typesParam
+            ? typesParam.split(',').map(t => t.trim()).filter(Boolean) as SearchType[]
+            : undefined;
+        if (types?.some(t => !SEARCH_TYPES.includes(t))) {
+            return NextResponse.json(
+                { success: false, error: `types must be a list of ${SEARCH_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+        const result = await search(query, { types, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: result.results,
+            query: result.query,
+            count: result.results.length,
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error searching:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+/**
+ * GET /api/stream/live
+ * Server-Sent Events stream of score, status, minute, incident, stat and live table deltas
+ * for all matches, pushed as soon as the MQTT handlers process them
+ *
+ * Events: snapshot (on connect), match, incidents, stats, reset
+ * Resume with the Last-Event-ID header (or ?lastEventId=)
+ */
+
+import { createLiveStreamResponse } from '@/services/live-stream';
+import { NextRequest } from 'next/server';
+
+export async function GET(request: NextRequest) {
+    return createLiveStreamResponse(request, null);
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,20 @@
+/**
+ * GET /api/stream/matches/[id]
+ * Server-Sent Events stream of deltas for a single match
+ *
+ * Events: snapshot (on connect), match, incidents, stats, reset
+ * Resume with the Last-Event-ID header (or ?lastEventId=)
+ */
+
+import { createLiveStreamResponse } from '@/services/live-stream';
+import { NextRequest } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    return createLiveStreamResponse(request, id);
+}
+
+export const dynamic = 'force-dynamic';
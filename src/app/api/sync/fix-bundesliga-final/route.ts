@@ -3,8 +3,9 @@
  * Corrects all 18 Bundesliga team names in Supabase once and for all.
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 const BUNDESLIGA_FIXES = [
     { id: 'yl5ergphjy2r8k0', name: 'FC Bayern Munich' },
@@ -27,7 +28,10 @@ const BUNDESLIGA_FIXES = [
     { id: 'jednm9whl2kryox', name: '1. FSV Mainz 05' },
 ];
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const logs: string[] = [];
         let updated = 0;
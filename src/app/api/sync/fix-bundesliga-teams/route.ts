@@ -4,8 +4,9 @@
  * Uses the correct team_id to name mapping from TheSports standings
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Correct Bundesliga 2024/25 team mappings (from standings debug data)
 const BUNDESLIGA_CORRECT_TEAMS: { id: string; name: string; position: number }[] = [
@@ -29,7 +30,10 @@ const BUNDESLIGA_CORRECT_TEAMS: { id: string; name: string; position: number }[]
     { id: 'jednm9whl2kryox', name: '1. FSV Mainz 05', position: 18 },
 ];
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const logs: string[] = [];
         let fixed = 0;
@@ -4,8 +4,9 @@
  * and updates a mapping table
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Team names that we need logos for (from Bundesliga 2024/25)
 const BUNDESLIGA_TEAMS = [
@@ -29,7 +30,10 @@ const BUNDESLIGA_TEAMS = [
     '1. FSV Mainz 05',
 ];
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const results: any[] = [];
 
@@ -4,19 +4,22 @@
  * This API returns all teams with their correct IDs, names, and logos
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
+import { theSportsRequestRaw } from '@/services/thesports';
 import { NextResponse } from 'next/server';
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+interface ApiTeam {
+    id: string;
+    name?: string;
+    short_name?: string;
+    logo?: string;
+}
 
 // Fetch teams from TheSports API with pagination
-async function fetchTeamsPage(page: number): Promise<any[]> {
+async function fetchTeamsPage(page: number): Promise<ApiTeam[]> {
     try {
-        const url = `${API_URL}/v1/football/team/additional/list?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-        const response = await fetch(url);
-        const data = await response.json();
+        const data = await theSportsRequestRaw<ApiTeam[]>('/v1/football/team/additional/list', { page });
 
         if (data.code === 0 && data.results) {
             return data.results;
@@ -29,6 +32,9 @@ async function fetchTeamsPage(page: number): Promise<any[]> {
 }
 
 export async function POST(request: Request) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const { searchParams } = new URL(request.url);
         const pages = parseInt(searchParams.get('pages') || '5'); // Default 5 pages = 5000 teams
@@ -48,7 +54,7 @@ export async function POST(request: Request) {
             }
 
             // Map to our format
-            const mappedTeams = teamsFromApi.map((t: any) => ({
+            const mappedTeams = teamsFromApi.map(t => ({
                 id: t.id,
                 name: t.name || t.short_name || 'Unknown',
                 logo: t.logo || '',
@@ -8,12 +8,10 @@
  * 3. Clear existing data and insert fresh records
  */
 
+import { requireRole } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { theSportsRequestRaw } from '@/services/thesports';
+import { NextRequest, NextResponse } from 'next/server';
 
 // Season IDs for top leagues
 const SEASON_IDS = {
@@ -23,9 +21,7 @@ const SEASON_IDS = {
 
 async function fetchTeamDetails(teamId: string): Promise<{ id: string; name: string; logo: string } | null> {
     try {
-        const url = `${API_URL}/v1/football/team/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${teamId}`;
-        const response = await fetch(url);
-        const data = await response.json();
+        const data = await theSportsRequestRaw<{ name?: string; short_name?: string; logo?: string }>('/v1/football/team/detail', { uuid: teamId });
 
         if (data.results) {
             return {
@@ -42,20 +38,21 @@ async function fetchTeamDetails(teamId: string): Promise<{ id: string; name: str
 
 async function fetchStandingsTeamIds(seasonId: string): Promise<string[]> {
     try {
-        const url = `${API_URL}/v1/football/season/recent/table/detail?user=${USERNAME}&secret=${API_KEY}&uuid=${seasonId}`;
-        const response = await fetch(url);
-        const data = await response.json();
+        const data = await theSportsRequestRaw<{ tables?: Array<{ rows?: Array<{ team_id: string }> }> }>('/v1/football/season/recent/table/detail', { uuid: seasonId });
 
         const tables = data.results?.tables || [];
         const rows = tables[0]?.rows || [];
 
-        return rows.map((row: any) => row.team_id as string);
+        return rows.map(row => row.team_id);
     } catch {
         return [];
     }
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(request, 'admin');
+    if (denied) return denied;
+
     try {
         const logs: string[] = [];
         const teamsToInsert: { id: string; name: string; logo: string }[] = [];
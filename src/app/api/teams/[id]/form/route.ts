@@ -0,0 +1,47 @@
+/**
+ * GET /api/teams/[id]/form
+ * Last N results of a team (default 5, max 50) with W/D/L string
+ * The form string is oldest first, matches are newest first
+ */
+
+import { getTeamForm, isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: teamId } = await params;
+
+        if (!isValidEntityId(teamId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid team ID' },
+                { status: 400 }
+            );
+        }
+
+        const limit = Math.min(50, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '5', 10) || 5));
+        const { form, matches } = await getTeamForm(teamId, limit);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                form,
+                wins: matches.filter(m => m.result === 'W').length,
+                draws: matches.filter(m => m.result === 'D').length,
+                losses: matches.filter(m => m.result === 'L').length,
+                matches,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching team form:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
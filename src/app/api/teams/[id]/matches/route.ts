@@ -0,0 +1,60 @@
+/**
+ * GET /api/teams/[id]/matches
+ * Past and upcoming matches of a team across all tracked competitions
+ * Query: ?type=past|upcoming|all (default all), ?page=1, ?limit=20 (max 100)
+ */
+
+import { formatMatchRow, getTeamMatches, isValidEntityId, MatchScope } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+const SCOPES: MatchScope[] = ['past', 'upcoming', 'all'];
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: teamId } = await params;
+        const { searchParams } = request.nextUrl;
+
+        if (!isValidEntityId(teamId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid team ID' },
+                { status: 400 }
+            );
+        }
+
+        const scope = (searchParams.get('type') || 'all') as MatchScope;
+        if (!SCOPES.includes(scope)) {
+            return NextResponse.json(
+                { success: false, error: 'type must be past, upcoming or all' },
+                { status: 400 }
+            );
+        }
+
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+        const { matches, total } = await getTeamMatches(teamId, { scope, page, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: matches.map(formatMatchRow),
+            pagination: {
+                page,
+                limit,
+                total,
+                hasMore: page * limit < total,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching team matches:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,60 @@
+/**
+ * GET /api/teams/[id]
+ * Team profile from the teams table (logo, country, founded, venue)
+ * plus the current form across tracked competitions
+ */
+
+import { getTeam, getTeamForm, isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: teamId } = await params;
+
+        if (!isValidEntityId(teamId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid team ID' },
+                { status: 400 }
+            );
+        }
+
+        const [team, form] = await Promise.all([
+            getTeam(teamId),
+            getTeamForm(teamId, 5),
+        ]);
+
+        if (!team) {
+            return NextResponse.json(
+                { success: false, error: `Team ${teamId} not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                id: team.id,
+                name: team.name,
+                shortName: team.short_name || team.name,
+                logo: team.logo || '',
+                country: team.country || '',
+                countryId: team.country_id || '',
+                founded: team.founded,
+                venue: team.venue || '',
+                form: form.form,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching team:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,85 @@
+/**
+ * GET /api/teams/[id]/squad
+ * Squad of a team from the players table (filled by admin/sync-players),
+ * grouped by position
+ * Position labels follow ?lang= / Accept-Language (de, en)
+ */
+
+import { getPositionLabel, resolveLocale } from '@/lib/i18n';
+import { getTeamSquad, isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+const POSITION_ORDER = ['G', 'D', 'M', 'F'];
+
+function calculateAge(birthDate: string | null): number | null {
+    if (!birthDate) return null;
+    const birth = new Date(birthDate);
+    if (isNaN(birth.getTime())) return null;
+
+    const now = new Date();
+    let age = now.getFullYear() - birth.getFullYear();
+    const hadBirthday = now.getMonth() > birth.getMonth()
+        || (now.getMonth() === birth.getMonth() && now.getDate() >= birth.getDate());
+    if (!hadBirthday) age--;
+    return age;
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: teamId } = await params;
+
+        if (!isValidEntityId(teamId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid team ID' },
+                { status: 400 }
+            );
+        }
+
+        const locale = resolveLocale(request);
+        const players = await getTeamSquad(teamId);
+
+        const formatted = players.map(p => ({
+            id: p.id,
+            name: p.name,
+            shortName: p.short_name || p.name,
+            photo: p.photo || '',
+            number: p.jersey_number,
+            position: p.position || '',
+            positionLabel: getPositionLabel(p.position, locale),
+            nationality: p.nationality || '',
+            birthDate: p.birth_date,
+            age: calculateAge(p.birth_date),
+            marketValue: p.market_value,
+        }));
+
+        // Group by position (unknown positions last)
+        const groups = [...POSITION_ORDER, ''].map(position => ({
+            position,
+            label: position ? getPositionLabel(position, locale) : '',
+            players: formatted.filter(p => position
+                ? p.position === position
+                : !POSITION_ORDER.includes(p.position)),
+        })).filter(g => g.players.length > 0);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                teamId,
+                count: formatted.length,
+                groups,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching squad:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
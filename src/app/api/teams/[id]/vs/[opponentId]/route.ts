@@ -0,0 +1,56 @@
+/**
+ * GET /api/teams/[a]/vs/[b]
+ * Head-to-head record of two teams from team a's perspective
+ * (last meeting at the same venue = team a at home)
+ * Query: ?limit=10 (max 50) number of meetings returned
+ */
+
+import { getHeadToHead } from '@/services/head-to-head';
+import { isValidEntityId } from '@/services/teams';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; opponentId: string }> }
+) {
+    try {
+        const { id: teamA, opponentId: teamB } = await params;
+
+        if (!isValidEntityId(teamA) || !isValidEntityId(teamB) || teamA === teamB) {
+            return NextResponse.json(
+                { success: false, error: 'Two different valid team IDs are required' },
+                { status: 400 }
+            );
+        }
+
+        const limit = Math.min(50, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '10', 10) || 10));
+        const h2h = await getHeadToHead(teamA, teamB, { venueTeamId: teamA });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                teamId: teamA,
+                opponentId: teamB,
+                summary: {
+                    played: h2h.summary.played,
+                    wins: h2h.summary.teamAWins,
+                    draws: h2h.summary.draws,
+                    losses: h2h.summary.teamBWins,
+                    goalsFor: h2h.summary.teamAGoals,
+                    goalsAgainst: h2h.summary.teamBGoals,
+                },
+                meetings: h2h.meetings.slice(0, limit),
+                lastMeetingAtVenue: h2h.lastMeetingAtVenue,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error('Error fetching head-to-head:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
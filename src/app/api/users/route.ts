@@ -0,0 +1,48 @@
+/**
+ * POST /api/users
+ * Create an app user and return its API key (shown only once)
+ * The key identifies the user on /api/me/* routes:
+ * Authorization: Bearer <apiKey> or X-API-Key: <apiKey>
+ *
+ * Deliberately open - apps create their user on first launch, before they hold
+ * any credential. Rate-limited per client IP (USER_SIGNUP_RATE_LIMIT per hour,
+ * default 5); 429 with Retry-After beyond that.
+ */
+
+import { createRateLimiter, getClientIp } from '@/lib/rate-limit';
+import { createUser } from '@/services/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+const SIGNUP_WINDOW_MS = 60 * 60 * 1000;
+const signupLimiter = createRateLimiter(parseInt(process.env.USER_SIGNUP_RATE_LIMIT || '5', 10), SIGNUP_WINDOW_MS);
+
+export async function POST(request: NextRequest) {
+    const limit = signupLimiter.check(getClientIp(request));
+    if (!limit.allowed) {
+        return NextResponse.json(
+            { success: false, error: 'Too many users created from this address, try again later' },
+            { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+        );
+    }
+
+    try {
+        const { user, apiKey } = await createUser();
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                userId: user.id,
+                apiKey,
+            },
+            timestamp: new Date().toISOString(),
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating user:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
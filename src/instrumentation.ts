@@ -6,6 +6,10 @@
 export async function register() {
     // Only run on server, not during build
     if (process.env.NEXT_RUNTIME === 'nodejs') {
+        // Side effects of match events (standings at full time, SSE, audit log)
+        const { registerDomainEventSubscribers } = await import('./services/domain-event-subscribers');
+        registerDomainEventSubscribers();
+
         // Start cron jobs for periodic sync
         const { startCronJobs } = await import('./services/cron-scheduler');
         startCronJobs();
@@ -15,6 +19,10 @@ export async function register() {
         connectMqtt().catch(err => {
             console.error('[Instrumentation] MQTT connection failed:', err);
         });
+
+        // Advance live minutes between MQTT messages
+        const { startClockTicker } = await import('./services/match-clock');
+        startClockTicker();
     }
 }
 
@@ -0,0 +1,121 @@
+/**
+ * Route Auth Guard
+ * Admin, sync, cron and debug routes require a service credential with a role:
+ *
+ * - admin: every protected route (score fixes, syncs, cache resets, ...)
+ * - cron:  /api/cron/* (the internal cron scheduler)
+ * - read:  read-only debug GETs and the admin competition list (e.g. dashboards)
+ *
+ * Credentials are sent as Authorization: Bearer <credential> or X-API-Key and
+ * are either an API key from the service_keys table (issued via
+ * /api/admin/service-keys, only its SHA-256 hash is stored) or an HS256
+ * token signed with SERVICE_JWT_SECRET carrying a role claim. Without a
+ * secret and without keys every protected route answers 401.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { JwtClaims, signJwt, verifyJwt } from '@/lib/jwt';
+import { supabase } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+
+export const SERVICE_ROLES = ['admin', 'cron', 'read'] as const;
+export type ServiceRole = typeof SERVICE_ROLES[number];
+
+const SERVICE_KEY_PREFIX = 'lss_';
+const SERVICE_JWT_SECRET = process.env.SERVICE_JWT_SECRET || '';
+const SERVICE_TOKEN_TTL_SECONDS = 5 * 60;
+
+export function isServiceRole(value: unknown): value is ServiceRole {
+    return typeof value === 'string' && (SERVICE_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * API key or token sent with a request (Bearer token or X-API-Key header)
+ */
+export function getRequestCredential(request: Request): string | null {
+    const authorization = request.headers.get('authorization');
+    if (authorization?.toLowerCase().startsWith('bearer ')) {
+        return authorization.slice(7).trim() || null;
+    }
+    return request.headers.get('x-api-key')?.trim() || null;
+}
+
+export function generateServiceKey(): string {
+    return `${SERVICE_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+export function hashServiceKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Short-lived role token - null when SERVICE_JWT_SECRET is not configured
+ */
+export function signServiceToken(role: ServiceRole, ttlSeconds = SERVICE_TOKEN_TTL_SECONDS): string | null {
+    if (!SERVICE_JWT_SECRET) return null;
+
+    const claims: JwtClaims = { role, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+    return signJwt(claims, SERVICE_JWT_SECRET);
+}
+
+/**
+ * Role of the credential sent with a request, null when missing or invalid
+ */
+export async function authenticateService(request: Request): Promise<ServiceRole | null> {
+    const credential = getRequestCredential(request);
+    if (!credential) return null;
+
+    if (!credential.startsWith(SERVICE_KEY_PREFIX)) {
+        const role = verifyJwt(credential, SERVICE_JWT_SECRET)?.role;
+        return isServiceRole(role) ? role : null;
+    }
+
+    const { data, error } = await supabase
+        .from('service_keys')
+        .select('role')
+        .eq('key_hash', hashServiceKey(credential))
+        .is('revoked_at', null)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to authenticate service key: ${error.message}`);
+    }
+    return isServiceRole(data?.role) ? data.role : null;
+}
+
+/**
+ * Guard for protected routes - null when the request may proceed,
+ * otherwise the 401/403 response to return. admin passes every guard.
+ *
+ *     const denied = await requireRole(request, 'cron');
+ *     if (denied) return denied;
+ */
+export async function requireRole(request: Request, ...roles: ServiceRole[]): Promise<NextResponse | null> {
+    let role: ServiceRole | null;
+    try {
+        role = await authenticateService(request);
+    } catch (error) {
+        console.error('[Auth] Credential check failed:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+
+    if (!role) {
+        return NextResponse.json(
+            { success: false, error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    if (role !== 'admin' && !roles.includes(role)) {
+        console.warn(`[Auth] ${role} credential denied for ${new URL(request.url).pathname}`);
+        return NextResponse.json(
+            { success: false, error: 'Forbidden' },
+            { status: 403 }
+        );
+    }
+
+    return null;
+}
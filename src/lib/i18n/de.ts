@@ -0,0 +1,113 @@
+/**
+ * German catalog (default locale of the app)
+ */
+
+import type { Messages } from './types';
+
+export const de: Messages = {
+    unknown: 'Unbekannt',
+    unknownStatType: 'Typ {type}',
+    stats: {
+        1: 'Ballbesitz',
+        2: 'Schüsse',
+        3: 'Schüsse aufs Tor',
+        4: 'Fouls',
+        5: 'Eckstöße',
+        6: 'Abseits',
+        7: 'Gelbe Karten',
+        8: 'Rote Karten',
+        9: 'Freistöße',
+        10: 'Paraden',
+        11: 'Pässe',
+        12: 'Passgenauigkeit',
+        13: 'Tackles',
+        14: 'Angriffe',
+        15: 'Gefährliche Angriffe',
+        16: 'Flanken',
+        17: 'Abfangaktionen',
+        18: 'Klärungsaktionen',
+        19: 'Geblockte Schüsse',
+        20: 'Großchancen',
+        21: 'Dribblings',
+        22: 'Zweikämpfe gewonnen',
+        23: 'Luftduelle gewonnen',
+        24: 'Lange Bälle',
+        25: 'Abstöße',
+        26: 'Einwürfe',
+        27: 'Pfostentreffer',
+        28: 'Schlüsselpässe',
+        29: 'Erfolgreiche Dribblings',
+        30: 'Zweikämpfe',
+        31: 'Ballverluste',
+    },
+    weather: {
+        1: 'Teilweise bewölkt',
+        2: 'Bewölkt',
+        3: 'Teilweise bewölkt/Regen',
+        4: 'Schnee',
+        5: 'Sonnig',
+        6: 'Bedeckt/Gewitter',
+        7: 'Bedeckt',
+        8: 'Nebelig',
+        9: 'Bedeckt mit Regen',
+        10: 'Bewölkt mit Regen',
+        11: 'Bewölkt mit Regen/Gewitter',
+        12: 'Wolken/Regen/Gewitter lokal',
+        13: 'Nebel',
+    },
+    positions: {
+        'G': 'TW',   // Torwart
+        'D': 'ABW',  // Abwehr
+        'M': 'MIT',  // Mittelfeld
+        'F': 'STR',  // Stürmer
+    },
+    promotions: {
+        // Champions League
+        'Champions League league stage': 'CL Ligaphase',
+        'Champions League': 'Champions League',
+        'CL Group': 'CL Gruppenphase',
+        'CL league stage': 'CL Ligaphase',
+        // Europa League
+        'Europa League league stage': 'EL Ligaphase',
+        'Europa League': 'Europa League',
+        'EL Group': 'EL Gruppenphase',
+        'EL league stage': 'EL Ligaphase',
+        // Conference League - keep specific names
+        'UEFA ECL Qualification': 'Conference League Quali',
+        'UEFA ECL Playoffs': 'Conference League Playoffs',
+        'UEFA ECL qualifying playoffs': 'Conference League Quali-Playoffs',
+        'Conference League': 'Conference League',
+        'ECL Qualification': 'Conference League Quali',
+        'ECL qualifying playoffs': 'ECL Quali-Playoffs',
+        'ECL Playoffs': 'ECL Playoffs',
+        // Relegation - keep specific
+        'Relegation Playoffs': 'Relegation',
+        'Relegation playoffs': 'Relegation',
+        'Relegation Playoff': 'Relegation',
+        // Abstieg
+        'Degrade Team': 'Abstieg',
+        'Relegation': 'Abstieg',
+        'Relegated': 'Abstieg',
+        // Aufstieg
+        'Promoted': 'Aufstieg',
+        'Promotion': 'Aufstieg',
+        'Direct Promotion': 'Direkter Aufstieg',
+        // Playoffs
+        'Promotion Playoffs': 'Aufstiegs-Playoffs',
+        'Promotion playoffs': 'Aufstiegs-Playoffs',
+        'Promotion Playoff': 'Aufstiegs-Playoff',
+        // UEFA Wettbewerbe Runden
+        'Round of 16': 'Achtelfinale',
+        'Knockout stage playoffs': 'K.o.-Playoffs',
+        'Eliminated': 'Ausgeschieden',
+    },
+    notifications: {
+        goal: { title: 'Tor! {home} {score} {away}', body: "{minute}' {player} ({team})" },
+        goalCancelled: { title: 'Tor aberkannt: {home} {score} {away}', body: "VAR: Das Tor von {player} ({minute}') zählt nicht" },
+        redCard: { title: 'Rote Karte für {team}', body: "{minute}' {player} · {home} {score} {away}" },
+        kickOff: { title: 'Anpfiff: {home} - {away}', body: '{competition}' },
+        halfTime: { title: 'Halbzeit: {home} {score} {away}', body: '{competition}' },
+        fullTime: { title: 'Abpfiff: {home} {score} {away}', body: '{competition}' },
+        lineups: { title: 'Aufstellungen: {home} - {away}', body: 'Die Aufstellungen sind da' },
+    },
+};
@@ -0,0 +1,102 @@
+/**
+ * English catalog
+ * Promotion names not listed here are shown as sent by TheSports
+ */
+
+import type { Messages } from './types';
+
+export const en: Messages = {
+    unknown: 'Unknown',
+    unknownStatType: 'Type {type}',
+    stats: {
+        1: 'Possession',
+        2: 'Shots',
+        3: 'Shots on Target',
+        4: 'Fouls',
+        5: 'Corner Kicks',
+        6: 'Offsides',
+        7: 'Yellow Cards',
+        8: 'Red Cards',
+        9: 'Free Kicks',
+        10: 'Saves',
+        11: 'Passes',
+        12: 'Pass Accuracy',
+        13: 'Tackles',
+        14: 'Attacks',
+        15: 'Dangerous Attacks',
+        16: 'Crosses',
+        17: 'Interceptions',
+        18: 'Clearances',
+        19: 'Blocked Shots',
+        20: 'Big Chances',
+        21: 'Dribbles',
+        22: 'Duels Won',
+        23: 'Aerials Won',
+        24: 'Long Balls',
+        25: 'Goal Kicks',
+        26: 'Throw-ins',
+        27: 'Hit Woodwork',
+        28: 'Key Passes',
+        29: 'Dribbles Successful',
+        30: 'Duels',
+        31: 'Possession Lost',
+    },
+    weather: {
+        1: 'Partly cloudy',
+        2: 'Cloudy',
+        3: 'Partly cloudy/Rain',
+        4: 'Snow',
+        5: 'Sunny',
+        6: 'Overcast/Thunderstorm',
+        7: 'Overcast',
+        8: 'Misty',
+        9: 'Overcast with rain',
+        10: 'Cloudy with rain',
+        11: 'Cloudy with rain/Thunderstorm',
+        12: 'Clouds/Rain/Local thunderstorms',
+        13: 'Fog',
+    },
+    positions: {
+        'G': 'GK',
+        'D': 'DEF',
+        'M': 'MID',
+        'F': 'FWD',
+    },
+    promotions: {
+        // Champions League
+        'Champions League league stage': 'CL League Phase',
+        'CL Group': 'CL Group Stage',
+        'CL league stage': 'CL League Phase',
+        // Europa League
+        'Europa League league stage': 'EL League Phase',
+        'EL Group': 'EL Group Stage',
+        'EL league stage': 'EL League Phase',
+        // Conference League
+        'UEFA ECL Qualification': 'Conference League Qualification',
+        'UEFA ECL Playoffs': 'Conference League Playoffs',
+        'UEFA ECL qualifying playoffs': 'Conference League Qualifying Playoffs',
+        'ECL Qualification': 'Conference League Qualification',
+        'ECL qualifying playoffs': 'ECL Qualifying Playoffs',
+        // Relegation
+        'Relegation Playoffs': 'Relegation Playoffs',
+        'Relegation playoffs': 'Relegation Playoffs',
+        'Relegation Playoff': 'Relegation Playoffs',
+        'Degrade Team': 'Relegation',
+        'Relegated': 'Relegation',
+        // Promotion
+        'Promoted': 'Promotion',
+        'Direct Promotion': 'Direct Promotion',
+        'Promotion playoffs': 'Promotion Playoffs',
+        'Promotion Playoff': 'Promotion Playoffs',
+        'Knockout stage playoffs': 'Knockout Playoffs',
+    },
+    notifications: {
+        goal: { title: 'Goal! {home} {score} {away}', body: "{minute}' {player} ({team})" },
+        goalCancelled: { title: 'Goal disallowed: {home} {score} {away}', body: "VAR: {player}'s goal ({minute}') does not count" },
+        redCard: { title: 'Red card for {team}', body: "{minute}' {player} · {home} {score} {away}" },
+        kickOff: { title: 'Kick-off: {home} - {away}', body: '{competition}' },
+        halfTime: { title: 'Half-time: {home} {score} {away}', body: '{competition}' },
+        fullTime: { title: 'Full-time: {home} {score} {away}', body: '{competition}' },
+        lineups: { title: 'Lineups: {home} - {away}', body: 'The lineups are in' },
+    },
+};
@@ -0,0 +1,109 @@
+/**
+ * Localization of user-facing labels
+ * Routes resolve the locale from ?lang= or Accept-Language (default de)
+ * and pass it to the label helpers below
+ */
+
+import { de } from './de';
+import { en } from './en';
+import type { Messages, NotificationTextKey } from './types';
+
+export type { Messages, NotificationTextKey } from './types';
+
+export const SUPPORTED_LOCALES = ['de', 'en'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'de';
+
+const CATALOGS: Record<Locale, Messages> = { de, en };
+
+function toLocale(tag: string | null | undefined): Locale | null {
+    // "en-GB" -> "en"
+    const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+    return SUPPORTED_LOCALES.find(l => l === language) || null;
+}
+
+/**
+ * Best supported locale of an Accept-Language header (q-values respected)
+ */
+export function parseAcceptLanguage(header: string | null): Locale | null {
+    if (!header) return null;
+
+    const ranked = header.split(',')
+        .map(part => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+            return { tag, q: q ? parseFloat(q.slice(2)) || 0 : 1 };
+        })
+        .filter(entry => entry.q > 0)
+        .sort((a, b) => b.q - a.q);
+
+    for (const { tag } of ranked) {
+        const locale = toLocale(tag);
+        if (locale) return locale;
+    }
+    return null;
+}
+
+/**
+ * Locale of a request: ?lang= wins over Accept-Language, then the default
+ */
+export function resolveLocale(request: Request): Locale {
+    const lang = new URL(request.url).searchParams.get('lang');
+    return toLocale(lang) || parseAcceptLanguage(request.headers.get('accept-language')) || DEFAULT_LOCALE;
+}
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+    return CATALOGS[locale];
+}
+
+/**
+ * Label of a TheSports stat type, null for types we don't show
+ */
+export function getStatLabel(type: number, locale: Locale = DEFAULT_LOCALE): string | null {
+    return CATALOGS[locale].stats[type] ?? null;
+}
+
+export function getUnknownStatLabel(type: number, locale: Locale = DEFAULT_LOCALE): string {
+    return CATALOGS[locale].unknownStatType.replace('{type}', String(type));
+}
+
+export function getWeatherLabel(code: number, locale: Locale = DEFAULT_LOCALE): string | null {
+    return CATALOGS[locale].weather[code] ?? null;
+}
+
+/**
+ * Short position label (TW/ABW/MIT/STR, GK/DEF/MID/FWD), the raw code if unknown
+ */
+export function getPositionLabel(position: string | null | undefined, locale: Locale = DEFAULT_LOCALE): string {
+    return CATALOGS[locale].positions[position || ''] || position || '';
+}
+
+/**
+ * Zone label for a TheSports promotion name, the name itself if not translated
+ */
+export function getPromotionLabel(promotionName: string, locale: Locale = DEFAULT_LOCALE): string {
+    return CATALOGS[locale].promotions[promotionName] || promotionName;
+}
+
+export function getUnknownLabel(locale: Locale = DEFAULT_LOCALE): string {
+    return CATALOGS[locale].unknown;
+}
+
+/**
+ * Push notification title/body with {placeholders} filled in (missing values -> '')
+ */
+export function formatNotification(
+    key: NotificationTextKey,
+    values: Record<string, string | number | null | undefined>,
+    locale: Locale = DEFAULT_LOCALE
+): { title: string; body: string } {
+    const fill = (template: string) => template
+        .replace(/\{(\w+)\}/g, (_, name: string) => String(values[name] ?? ''))
+        .trim();
+    const text = CATALOGS[locale].notifications[key];
+    return { title: fill(text.title), body: fill(text.body) };
+}
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
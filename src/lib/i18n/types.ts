@@ -0,0 +1,28 @@
+export type NotificationTextKey =
+    | 'goal'
+    | 'goalCancelled'
+    | 'redCard'
+    | 'kickOff'
+    | 'halfTime'
+    | 'fullTime'
+    | 'lineups';
+
+/**
+ * Shape of a message catalog (one per locale in src/lib/i18n)
+ */
+export interface Messages {
+    // Fallback for missing player/team names
+    unknown: string;
+    // Fallback for stat types without a label, {type} is replaced
+    unknownStatType: string;
+    // Team statistics by TheSports stat type
+    stats: Record<number, string>;
+    // TheSports environment.weather codes
+    weather: Record<number, string>;
+    // Short position labels by TheSports position code (G/D/M/F)
+    positions: Record<string, string>;
+    // Standings zones by TheSports promotion name
+    promotions: Record<string, string>;
+    // Push notifications: {home}, {away}, {score}, {team}, {player}, {minute}, {competition}
+    notifications: Record<NotificationTextKey, { title: string; body: string }>;
+}
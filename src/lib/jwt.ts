@@ -0,0 +1,48 @@
+/**
+ * HS256 JSON Web Tokens
+ * Used for user tokens (USER_JWT_SECRET, services/users.ts) and service
+ * role tokens (SERVICE_JWT_SECRET, lib/auth.ts)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type JwtClaims = Record<string, unknown> & { exp?: number };
+
+function encodeJson(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(input: string, secret: string): Buffer {
+    return createHmac('sha256', secret).update(input).digest();
+}
+
+export function signJwt(claims: JwtClaims, secret: string): string {
+    const input = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(claims)}`;
+    return `${input}.${sign(input, secret).toString('base64url')}`;
+}
+
+/**
+ * Claims of a validly signed, unexpired token - null otherwise
+ */
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+    if (!secret) return null;
+
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+
+    try {
+        const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+        if (alg !== 'HS256') return null;
+
+        const expected = sign(`${header}.${payload}`, secret);
+        const actual = Buffer.from(signature, 'base64url');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        if (!claims || typeof claims !== 'object') return null;
+        if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) return null;
+        return claims as JwtClaims;
+    } catch {
+        return null;
+    }
+}
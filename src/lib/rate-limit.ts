@@ -0,0 +1,66 @@
+/**
+ * Rate Limiter
+ * Fixed-window request counters per key (usually the client IP) for routes
+ * that are open to anonymous callers
+ *
+ * Counters live in memory per instance - with several instances the effective
+ * limit is the configured one times the instance count.
+ */
+
+// Counters beyond this are pruned (expired first, then oldest)
+const MAX_TRACKED_KEYS = 10000;
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+    check(key: string, now?: number): RateLimitResult;
+}
+
+/**
+ * Client IP of a request (first X-Forwarded-For hop, X-Real-IP), 'unknown' without proxy headers
+ */
+export function getClientIp(request: Request): string {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * At most limit requests per key within windowMs
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    const prune = (now: number) => {
+        for (const [key, window] of windows) {
+            if (now - window.startedAt >= windowMs) windows.delete(key);
+        }
+        for (const key of windows.keys()) {
+            if (windows.size <= MAX_TRACKED_KEYS) break;
+            windows.delete(key);
+        }
+    };
+
+    return {
+        check(key: string, now: number = Date.now()): RateLimitResult {
+            let window = windows.get(key);
+            if (!window || now - window.startedAt >= windowMs) {
+                windows.delete(key);
+                window = { startedAt: now, count: 0 };
+                windows.set(key, window);
+                if (windows.size > MAX_TRACKED_KEYS) prune(now);
+            }
+
+            const retryAfterSeconds = Math.ceil((window.startedAt + windowMs - now) / 1000);
+            if (window.count >= limit) {
+                return { allowed: false, remaining: 0, retryAfterSeconds };
+            }
+
+            window.count++;
+            return { allowed: true, remaining: limit - window.count, retryAfterSeconds };
+        },
+    };
+}
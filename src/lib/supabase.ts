@@ -62,6 +62,22 @@ export interface DbTeam {
     short_name: string | null;
     logo: string | null;
     country_id: string | null;
+    founded: number | null;
+    venue: string | null;
+    updated_at: string;
+}
+
+export interface DbPlayer {
+    id: string;
+    name: string;
+    short_name: string | null;
+    team_id: string | null;
+    position: string | null;
+    nationality: string | null;
+    birth_date: string | null;
+    photo: string | null;
+    jersey_number: number | null;
+    market_value: number | null;
     updated_at: string;
 }
 
@@ -70,8 +86,14 @@ export interface DbMatch {
     home_team_id: string | null;
     away_team_id: string | null;
     competition_id: string | null;
+    season_id: string | null;
+    stage_id: string | null;
+    round_num: number | null;
     status: string;
     minute: number | null;
+    minute_display: string | null;
+    period: string | null;
+    period_started_at: string | null;
     home_score: number;
     away_score: number;
     start_time: string;
@@ -84,6 +106,7 @@ export interface DbMatch {
 export interface DbMatchEvent {
     id: number;
     match_id: string;
+    event_key: string;
     type: number;
     time: number | null;
     position: number | null;
@@ -97,9 +120,43 @@ export interface DbMatchEvent {
     out_player_name: string | null;
     home_score: number | null;
     away_score: number | null;
+    assist1_id: string | null;
+    assist1_name: string | null;
+    var_reason: number | null;
+    var_result: number | null;
     created_at: string;
 }
 
+export interface DbMatchLineup {
+    match_id: string;
+    player_id: string;
+    team_id: string | null;
+    side: 'home' | 'away';
+    player_name: string | null;
+    shirt_number: number | null;
+    position: string | null;
+    is_starter: boolean;
+    is_captain: boolean;
+    rating: number | null;
+    updated_at: string;
+}
+
+export interface DbSeason {
+    id: string;
+    competition_id: string | null;
+    name: string;
+    year: number | null;
+    is_current: boolean;
+    start_date: string | null;
+    end_date: string | null;
+    current_stage_id: string | null;
+    stages: Array<{ id: string; firstRound: number | null; lastRound: number | null; matches: number }> | null;
+    total_matchdays: number | null;
+    team_count: number | null;
+    resolved_at: string | null;
+    updated_at: string;
+}
+
 export interface DbStanding {
     id: number;
     competition_id: string | null;
@@ -115,7 +172,119 @@ export interface DbStanding {
     goal_difference: number | null;
     points: number | null;
     form: string | null;
+    stage_id: string | null;
+    table_id: string;
+    group_name: string | null;
+    team_name: string | null;
+    team_logo: string | null;
+    deduct_points: number | null;
+    note: string | null;
+    promotion_id: string | null;
+    promotion_name: string | null;
+    promotion_color: string | null;
+    home_played: number | null;
+    home_won: number | null;
+    home_drawn: number | null;
+    home_lost: number | null;
+    home_goals_for: number | null;
+    home_goals_against: number | null;
+    home_points: number | null;
+    away_played: number | null;
+    away_won: number | null;
+    away_drawn: number | null;
+    away_lost: number | null;
+    away_goals_for: number | null;
+    away_goals_against: number | null;
+    away_points: number | null;
+    updated_at: string;
+}
+
+export interface DbStandingSnapshot {
+    id: number;
+    competition_id: string;
+    season_id: string;
+    round_num: number;
+    team_id: string;
+    team_name: string | null;
+    position: number;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    goals_for: number;
+    goals_against: number;
+    goal_difference: number;
+    points: number;
+    created_at: string;
+}
+
+export interface DbTrackedCompetition {
+    competition_id: string;
+    name: string;
+    priority: number;
+    display_order: number;
+    enabled: boolean;
+    sync_enabled: boolean;
+    visible: boolean;
+    created_at: string;
     updated_at: string;
 }
 
+export interface DbMqttJournalEntry {
+    id: number;
+    match_id: string;
+    topic: string;
+    payload: Record<string, unknown>;
+    received_at: string;
+}
+
+export interface DbDomainEvent {
+    id: number;
+    match_id: string;
+    type: string;
+    source: string;
+    payload: Record<string, unknown>;
+    occurred_at: string;
+}
+
+export interface DbAppUser {
+    id: string;
+    api_key_hash: string;
+    created_at: string;
+}
+
+export interface DbNotificationDevice {
+    id: string;
+    user_id: string;
+    platform: 'android' | 'ios' | 'web';
+    token: string;
+    web_push_keys: { p256dh: string; auth: string } | null;
+    locale: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DbNotificationSubscription {
+    user_id: string;
+    target_type: 'team' | 'match' | 'competition';
+    target_id: string;
+    created_at: string;
+}
+
+export interface DbUserFavorite {
+    user_id: string;
+    target_type: 'team' | 'competition' | 'match';
+    target_id: string;
+    created_at: string;
+}
+
+export interface DbServiceKey {
+    id: string;
+    name: string;
+    role: 'admin' | 'cron' | 'read';
+    key_hash: string;
+    created_at: string;
+    revoked_at: string | null;
+}
+
 export default supabase;
@@ -0,0 +1,84 @@
+/**
+ * Timezone helpers for match-day queries and formatted dates
+ * Routes take an IANA ?tz= (default Europe/Berlin) - day boundaries and
+ * date/time strings are computed in that zone instead of UTC / server locale
+ */
+
+export const DEFAULT_TIMEZONE = 'Europe/Berlin';
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * ?tz= value or the default; null when the name is not a valid IANA zone
+ */
+export function resolveTimeZone(param: string | null): string | null {
+    const timeZone = param?.trim() || DEFAULT_TIMEZONE;
+    return isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+/**
+ * Offset of the zone from UTC at the given instant (ms, positive east of UTC)
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant of local midnight of a YYYY-MM-DD date in the zone
+ */
+function zonedMidnight(date: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const utcMidnight = Date.UTC(year, month - 1, day);
+
+    // Second pass corrects days where the offset changes (DST switch)
+    let instant = utcMidnight - getTimeZoneOffsetMs(new Date(utcMidnight), timeZone);
+    instant = utcMidnight - getTimeZoneOffsetMs(new Date(instant), timeZone);
+    return new Date(instant);
+}
+
+/**
+ * [start, end) of a calendar day in the zone (23/25 hours on DST switch days)
+ */
+export function getZonedDayRange(date: string, timeZone: string): { start: Date; end: Date } {
+    const [year, month, day] = date.split('-').map(Number);
+    const next = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+    return { start: zonedMidnight(date, timeZone), end: zonedMidnight(next, timeZone) };
+}
+
+/**
+ * YYYY-MM-DD of the instant in the zone
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+    // en-CA formats as YYYY-MM-DD
+    return date.toLocaleDateString('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+}
+
+/**
+ * German short date (dd.mm.yy) in the zone
+ */
+export function formatZonedDate(date: Date, timeZone: string): string {
+    return date.toLocaleDateString('de-DE', { timeZone, day: '2-digit', month: '2-digit', year: '2-digit' });
+}
+
+/**
+ * 24h time (HH:MM) in the zone
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+    return date.toLocaleTimeString('de-DE', { timeZone, hour: '2-digit', minute: '2-digit' });
+}
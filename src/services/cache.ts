@@ -3,9 +3,7 @@
  * Caches teams, competitions, and countries for fast lookup during match enrichment
  */
 
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
+import { fetchAllPages } from './thesports';
 
 // Cache storage
 interface CacheEntry<T> {
@@ -65,49 +63,6 @@ const countriesCache: CacheEntry<CachedCountry> = {
 // Cache expiry time (1 hour)
 const CACHE_TTL = 60 * 60 * 1000;
 
-/**
- * Fetch data from API with pagination support
- */
-async function fetchAllPages<T>(
-    endpoint: string,
-    maxPages: number = 10
-): Promise<T[]> {
-    const allResults: T[] = [];
-
-    for (let page = 1; page <= maxPages; page++) {
-        const url = `${API_URL}${endpoint}?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-
-        try {
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: { 'Accept': 'application/json' },
-            });
-
-            if (!response.ok) break;
-
-            const data = await response.json();
-
-            if (data.err) {
-                console.error(`Cache fetch error for ${endpoint}:`, data.err);
-                break;
-            }
-
-            const results = data.data?.results || data.results || [];
-            if (results.length === 0) break;
-
-            allResults.push(...results);
-
-            // If we got less than expected, we're done
-            if (results.length < 1000) break;
-        } catch (error) {
-            console.error(`Cache fetch error for ${endpoint}:`, error);
-            break;
-        }
-    }
-
-    return allResults;
-}
-
 /**
  * Load teams into cache
  */
@@ -124,50 +79,16 @@ export async function loadTeamsCache(): Promise<void> {
 
     try {
         // Load teams with more pages to get all teams
-        const allTeams: CachedTeam[] = [];
-
-        for (let page = 1; page <= 100; page++) {
-            const url = `${API_URL}/v1/football/team/additional/list?user=${USERNAME}&secret=${API_KEY}&page=${page}`;
-
-            try {
-                const response = await fetch(url, {
-                    method: 'GET',
-                    headers: { 'Accept': 'application/json' },
-                });
-
-                if (!response.ok) {
-                    console.log(`[Cache] Teams page ${page}: HTTP ${response.status}`);
-                    break;
-                }
-
-                const data = await response.json();
-
-                if (data.err) {
-                    console.log(`[Cache] Teams page ${page}: Error - ${data.err}`);
-                    break;
-                }
-
-                // Handle different response formats
-                const results = data.results || data.data?.results || [];
-
-                if (results.length === 0) {
-                    console.log(`[Cache] Teams page ${page}: No more results`);
-                    break;
-                }
-
-                allTeams.push(...results);
-
+        // An upstream error throws before the cache is cleared, so stale data survives an outage
+        const allTeams = await fetchAllPages<CachedTeam>('/v1/football/team/additional/list', {
+            maxPages: 100,
+            pageSize: 1000,
+            onPage: (page, results) => {
                 if (page === 1) {
                     console.log(`[Cache] Teams page 1: Got ${results.length} teams, sample: ${results[0]?.name}`);
                 }
-
-                // If we got less than 1000, we're done
-                if (results.length < 1000) break;
-            } catch (e) {
-                console.log(`[Cache] Teams page ${page}: Fetch error - ${e}`);
-                break;
-            }
-        }
+            },
+        });
 
         teamsCache.data.clear();
         allTeams.forEach(team => {
@@ -198,7 +119,10 @@ export async function loadCompetitionsCache(): Promise<void> {
     console.log('[Cache] Loading competitions...');
 
     try {
-        const competitions = await fetchAllPages<CachedCompetition>('/v1/football/competition/additional/list', 5);
+        const competitions = await fetchAllPages<CachedCompetition>('/v1/football/competition/additional/list', {
+            maxPages: 5,
+            pageSize: 1000,
+        });
 
         competitionsCache.data.clear();
         competitions.forEach(comp => {
@@ -229,7 +153,9 @@ export async function loadCountriesCache(): Promise<void> {
     console.log('[Cache] Loading countries...');
 
     try {
-        const countries = await fetchAllPages<CachedCountry>('/v1/football/country/list', 1);
+        const countries = await fetchAllPages<CachedCountry>('/v1/football/country/list', {
+            maxPages: 1,
+        });
 
         countriesCache.data.clear();
         countries.forEach(country => {
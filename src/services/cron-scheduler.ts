@@ -1,22 +1,36 @@
 /**
  * Internal Cron Scheduler
  * Runs periodic sync tasks within the main backend process
+ * Calls authenticate as role cron (lib/auth.ts): with CRON_API_KEY (a cron
+ * service key) or a short-lived token signed with SERVICE_JWT_SECRET
  */
 
 import cron from 'node-cron';
+import { signServiceToken } from '@/lib/auth';
 
 const BACKEND_URL = process.env.RAILWAY_PUBLIC_DOMAIN
     ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
     : 'http://localhost:3000';
 
+function getCronCredential(): string | null {
+    return process.env.CRON_API_KEY || signServiceToken('cron');
+}
+
 // Helper to call sync endpoints
 async function callSync(endpoint: string, name: string) {
     try {
         const url = `${BACKEND_URL}/api/cron/${endpoint}`;
         const response = await fetch(url, {
             method: 'GET',
-            headers: { 'Accept': 'application/json' }
+            headers: {
+                'Accept': 'application/json',
+                'Authorization': `Bearer ${getCronCredential() || ''}`,
+            }
         });
+        if (!response.ok) {
+            console.error(`[CRON] ${name} failed: HTTP ${response.status}`);
+            return null;
+        }
         const data = await response.json();
         console.log(`[CRON] ${name}: synced=${data.synced || 0}, errors=${data.errors || 0}`);
         return data;
@@ -29,6 +43,9 @@ async function callSync(endpoint: string, name: string) {
 // Initialize cron jobs
 export function startCronJobs() {
     console.log('[CRON] Starting scheduled sync jobs...');
+    if (!getCronCredential()) {
+        console.warn('[CRON] Neither CRON_API_KEY nor SERVICE_JWT_SECRET is set - cron routes will reject the calls');
+    }
 
     // Sync live matches every 30 seconds
     // Note: Railway's minimum cron interval is 1 minute, so we use node-cron internally
@@ -42,15 +59,27 @@ export function startCronJobs() {
         callSync(`sync-daily?date=${today}`, 'Daily Sync');
     });
 
+    // Fetch lineups of matches kicking off soon every 5 minutes
+    cron.schedule('*/5 * * * *', () => {
+        callSync('sync-lineups', 'Lineups Sync');
+    });
+
     // Sync standings every 10 minutes
     cron.schedule('*/10 * * * *', () => {
         callSync('sync-standings', 'Standings Sync');
     });
 
+    // Resolve current seasons daily (picks up season rollover)
+    cron.schedule('15 4 * * *', () => {
+        callSync('resolve-seasons', 'Season Resolver');
+    });
+
     console.log('[CRON] Scheduled jobs:');
     console.log('  - Live Sync: every 30 seconds');
     console.log('  - Daily Sync: every 5 minutes');
+    console.log('  - Lineups Sync: every 5 minutes');
     console.log('  - Standings Sync: every 10 minutes');
+    console.log('  - Season Resolver: daily at 04:15');
 }
 
 export default { startCronJobs };
@@ -0,0 +1,87 @@
+/**
+ * Domain Event Subscribers
+ * Side effects of match happenings, registered once at startup
+ * (instrumentation.ts) on the domain event bus:
+ *
+ * - persistence: final lineup ratings and standings resync at full time
+ *   (replayed events only refresh the live table - no TheSports calls)
+ * - push: notifications for subscribed users (skips replayed events)
+ * - SSE: every event is forwarded to stream clients as an 'event' delta
+ * - audit: every event is appended to the domain_events table
+ */
+
+import { supabase } from '@/lib/supabase';
+import { DomainEvent, subscribeDomainEvent } from './domain-events';
+import { syncMatchLineup } from './lineups';
+import { recomputeLiveStandings } from './live-standings';
+import { publishLiveDelta } from './live-stream';
+import { notifyDomainEvent } from './notifications';
+import { syncCompetitionStandings } from './standings';
+
+async function persistFullTime(event: DomainEvent<'FullTime'>): Promise<void> {
+    const { competitionId } = event.payload;
+
+    if (event.replay) {
+        if (competitionId) recomputeLiveStandings(competitionId, event.matchId);
+        return;
+    }
+
+    // Final lineup ratings for player stats
+    syncMatchLineup(event.matchId)
+        .catch(err => console.error('[Events] Lineup sync failed:', err));
+
+    if (!competitionId) return;
+
+    try {
+        await syncCompetitionStandings(competitionId);
+    } catch (err) {
+        console.error('[Events] Standings resync failed:', err);
+    } finally {
+        recomputeLiveStandings(competitionId, event.matchId);
+    }
+}
+
+function streamEvent(event: DomainEvent): void {
+    publishLiveDelta(event.matchId, 'event', {
+        eventId: event.id,
+        type: event.type,
+        source: event.source,
+        ...event.payload,
+    });
+}
+
+async function auditEvent(event: DomainEvent): Promise<void> {
+    console.log(`[Events] ${event.type} for match ${event.matchId} (${event.source})`);
+
+    const { error } = await supabase.from('domain_events').insert({
+        match_id: event.matchId,
+        type: event.type,
+        source: event.source,
+        payload: event.payload,
+        occurred_at: event.at,
+    });
+
+    if (error) {
+        console.error(`[Events] Audit write failed for ${event.type}:`, error.message);
+    }
+}
+
+// Stored on globalThis so hot reloads don't register the subscribers twice
+const globalForSubscribers = globalThis as typeof globalThis & { __domainEventSubscribers?: boolean };
+
+export function registerDomainEventSubscribers(): void {
+    if (globalForSubscribers.__domainEventSubscribers) return;
+    globalForSubscribers.__domainEventSubscribers = true;
+
+    subscribeDomainEvent('FullTime', persistFullTime);
+    subscribeDomainEvent('*', notifyDomainEvent);
+    subscribeDomainEvent('*', streamEvent);
+    subscribeDomainEvent('*', auditEvent);
+    console.log('[Events] Subscribers registered');
+}
+
+export const DomainEventSubscribers = {
+    register: registerDomainEventSubscribers,
+};
+
+export default DomainEventSubscribers;
@@ -0,0 +1,259 @@
+/**
+ * Domain Events
+ * In-process typed event bus for match happenings (goals, VAR cancellations,
+ * red cards, status changes, lineups)
+ *
+ * Ingestion (MQTT handlers, sync service, admin fix routes) publishes here;
+ * side effects subscribe (see domain-event-subscribers.ts) so new consumers
+ * can be added without touching the ingestion code. Handlers run after the
+ * write that caused the event; async handlers are not awaited and their
+ * errors are logged, never thrown back to the publisher.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { EVENT_RED, EVENT_SECOND_YELLOW, IncidentDomainEvent, IncidentRow } from './incidents';
+import { MatchStatus, normalizeStatus, StatusSource } from './match-status';
+
+export type DomainEventSource = StatusSource;
+export type MatchSide = 'home' | 'away';
+
+export interface MatchScore {
+    home: number;
+    away: number;
+}
+
+export interface MatchStatusChange {
+    from: MatchStatus;
+    to: MatchStatus;
+    score: MatchScore | null;
+    competitionId: string | null;
+}
+
+export interface DomainEventMap {
+    GoalScored: {
+        side: MatchSide | null;
+        minute: number | null;
+        player: string | null;
+        score: MatchScore | null;
+        incident: IncidentRow;
+    };
+    GoalCancelledByVar: {
+        side: MatchSide | null;
+        minute: number | null;
+        reason: 'var' | 'removed';  // VAR incident, or goal dropped from the feed
+        goal: IncidentRow | null;
+        incident: IncidentRow;
+    };
+    RedCard: {
+        side: MatchSide | null;
+        minute: number | null;
+        player: string | null;
+        secondYellow: boolean;
+        incident: IncidentRow;
+    };
+    StatusChanged: MatchStatusChange;
+    KickOff: MatchStatusChange;
+    HalfTime: MatchStatusChange;
+    FullTime: MatchStatusChange;
+    LineupsAnnounced: {
+        home: number;
+        away: number;
+    };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+    'GoalScored',
+    'GoalCancelledByVar',
+    'RedCard',
+    'StatusChanged',
+    'KickOff',
+    'HalfTime',
+    'FullTime',
+    'LineupsAnnounced',
+];
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+    id: number;
+    type: T;
+    matchId: string;
+    source: DomainEventSource;
+    payload: DomainEventMap[T];
+    at: string;
+    // Published while replaying a journal or scenario - not a live happening
+    replay: boolean;
+}
+
+export type DomainEventHandler<T extends DomainEventType = DomainEventType> =
+    (event: DomainEvent<T>) => void | Promise<void>;
+
+interface DomainEventBus {
+    nextId: number;
+    handlers: Map<DomainEventType | '*', Set<DomainEventHandler>>;
+    replay: AsyncLocalStorage<boolean>;
+}
+
+// Stored on globalThis: publishers in route handlers and subscribers registered
+// from instrumentation can live in different module instances of the same process
+const globalForBus = globalThis as typeof globalThis & { __domainEventBus?: DomainEventBus };
+const bus: DomainEventBus = globalForBus.__domainEventBus ??= {
+    nextId: Date.now(),
+    handlers: new Map(),
+    replay: new AsyncLocalStorage(),
+};
+
+/**
+ * Run fn with every event it publishes marked as replay
+ * (journal replays, scenario runs - subscribers like push skip those)
+ */
+export function runAsReplay<T>(fn: () => Promise<T>): Promise<T> {
+    return bus.replay.run(true, fn);
+}
+
+function runHandler(handler: DomainEventHandler, event: DomainEvent): void {
+    try {
+        const result = handler(event);
+        if (result instanceof Promise) {
+            result.catch(error => console.error(`[Events] ${event.type} handler failed:`, error));
+        }
+    } catch (error) {
+        console.error(`[Events] ${event.type} handler failed:`, error);
+    }
+}
+
+export function publishDomainEvent<T extends DomainEventType>(
+    type: T,
+    matchId: string,
+    payload: DomainEventMap[T],
+    source: DomainEventSource
+): DomainEvent<T> {
+    const event: DomainEvent<T> = {
+        id: bus.nextId++,
+        type,
+        matchId,
+        source,
+        payload,
+        at: new Date().toISOString(),
+        replay: bus.replay.getStore() === true,
+    };
+
+    for (const key of [type, '*'] as const) {
+        for (const handler of bus.handlers.get(key) || []) {
+            runHandler(handler as DomainEventHandler, event as DomainEvent);
+        }
+    }
+
+    return event;
+}
+
+/**
+ * Subscribe to one event type ('*' = all types), returns the unsubscribe function
+ */
+export function subscribeDomainEvent<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void;
+export function subscribeDomainEvent(type: '*', handler: DomainEventHandler): () => void;
+export function subscribeDomainEvent(type: DomainEventType | '*', handler: DomainEventHandler<never>): () => void {
+    const handlers = bus.handlers.get(type) ?? new Set<DomainEventHandler>();
+    bus.handlers.set(type, handlers);
+    handlers.add(handler as DomainEventHandler);
+    return () => {
+        handlers.delete(handler as DomainEventHandler);
+    };
+}
+
+// ============ PUBLISH HELPERS ============
+
+function sideOf(incident: IncidentRow): MatchSide | null {
+    return incident.position === 1 ? 'home' : incident.position === 2 ? 'away' : null;
+}
+
+function scoreOf(incident: IncidentRow): MatchScore | null {
+    return incident.home_score !== null && incident.away_score !== null
+        ? { home: incident.home_score, away: incident.away_score }
+        : null;
+}
+
+/**
+ * StatusChanged for a written status change, plus KickOff/HalfTime/FullTime
+ * Nothing is published for new matches (no stored status) or unchanged ones
+ */
+export function publishStatusChange(
+    matchId: string,
+    stored: string | null | undefined,
+    next: MatchStatus,
+    source: DomainEventSource,
+    context: { score?: MatchScore | null; competitionId?: string | null } = {}
+): void {
+    const from = normalizeStatus(stored);
+    if (!from || from === next) return;
+
+    const change: MatchStatusChange = {
+        from,
+        to: next,
+        score: context.score ?? null,
+        competitionId: context.competitionId ?? null,
+    };
+
+    publishDomainEvent('StatusChanged', matchId, change, source);
+    if (next === 'live' && (from === 'scheduled' || from === 'postponed')) {
+        publishDomainEvent('KickOff', matchId, change, source);
+    } else if (next === 'halftime') {
+        publishDomainEvent('HalfTime', matchId, change, source);
+    } else if (next === 'finished') {
+        publishDomainEvent('FullTime', matchId, change, source);
+    }
+}
+
+/**
+ * Bus events for the incident diff of a match (see incidents.ts)
+ * Yellow cards are not published
+ */
+export function publishIncidentEvents(matchId: string, events: IncidentDomainEvent[], source: DomainEventSource): void {
+    for (const event of events) {
+        const { incident } = event;
+        const side = sideOf(incident);
+
+        switch (event.kind) {
+            case 'GoalScored':
+                publishDomainEvent('GoalScored', matchId, {
+                    side,
+                    minute: incident.time,
+                    player: incident.player_name,
+                    score: scoreOf(incident),
+                    incident,
+                }, source);
+                break;
+            case 'GoalDisallowed':
+                publishDomainEvent('GoalCancelledByVar', matchId, {
+                    side: event.goal ? sideOf(event.goal) : side,
+                    minute: incident.time,
+                    reason: event.reason,
+                    goal: event.goal,
+                    incident,
+                }, source);
+                break;
+            case 'CardShown':
+            case 'CardUpgraded':
+                if (incident.type !== EVENT_RED && incident.type !== EVENT_SECOND_YELLOW) break;
+                publishDomainEvent('RedCard', matchId, {
+                    side,
+                    minute: incident.time,
+                    player: incident.player_name,
+                    secondYellow: incident.type === EVENT_SECOND_YELLOW || event.kind === 'CardUpgraded',
+                    incident,
+                }, source);
+                break;
+        }
+    }
+}
+
+export const DomainEventsService = {
+    DOMAIN_EVENT_TYPES,
+    publish: publishDomainEvent,
+    subscribe: subscribeDomainEvent,
+    runAsReplay,
+    publishStatusChange,
+    publishIncidentEvents,
+};
+
+export default DomainEventsService;
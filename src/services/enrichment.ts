@@ -9,6 +9,8 @@ import {
     CachedCountry,
     CachedTeam,
 } from './cache';
+import { computeClock, periodFromStatusId } from './match-clock';
+import { MatchStatus, statusFromTheSports } from './match-status';
 
 // Enriched team type (what the frontend expects)
 export interface EnrichedTeam {
@@ -39,7 +41,7 @@ export interface EnrichedMatch {
     homeTeam: EnrichedTeam;
     awayTeam: EnrichedTeam;
     score: { home: number; away: number } | null;
-    status: 'scheduled' | 'live' | 'halftime' | 'finished' | 'postponed' | 'cancelled';
+    status: MatchStatus;
     minute: number | null;
     startTime: string;
     competition: EnrichedCompetition;
@@ -61,6 +63,7 @@ export interface RawMatch {
     away_team_id: string;
     status_id: number;
     match_time: number;
+    kickoff_timestamp?: number;     // kick-off of the current period (second half, extra time)
     venue_id: string;
     referee_id: string;
     home_scores: number[];
@@ -74,50 +77,6 @@ export interface RawMatch {
     };
 }
 
-// Status ID mapping
-const STATUS_MAP: Record<number, EnrichedMatch['status']> = {
-    0: 'scheduled',
-    1: 'scheduled',
-    2: 'live',       // First half
-    3: 'halftime',
-    4: 'live',       // Second half
-    5: 'live',       // Overtime
-    6: 'live',       // Overtime half-time
-    7: 'live',       // Penalty shootout
-    8: 'finished',
-    9: 'scheduled',  // Delay
-    10: 'cancelled',
-    11: 'cancelled',
-    12: 'cancelled',
-    13: 'postponed',
-    14: 'postponed',
-};
-
-/**
- * Calculate approximate match minute
- * Note: This is only used for API fallback when Supabase has no data
- * The primary path uses minute value directly from Supabase (set by WebSocket service)
- */
-function calculateMinute(statusId: number, matchTime: number): number | null {
-    if (statusId >= 2 && statusId <= 7) {
-        const now = Math.floor(Date.now() / 1000);
-        const elapsedSeconds = now - matchTime;
-        const elapsedMinutes = Math.floor(elapsedSeconds / 60);
-
-        if (statusId === 3) return null; // Half-time - no minute
-        if (statusId === 2) return Math.max(1, elapsedMinutes); // First half
-        // For second half - matchTime should be second half kickoff, so just add 45
-        if (statusId === 4) return Math.max(46, elapsedMinutes + 45);
-        if (statusId >= 5) return elapsedMinutes + 90; // Overtime
-
-        return Math.max(0, elapsedMinutes);
-    }
-
-    if (statusId === 8) return null; // Finished - no minute
-
-    return null;
-}
-
 /**
  * Transform cached team to enriched team
  */
@@ -189,8 +148,12 @@ export function enrichMatch(rawMatch: RawMatch): EnrichedMatch {
     const compCountry = competition ? CacheService.getCountryById(competition.country_id) : undefined;
 
     // Calculate status and minute
-    const status = STATUS_MAP[rawMatch.status_id] || 'scheduled';
-    const minute = calculateMinute(rawMatch.status_id, rawMatch.match_time);
+    const status = statusFromTheSports(rawMatch.status_id) ?? 'scheduled';
+    // API fallback only (the MQTT handler's minute in Supabase is primary)
+    // The clock counts from the period kick-off - match_time only equals it in the first half
+    const periodKickoff = rawMatch.kickoff_timestamp
+        || (periodFromStatusId(rawMatch.status_id) === 'first_half' ? rawMatch.match_time : null);
+    const minute = computeClock(rawMatch.status_id, periodKickoff).minute;
 
     // Extract scores
     const hasScore = status === 'live' || status === 'halftime' || status === 'finished';
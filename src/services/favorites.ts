@@ -0,0 +1,164 @@
+/**
+ * Favorites Service
+ * Favorite teams, competitions and matches of app users and the personal
+ * match feed built from the denormalized matches rows
+ *
+ * Feed: matches of the day involving a favorite come first, then the rest of
+ * the visible competitions - both grouped by competition in priority order
+ * (tracked_competitions.priority, untracked competitions last).
+ */
+
+import { DbUserFavorite, supabase } from '@/lib/supabase';
+import { formatZonedTime, getZonedDayRange } from '@/lib/timezone';
+import { formatMatchRow, MatchRow } from './teams';
+import { getCompetitionPriorities, getVisibleCompetitionIds } from './tracked-competitions';
+
+export const FAVORITE_TARGETS = ['team', 'competition', 'match'] as const;
+export type FavoriteTarget = typeof FAVORITE_TARGETS[number];
+
+const UNTRACKED_PRIORITY = 999;
+
+export function isFavoriteTarget(value: unknown): value is FavoriteTarget {
+    return typeof value === 'string' && (FAVORITE_TARGETS as readonly string[]).includes(value);
+}
+
+export async function listFavorites(userId: string): Promise<DbUserFavorite[]> {
+    const { data, error } = await supabase
+        .from('user_favorites')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to list favorites: ${error.message}`);
+    }
+    return (data || []) as DbUserFavorite[];
+}
+
+export async function addFavorite(userId: string, targetType: FavoriteTarget, targetId: string): Promise<void> {
+    const { error } = await supabase
+        .from('user_favorites')
+        .upsert({ user_id: userId, target_type: targetType, target_id: targetId }, {
+            onConflict: 'user_id,target_type,target_id',
+            ignoreDuplicates: true,
+        });
+
+    if (error) {
+        throw new Error(`Failed to add favorite: ${error.message}`);
+    }
+}
+
+export async function removeFavorite(userId: string, targetType: FavoriteTarget, targetId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('user_favorites')
+        .delete()
+        .eq('user_id', userId)
+        .eq('target_type', targetType)
+        .eq('target_id', targetId)
+        .select('target_id');
+
+    if (error) {
+        throw new Error(`Failed to remove favorite: ${error.message}`);
+    }
+    return (data || []).length > 0;
+}
+
+// ============ FEED ============
+
+export type FeedMatch = ReturnType<typeof formatMatchRow> & {
+    localTime: string;
+    isFavorite: boolean;
+};
+
+export interface FeedGroup {
+    competition: FeedMatch['competition'];
+    priority: number;
+    matches: FeedMatch[];
+}
+
+export interface PersonalFeed {
+    favorites: FeedGroup[];
+    others: FeedGroup[];
+    count: number;
+}
+
+function groupByCompetition(matches: FeedMatch[], priorities: Map<string, number>): FeedGroup[] {
+    const groups = new Map<string, FeedGroup>();
+
+    for (const match of matches) {
+        const id = match.competition.id;
+        let group = groups.get(id);
+        if (!group) {
+            group = { competition: match.competition, priority: priorities.get(id) ?? UNTRACKED_PRIORITY, matches: [] };
+            groups.set(id, group);
+        }
+        group.matches.push(match);
+    }
+
+    return [...groups.values()].sort((a, b) =>
+        a.priority - b.priority || a.competition.name.localeCompare(b.competition.name));
+}
+
+/**
+ * Matches of a day (YYYY-MM-DD in timeZone) for a user, favorites first
+ * Favorite matches/teams are included even outside the visible competitions
+ */
+export async function getPersonalFeed(userId: string, date: string, timeZone: string): Promise<PersonalFeed> {
+    const { start, end } = getZonedDayRange(date, timeZone);
+
+    const [favorites, visibleIds, priorities, matchesResult] = await Promise.all([
+        listFavorites(userId),
+        getVisibleCompetitionIds(),
+        getCompetitionPriorities(),
+        supabase
+            .from('matches')
+            .select('*')
+            .gte('start_time', start.toISOString())
+            .lt('start_time', end.toISOString())
+            .order('start_time', { ascending: true }),
+    ]);
+
+    if (matchesResult.error) {
+        throw new Error(`Failed to read matches: ${matchesResult.error.message}`);
+    }
+
+    const favoriteIds = (type: FavoriteTarget) => new Set(favorites.filter(f => f.target_type === type).map(f => f.target_id));
+    const teams = favoriteIds('team');
+    const competitions = favoriteIds('competition');
+    const matchIds = favoriteIds('match');
+    const visible = new Set(visibleIds);
+
+    const favoriteMatches: FeedMatch[] = [];
+    const otherMatches: FeedMatch[] = [];
+
+    for (const row of (matchesResult.data || []) as MatchRow[]) {
+        const isFavorite = matchIds.has(row.id)
+            || competitions.has(row.competition_id || '')
+            || teams.has(row.home_team_id || '')
+            || teams.has(row.away_team_id || '');
+        if (!isFavorite && !visible.has(row.competition_id || '')) continue;
+
+        const match: FeedMatch = {
+            ...formatMatchRow(row),
+            localTime: formatZonedTime(new Date(row.start_time), timeZone),
+            isFavorite,
+        };
+        (isFavorite ? favoriteMatches : otherMatches).push(match);
+    }
+
+    return {
+        favorites: groupByCompetition(favoriteMatches, priorities),
+        others: groupByCompetition(otherMatches, priorities),
+        count: favoriteMatches.length + otherMatches.length,
+    };
+}
+
+export const FavoritesService = {
+    FAVORITE_TARGETS,
+    listFavorites,
+    addFavorite,
+    removeFavorite,
+    getPersonalFeed,
+};
+
+export default FavoritesService;
@@ -0,0 +1,285 @@
+/**
+ * Head-to-Head Service
+ * Previous meetings of two teams with aggregate W/D/L and goals
+ *
+ * Meetings come from TheSports /match/analysis (history.vs) and are stored in
+ * matches, so repeated views are served from the database. A pair is fetched
+ * again after SYNC_TTL_MS; new meetings in tracked competitions arrive through
+ * the regular match sync anyway. A failed fetch is retried after FAILURE_TTL_MS
+ * at the earliest, not on every view.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getCompetitionById, getTeamById } from './cache';
+import { formatMatchRow, matchResultFor, MatchRow } from './teams';
+import { theSportsRequest } from './thesports';
+
+const SYNC_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MEETINGS = 50;
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+const MAX_FAILED_SYNCS = 1000;
+
+// "teamA|teamB" (pair order) → time of the last failed analysis fetch
+const failedSyncs = new Map<string, number>();
+
+/**
+ * Match entry of /match/analysis history lists
+ * Arrays: [id, competition_id, status_id, match_time, round?, home[], away[], ...]
+ * home/away: [team_id, position, score, half_score, red, yellow, corners, ot_score, pen_score]
+ */
+type AnalysisMatch = unknown[] | {
+    id?: string;
+    competition_id?: string;
+    status_id?: number;
+    match_time?: number;
+    home_team_id?: string;
+    away_team_id?: string;
+    home_scores?: number[];
+    away_scores?: number[];
+};
+
+interface AnalysisResult {
+    history?: { vs?: AnalysisMatch[] };
+}
+
+interface ParsedMeeting {
+    id: string;
+    competitionId: string | null;
+    statusId: number;
+    matchTime: number;
+    homeTeamId: string;
+    awayTeamId: string;
+    homeScore: number;
+    awayScore: number;
+}
+
+export interface HeadToHeadSummary {
+    played: number;
+    teamAWins: number;
+    draws: number;
+    teamBWins: number;
+    teamAGoals: number;
+    teamBGoals: number;
+}
+
+function pairKey(teamA: string, teamB: string): [string, string] {
+    return teamA < teamB ? [teamA, teamB] : [teamB, teamA];
+}
+
+function parseAnalysisMatch(entry: AnalysisMatch): ParsedMeeting | null {
+    if (Array.isArray(entry)) {
+        const home = Array.isArray(entry[5]) ? entry[5] : [];
+        const away = Array.isArray(entry[6]) ? entry[6] : [];
+        if (typeof entry[0] !== 'string' || typeof home[0] !== 'string' || typeof away[0] !== 'string') return null;
+        return {
+            id: entry[0],
+            competitionId: typeof entry[1] === 'string' ? entry[1] : null,
+            statusId: Number(entry[2]) || 0,
+            matchTime: Number(entry[3]) || 0,
+            homeTeamId: home[0],
+            awayTeamId: away[0],
+            homeScore: Number(home[2]) || 0,
+            awayScore: Number(away[2]) || 0,
+        };
+    }
+
+    if (!entry?.id || !entry.home_team_id || !entry.away_team_id) return null;
+    return {
+        id: entry.id,
+        competitionId: entry.competition_id || null,
+        statusId: entry.status_id ?? 0,
+        matchTime: entry.match_time || 0,
+        homeTeamId: entry.home_team_id,
+        awayTeamId: entry.away_team_id,
+        homeScore: entry.home_scores?.[0] || 0,
+        awayScore: entry.away_scores?.[0] || 0,
+    };
+}
+
+/**
+ * Store finished meetings in matches (existing rows are left untouched)
+ */
+async function persistMeetings(meetings: ParsedMeeting[]): Promise<number> {
+    const finished = meetings.filter(m => m.statusId === 8 && m.matchTime > 0);
+    if (finished.length === 0) return 0;
+
+    const teamIds = Array.from(new Set(finished.flatMap(m => [m.homeTeamId, m.awayTeamId])));
+    const competitionIds = Array.from(new Set(finished.map(m => m.competitionId).filter((id): id is string => !!id)));
+
+    const [{ data: teams }, { data: competitions }] = await Promise.all([
+        supabase.from('teams').select('id, name, logo').in('id', teamIds),
+        competitionIds.length > 0
+            ? supabase.from('competitions').select('id, name, short_name, logo').in('id', competitionIds)
+            : Promise.resolve({ data: [] as Array<{ id: string; name: string; short_name: string | null; logo: string | null }> }),
+    ]);
+    const teamMap = new Map((teams || []).map(t => [t.id, t]));
+    const competitionMap = new Map((competitions || []).map(c => [c.id, c]));
+
+    const team = (id: string) => {
+        const cached = getTeamById(id);
+        const stored = teamMap.get(id);
+        return { name: stored?.name || cached?.name || 'TBD', logo: stored?.logo || cached?.logo || '' };
+    };
+
+    const rows = finished.map(m => {
+        const home = team(m.homeTeamId);
+        const away = team(m.awayTeamId);
+        const competition = m.competitionId ? competitionMap.get(m.competitionId) || getCompetitionById(m.competitionId) : undefined;
+
+        return {
+            id: m.id,
+            home_team_id: m.homeTeamId,
+            away_team_id: m.awayTeamId,
+            home_team_name: home.name,
+            home_team_logo: home.logo,
+            away_team_name: away.name,
+            away_team_logo: away.logo,
+            competition_id: m.competitionId,
+            competition_name: competition?.short_name || competition?.name || 'Unknown',
+            competition_logo: competition?.logo || '',
+            status: 'finished',
+            home_score: m.homeScore,
+            away_score: m.awayScore,
+            start_time: new Date(m.matchTime * 1000).toISOString(),
+            updated_at: new Date().toISOString(),
+        };
+    });
+
+    const { error } = await supabase
+        .from('matches')
+        .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+        console.error('[H2H] Persist error:', error.message);
+        return 0;
+    }
+    return rows.length;
+}
+
+function rememberFailedSync(key: string): void {
+    failedSyncs.delete(key);
+    failedSyncs.set(key, Date.now());
+
+    // Oldest entries first (insertion order)
+    for (const oldest of failedSyncs.keys()) {
+        if (failedSyncs.size <= MAX_FAILED_SYNCS) break;
+        failedSyncs.delete(oldest);
+    }
+}
+
+/**
+ * Fetch the pair from TheSports unless it was synced within SYNC_TTL_MS
+ * Needs a match between the two teams for the analysis request
+ */
+async function ensureHeadToHeadSynced(teamA: string, teamB: string, matchId?: string): Promise<void> {
+    const [first, second] = pairKey(teamA, teamB);
+    const failureKey = `${first}|${second}`;
+
+    const failedAt = failedSyncs.get(failureKey);
+    if (failedAt !== undefined && Date.now() - failedAt < FAILURE_TTL_MS) return;
+
+    const { data: marker } = await supabase
+        .from('head_to_head_syncs')
+        .select('synced_at')
+        .eq('team_a_id', first)
+        .eq('team_b_id', second)
+        .maybeSingle();
+
+    if (marker && Date.now() - new Date(marker.synced_at).getTime() < SYNC_TTL_MS) return;
+
+    let sourceMatchId = matchId;
+    if (!sourceMatchId) {
+        const { data: anyMeeting } = await supabase
+            .from('matches')
+            .select('id')
+            .or(`and(home_team_id.eq.${teamA},away_team_id.eq.${teamB}),and(home_team_id.eq.${teamB},away_team_id.eq.${teamA})`)
+            .order('start_time', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+        sourceMatchId = anyMeeting?.id;
+    }
+    if (!sourceMatchId) return;
+
+    try {
+        const analysis = await theSportsRequest<AnalysisResult>('/v1/football/match/analysis', { uuid: sourceMatchId });
+        const meetings = (analysis?.history?.vs || [])
+            .map(parseAnalysisMatch)
+            .filter((m): m is ParsedMeeting => m !== null);
+        const stored = await persistMeetings(meetings);
+
+        await supabase.from('head_to_head_syncs').upsert({
+            team_a_id: first,
+            team_b_id: second,
+            source_match_id: sourceMatchId,
+            meetings: stored,
+            synced_at: new Date().toISOString(),
+        }, { onConflict: 'team_a_id,team_b_id' });
+
+        failedSyncs.delete(failureKey);
+        console.log(`[H2H] Synced ${stored} meetings for ${first} vs ${second}`);
+    } catch (err) {
+        // Serve whatever is stored - retried after FAILURE_TTL_MS
+        rememberFailedSync(failureKey);
+        console.error(`[H2H] Analysis fetch failed for match ${sourceMatchId}:`, err);
+    }
+}
+
+/**
+ * Previous meetings of teamA and teamB, newest first
+ * venueTeamId selects the "last meeting at the same venue" (that team at home)
+ */
+export async function getHeadToHead(teamA: string, teamB: string, options: {
+    matchId?: string;
+    venueTeamId?: string;
+} = {}): Promise<{
+    summary: HeadToHeadSummary;
+    meetings: Array<ReturnType<typeof formatMatchRow> & { result: 'W' | 'D' | 'L' }>;
+    lastMeetingAtVenue: (ReturnType<typeof formatMatchRow> & { result: 'W' | 'D' | 'L' }) | null;
+}> {
+    await ensureHeadToHeadSynced(teamA, teamB, options.matchId);
+
+    let query = supabase
+        .from('matches')
+        .select('*')
+        .or(`and(home_team_id.eq.${teamA},away_team_id.eq.${teamB}),and(home_team_id.eq.${teamB},away_team_id.eq.${teamA})`)
+        .eq('status', 'finished');
+
+    if (options.matchId) {
+        query = query.neq('id', options.matchId);
+    }
+
+    const { data, error } = await query
+        .order('start_time', { ascending: false })
+        .limit(MAX_MEETINGS);
+
+    if (error) {
+        throw new Error(`Failed to read meetings: ${error.message}`);
+    }
+
+    const rows = (data || []) as MatchRow[];
+    const summary: HeadToHeadSummary = { played: 0, teamAWins: 0, draws: 0, teamBWins: 0, teamAGoals: 0, teamBGoals: 0 };
+
+    // Results are from team A's perspective
+    const meetings = rows.map(row => {
+        const result = matchResultFor(teamA, row);
+        const aIsHome = row.home_team_id === teamA;
+        summary.played++;
+        summary.teamAGoals += (aIsHome ? row.home_score : row.away_score) || 0;
+        summary.teamBGoals += (aIsHome ? row.away_score : row.home_score) || 0;
+        if (result === 'W') summary.teamAWins++;
+        else if (result === 'L') summary.teamBWins++;
+        else summary.draws++;
+        return { ...formatMatchRow(row), result };
+    });
+
+    const venueTeamId = options.venueTeamId || teamA;
+    const lastMeetingAtVenue = meetings.find(m => m.homeTeam.id === venueTeamId) || null;
+
+    return { summary, meetings, lastMeetingAtVenue };
+}
+
+export const HeadToHeadService = {
+    getHeadToHead,
+};
+
+export default HeadToHeadService;
@@ -0,0 +1,372 @@
+/**
+ * Incidents Service
+ * Applies the complete incident list of a match (MQTT sends all incidents on
+ * every update) as a diff against match_events instead of delete-and-reinsert
+ *
+ * Each incident is identified by a deterministic event_key built from
+ * type, time, position and player (player_id, else player_name); identical
+ * incidents are numbered in order ("1|23|1|p1#1") and keep their stored number
+ * when one of them disappears. Same key with different content is a change,
+ * keys that disappear are removals - except a goal whose minute or scorer was
+ * corrected (same type, side and score under a new key), which is a change.
+ * See migration 014.
+ *
+ * The diff is turned into typed domain events (goal scored, goal disallowed,
+ * card shown/upgraded) for downstream consumers.
+ */
+
+import { DbMatchEvent, supabase } from '@/lib/supabase';
+
+// TheSports incident types
+export const EVENT_GOAL = 1;
+export const EVENT_YELLOW = 3;
+export const EVENT_RED = 4;
+export const EVENT_PENALTY = 8;
+export const EVENT_SUBSTITUTION = 9;
+export const EVENT_SECOND_YELLOW = 15;
+export const EVENT_OWN_GOAL = 17;
+export const EVENT_VAR = 28;
+export const VAR_RESULT_GOAL_CANCELLED = 2;
+
+const GOAL_TYPES = [EVENT_GOAL, EVENT_PENALTY, EVENT_OWN_GOAL];
+const CARD_TYPES = [EVENT_YELLOW, EVENT_RED, EVENT_SECOND_YELLOW];
+
+// Incident as sent by MQTT / the live history endpoint
+export interface IncidentInput {
+    type?: number;
+    time?: number;
+    position?: number;
+    player_id?: string;
+    player_name?: string;
+    player2_id?: string;
+    player2_name?: string;
+    in_player_id?: string;
+    in_player_name?: string;
+    out_player_id?: string;
+    out_player_name?: string;
+    home_score?: number;
+    away_score?: number;
+    assist1_id?: string;
+    assist1_name?: string;
+    var_reason?: number;
+    var_result?: number;
+}
+
+export type IncidentRow = Omit<DbMatchEvent, 'id' | 'created_at'>;
+
+export interface IncidentDiff {
+    added: IncidentRow[];
+    changed: IncidentRow[];
+    removed: IncidentRow[];
+    // Stored goals that moved to a new key - the corrected row is in changed
+    rekeyed: IncidentRow[];
+}
+
+export type IncidentDomainEvent =
+    | { kind: 'GoalScored'; matchId: string; incident: IncidentRow }
+    | { kind: 'GoalDisallowed'; matchId: string; incident: IncidentRow; reason: 'var' | 'removed'; goal: IncidentRow | null }
+    | { kind: 'CardShown'; matchId: string; incident: IncidentRow }
+    | { kind: 'CardUpgraded'; matchId: string; incident: IncidentRow; from: number };
+
+export interface IncidentSyncResult extends IncidentDiff {
+    total: number;
+    events: IncidentDomainEvent[];
+}
+
+// Fields that can change for the same incident (score corrections, VAR outcome, assists)
+const CONTENT_FIELDS = [
+    'player_name',
+    'player2_id',
+    'player2_name',
+    'in_player_id',
+    'in_player_name',
+    'out_player_id',
+    'out_player_name',
+    'home_score',
+    'away_score',
+    'assist1_id',
+    'assist1_name',
+    'var_reason',
+    'var_result',
+] as const;
+
+function playerIdentity(incident: Pick<IncidentRow, 'player_id' | 'player_name'>): string {
+    return incident.player_id || incident.player_name || '';
+}
+
+/**
+ * Identity of an incident without the occurrence suffix
+ */
+export function incidentBaseKey(incident: Pick<IncidentRow, 'type' | 'time' | 'position' | 'player_id' | 'player_name'>): string {
+    return `${incident.type}|${incident.time ?? ''}|${incident.position ?? ''}|${playerIdentity(incident)}`;
+}
+
+/**
+ * match_events rows with event_key for an incident list (order preserved)
+ * Incidents without a type can't be identified and are skipped.
+ */
+export function toIncidentRows(matchId: string, incidents: IncidentInput[]): IncidentRow[] {
+    const occurrences = new Map<string, number>();
+
+    return incidents
+        .filter(incident => typeof incident.type === 'number')
+        .map(incident => {
+            const row: IncidentRow = {
+                match_id: matchId,
+                event_key: '',
+                type: incident.type as number,
+                time: incident.time ?? null,
+                position: incident.position ?? null,
+                player_id: incident.player_id ?? null,
+                player_name: incident.player_name ?? null,
+                player2_id: incident.player2_id ?? null,
+                player2_name: incident.player2_name ?? null,
+                in_player_id: incident.in_player_id ?? null,
+                in_player_name: incident.in_player_name ?? null,
+                out_player_id: incident.out_player_id ?? null,
+                out_player_name: incident.out_player_name ?? null,
+                home_score: incident.home_score ?? null,
+                away_score: incident.away_score ?? null,
+                assist1_id: incident.assist1_id ?? null,
+                assist1_name: incident.assist1_name ?? null,
+                var_reason: incident.var_reason ?? null,
+                var_result: incident.var_result ?? null,
+            };
+
+            const baseKey = incidentBaseKey(row);
+            const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+            occurrences.set(baseKey, occurrence);
+            row.event_key = `${baseKey}#${occurrence}`;
+            return row;
+        });
+}
+
+function incidentOccurrence(eventKey: string): number {
+    return Number(eventKey.slice(eventKey.lastIndexOf('#') + 1)) || 0;
+}
+
+function sameContent(a: IncidentRow, b: IncidentRow): boolean {
+    return CONTENT_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null));
+}
+
+/**
+ * Numbering of incidents that share a base key depends on list order - give
+ * each incident the key of its identical stored incident (else of the next
+ * unclaimed one), so dropping one of two identical incidents doesn't rename the other
+ */
+export function alignIncidentKeys(previous: IncidentRow[], next: IncidentRow[]): IncidentRow[] {
+    const storedByBase = new Map<string, IncidentRow[]>();
+    for (const row of previous) {
+        const base = incidentBaseKey(row);
+        storedByBase.set(base, [...(storedByBase.get(base) ?? []), row]);
+    }
+
+    const nextByBase = new Map<string, IncidentRow[]>();
+    for (const row of next) {
+        const base = incidentBaseKey(row);
+        nextByBase.set(base, [...(nextByBase.get(base) ?? []), row]);
+    }
+
+    const keys = new Map<IncidentRow, string>();
+    for (const [base, rows] of nextByBase) {
+        const stored = (storedByBase.get(base) ?? [])
+            .sort((a, b) => incidentOccurrence(a.event_key) - incidentOccurrence(b.event_key));
+        const unclaimed = new Set(stored);
+
+        for (const row of rows) {
+            const identical = stored.find(candidate => unclaimed.has(candidate) && sameContent(candidate, row));
+            if (identical) {
+                unclaimed.delete(identical);
+                keys.set(row, identical.event_key);
+            }
+        }
+
+        let occurrence = Math.max(0, ...stored.map(row => incidentOccurrence(row.event_key)));
+        for (const row of rows) {
+            if (keys.has(row)) continue;
+
+            const [reused] = unclaimed;
+            if (reused) {
+                unclaimed.delete(reused);
+                keys.set(row, reused.event_key);
+            } else {
+                occurrence++;
+                keys.set(row, `${base}#${occurrence}`);
+            }
+        }
+    }
+
+    return next.map(row => ({ ...row, event_key: keys.get(row) ?? row.event_key }));
+}
+
+export function diffIncidents(previous: IncidentRow[], next: IncidentRow[]): IncidentDiff {
+    const previousByKey = new Map(previous.map(row => [row.event_key, row]));
+    const nextKeys = new Set(next.map(row => row.event_key));
+
+    const added: IncidentRow[] = [];
+    const changed: IncidentRow[] = [];
+    for (const row of next) {
+        const stored = previousByKey.get(row.event_key);
+        if (!stored) {
+            added.push(row);
+        } else if (CONTENT_FIELDS.some(field => (stored[field] ?? null) !== row[field])) {
+            changed.push(row);
+        }
+    }
+
+    const removed = previous.filter(row => !nextKeys.has(row.event_key));
+
+    // A corrected minute or scorer changes the key - a removed and an added goal
+    // of the same type, side and score are the same goal
+    const rekeyed: IncidentRow[] = [];
+    for (const stored of [...removed]) {
+        if (!GOAL_TYPES.includes(stored.type) || stored.home_score === null || stored.away_score === null) continue;
+
+        const index = added.findIndex(row => row.type === stored.type
+            && row.position === stored.position
+            && row.home_score === stored.home_score
+            && row.away_score === stored.away_score);
+        if (index === -1) continue;
+
+        changed.push(...added.splice(index, 1));
+        removed.splice(removed.indexOf(stored), 1);
+        rekeyed.push(stored);
+    }
+
+    return { added, changed, removed, rekeyed };
+}
+
+/**
+ * Goal a VAR cancellation refers to: latest goal of that side at or before the VAR minute
+ */
+function cancelledGoal(rows: IncidentRow[], varIncident: IncidentRow): IncidentRow | null {
+    return rows
+        .filter(row => GOAL_TYPES.includes(row.type)
+            && row.position === varIncident.position
+            && (row.time ?? 0) <= (varIncident.time ?? Infinity))
+        .pop() ?? null;
+}
+
+/**
+ * Domain events for a diff
+ * - GoalScored: goal/penalty/own goal added
+ * - GoalDisallowed: a VAR incident that cancels a goal, or a goal removed from
+ *   the list (unless VAR already cancelled it)
+ * - CardUpgraded: red/second yellow for a player who had a yellow
+ * - CardShown: any other new card
+ */
+export function incidentEvents(matchId: string, previous: IncidentRow[], next: IncidentRow[], diff: IncidentDiff): IncidentDomainEvent[] {
+    const events: IncidentDomainEvent[] = [];
+
+    // Goals already cancelled by VAR are not disallowed again when they drop out
+    const cancelledGoals = new Set(previous
+        .filter(row => row.type === EVENT_VAR && row.var_result === VAR_RESULT_GOAL_CANCELLED)
+        .map(row => cancelledGoal(previous, row)?.event_key));
+
+    for (const incident of diff.removed) {
+        if (GOAL_TYPES.includes(incident.type) && !cancelledGoals.has(incident.event_key)) {
+            events.push({ kind: 'GoalDisallowed', matchId, incident, reason: 'removed', goal: incident });
+        }
+    }
+
+    const previousVar = new Map(previous.filter(row => row.type === EVENT_VAR).map(row => [row.event_key, row]));
+    for (const incident of [...diff.added, ...diff.changed]) {
+        if (GOAL_TYPES.includes(incident.type) && diff.added.includes(incident)) {
+            events.push({ kind: 'GoalScored', matchId, incident });
+        }
+
+        if (incident.type === EVENT_VAR
+            && incident.var_result === VAR_RESULT_GOAL_CANCELLED
+            && previousVar.get(incident.event_key)?.var_result !== VAR_RESULT_GOAL_CANCELLED) {
+            const goal = cancelledGoal(next, incident);
+            events.push({ kind: 'GoalDisallowed', matchId, incident, reason: 'var', goal });
+        }
+
+        if (CARD_TYPES.includes(incident.type) && diff.added.includes(incident)) {
+            const player = playerIdentity(incident);
+            const hadYellow = incident.type !== EVENT_YELLOW && player !== '' && previous.some(row =>
+                row.type === EVENT_YELLOW && row.position === incident.position && playerIdentity(row) === player);
+
+            events.push(hadYellow
+                ? { kind: 'CardUpgraded', matchId, incident, from: EVENT_YELLOW }
+                : { kind: 'CardShown', matchId, incident });
+        }
+    }
+
+    return events;
+}
+
+function storedIncidentRow(event: DbMatchEvent): IncidentRow {
+    const row: Partial<DbMatchEvent> = { ...event };
+    delete row.id;
+    delete row.created_at;
+    return row as IncidentRow;
+}
+
+/**
+ * Domain events for stored rows that were updated in place (admin corrections)
+ */
+export function updatedIncidentEvents(matchId: string, before: DbMatchEvent[], updated: DbMatchEvent[]): IncidentDomainEvent[] {
+    const previous = before.map(storedIncidentRow);
+    const updatedByKey = new Map(updated.map(event => [event.event_key, storedIncidentRow(event)]));
+    const next = previous.map(row => updatedByKey.get(row.event_key) ?? row);
+    return incidentEvents(matchId, previous, next, diffIncidents(previous, next));
+}
+
+/**
+ * Apply the complete incident list of a match to match_events
+ * Upserts added/changed incidents by (match_id, event_key) and deletes only
+ * removed and rekeyed ones, so unchanged rows keep their ids
+ */
+export async function syncMatchIncidents(matchId: string, incidents: IncidentInput[]): Promise<IncidentSyncResult> {
+    const { data: stored, error: readError } = await supabase
+        .from('match_events')
+        .select('*')
+        .eq('match_id', matchId);
+
+    if (readError) {
+        throw new Error(`Failed to read events for ${matchId}: ${readError.message}`);
+    }
+
+    const previous = (stored || []).map(storedIncidentRow);
+    const next = alignIncidentKeys(previous, toIncidentRows(matchId, incidents));
+    const diff = diffIncidents(previous, next);
+
+    const upserts = [...diff.added, ...diff.changed];
+    if (upserts.length > 0) {
+        const { error } = await supabase
+            .from('match_events')
+            .upsert(upserts, { onConflict: 'match_id,event_key' });
+
+        if (error) {
+            throw new Error(`Failed to upsert events for ${matchId}: ${error.message}`);
+        }
+    }
+
+    const deletes = [...diff.removed, ...diff.rekeyed];
+    if (deletes.length > 0) {
+        const { error } = await supabase
+            .from('match_events')
+            .delete()
+            .eq('match_id', matchId)
+            .in('event_key', deletes.map(row => row.event_key));
+
+        if (error) {
+            throw new Error(`Failed to delete removed events for ${matchId}: ${error.message}`);
+        }
+    }
+
+    return { ...diff, total: next.length, events: incidentEvents(matchId, previous, next, diff) };
+}
+
+export const IncidentsService = {
+    incidentBaseKey,
+    toIncidentRows,
+    alignIncidentKeys,
+    diffIncidents,
+    incidentEvents,
+    updatedIncidentEvents,
+    syncMatchIncidents,
+};
+
+export default IncidentsService;
@@ -0,0 +1,317 @@
+/**
+ * Leaders Service
+ * Player leaderboards per competition (goals, assists, cards, rating)
+ *
+ * Computed from stored match_events and match_lineups of the current season and
+ * cross-checked against TheSports' season player stats when those are available.
+ * Team logos come from the TheSports cache, player photos from the players table.
+ */
+
+import { DEFAULT_LOCALE, getUnknownLabel, Locale } from '@/lib/i18n';
+import { supabase } from '@/lib/supabase';
+import { getTeamById } from './cache';
+import { EVENT_GOAL, EVENT_PENALTY, EVENT_RED, EVENT_SECOND_YELLOW, EVENT_YELLOW } from './incidents';
+import { getCurrentSeason } from './season-resolver';
+import { theSportsRequest } from './thesports';
+
+export const LEADER_TYPES = ['goals', 'assists', 'yellow', 'red', 'rating'] as const;
+export type LeaderType = typeof LEADER_TYPES[number];
+
+// Rating leaders need a minimum share of the matchdays played
+const RATING_MIN_APPEARANCE_SHARE = 0.3;
+const IN_CHUNK_SIZE = 150;
+// PostgREST caps responses at 1000 rows - larger reads are paged
+const PAGE_SIZE = 1000;
+
+export interface LeaderEntry {
+    rank: number;
+    playerId: string;
+    player: string;
+    photo: string;
+    teamId: string | null;
+    team: string;
+    teamLogo: string;
+    value: number;
+    matches: number;
+    upstreamValue: number | null;
+}
+
+interface UpstreamPlayerStat {
+    player?: { id?: string; name?: string; logo?: string };
+    player_id?: string;
+    team?: { id?: string };
+    team_id?: string;
+    goals?: number;
+    assists?: number;
+    yellow_cards?: number;
+    red_cards?: number;
+}
+
+interface Tally {
+    playerId: string;
+    name: string | null;
+    teamId: string | null;
+    value: number;
+    matches: Set<string>;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+async function loadSeasonMatches(competitionId: string, seasonId: string) {
+    const { data, error } = await supabase
+        .from('matches')
+        .select('id, home_team_id, away_team_id')
+        .eq('competition_id', competitionId)
+        .eq('season_id', seasonId)
+        .in('status', ['live', 'halftime', 'finished']);
+
+    if (error) {
+        throw new Error(`Failed to load matches: ${error.message}`);
+    }
+    return data || [];
+}
+
+/**
+ * Tally goals, assists or cards from match events
+ * position 1/2 on an event is the home/away side
+ */
+async function tallyEvents(
+    type: Exclude<LeaderType, 'rating'>,
+    matches: Array<{ id: string; home_team_id: string | null; away_team_id: string | null }>
+): Promise<Map<string, Tally>> {
+    const eventTypes = type === 'goals' || type === 'assists' ? [EVENT_GOAL, EVENT_PENALTY]
+        : type === 'yellow' ? [EVENT_YELLOW]
+            : [EVENT_RED, EVENT_SECOND_YELLOW];
+    const matchById = new Map(matches.map(m => [m.id, m]));
+    const tallies = new Map<string, Tally>();
+
+    for (const ids of chunk(matches.map(m => m.id), IN_CHUNK_SIZE)) {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from('match_events')
+                .select('match_id, type, position, player_id, player_name, assist1_id, assist1_name')
+                .in('match_id', ids)
+                .in('type', eventTypes)
+                .order('id', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                throw new Error(`Failed to load events: ${error.message}`);
+            }
+
+            for (const event of data || []) {
+                const playerId = type === 'assists' ? event.assist1_id : event.player_id;
+                if (!playerId) continue;
+
+                const match = matchById.get(event.match_id);
+                const teamId = event.position === 1 ? match?.home_team_id : event.position === 2 ? match?.away_team_id : null;
+                const tally = tallies.get(playerId) || {
+                    playerId,
+                    name: (type === 'assists' ? event.assist1_name : event.player_name) || null,
+                    teamId: teamId || null,
+                    value: 0,
+                    matches: new Set<string>(),
+                };
+                tally.value++;
+                tally.matches.add(event.match_id);
+                tallies.set(playerId, tally);
+            }
+            if (!data || data.length < PAGE_SIZE) break;
+        }
+    }
+
+    return tallies;
+}
+
+/**
+ * Average lineup rating per player (value = average, matches = rated appearances)
+ */
+async function tallyRatings(matchIds: string[]): Promise<Map<string, Tally>> {
+    const sums = new Map<string, Tally & { sum: number }>();
+
+    for (const ids of chunk(matchIds, IN_CHUNK_SIZE)) {
+        // ~30 rated players per match - one chunk spans several pages
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from('match_lineups')
+                .select('match_id, player_id, player_name, team_id, rating')
+                .in('match_id', ids)
+                .not('rating', 'is', null)
+                .order('match_id', { ascending: true })
+                .order('player_id', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                throw new Error(`Failed to load ratings: ${error.message}`);
+            }
+
+            for (const row of data || []) {
+                const entry = sums.get(row.player_id) || {
+                    playerId: row.player_id, name: row.player_name, teamId: row.team_id,
+                    value: 0, sum: 0, matches: new Set<string>(),
+                };
+                entry.sum += Number(row.rating);
+                entry.matches.add(row.match_id);
+                sums.set(row.player_id, entry);
+            }
+            if (!data || data.length < PAGE_SIZE) break;
+        }
+    }
+
+    const maxMatches = Math.max(0, ...Array.from(sums.values()).map(s => s.matches.size));
+    const minMatches = Math.max(1, Math.ceil(maxMatches * RATING_MIN_APPEARANCE_SHARE));
+    const tallies = new Map<string, Tally>();
+    for (const [playerId, entry] of sums) {
+        if (entry.matches.size < minMatches) continue;
+        tallies.set(playerId, {
+            ...entry,
+            value: Math.round((entry.sum / entry.matches.size) * 100) / 100,
+        });
+    }
+    return tallies;
+}
+
+/**
+ * TheSports season player stats (null when unavailable)
+ */
+async function fetchUpstreamStats(seasonId: string): Promise<UpstreamPlayerStat[] | null> {
+    try {
+        const result = await theSportsRequest<{ players_stats?: UpstreamPlayerStat[] }>(
+            '/v1/football/season/stats/detail',
+            { uuid: seasonId },
+            { retries: 0 }
+        );
+        return result?.players_stats?.length ? result.players_stats : null;
+    } catch (err) {
+        console.error(`[Leaders] Season stats unavailable for ${seasonId}:`, err);
+        return null;
+    }
+}
+
+function upstreamValue(stat: UpstreamPlayerStat, type: LeaderType): number | null {
+    switch (type) {
+        case 'goals': return stat.goals ?? null;
+        case 'assists': return stat.assists ?? null;
+        case 'yellow': return stat.yellow_cards ?? null;
+        case 'red': return stat.red_cards ?? null;
+        default: return null;
+    }
+}
+
+/**
+ * Leaderboard of a competition's current season
+ */
+export async function getLeaders(
+    competitionId: string,
+    type: LeaderType,
+    limit: number = 20,
+    locale: Locale = DEFAULT_LOCALE
+): Promise<{
+    seasonId: string | null;
+    source: 'local' | 'thesports';
+    leaders: LeaderEntry[];
+    verification: { available: boolean; mismatches: number };
+}> {
+    const season = await getCurrentSeason(competitionId);
+    if (!season) {
+        return { seasonId: null, source: 'local', leaders: [], verification: { available: false, mismatches: 0 } };
+    }
+
+    const matches = await loadSeasonMatches(competitionId, season.seasonId);
+    const [tallies, upstream] = await Promise.all([
+        type === 'rating' ? tallyRatings(matches.map(m => m.id)) : tallyEvents(type, matches),
+        type === 'rating' ? Promise.resolve(null) : fetchUpstreamStats(season.seasonId),
+    ]);
+
+    const upstreamByPlayer = new Map<string, UpstreamPlayerStat>();
+    for (const stat of upstream || []) {
+        const playerId = stat.player?.id || stat.player_id;
+        if (playerId) upstreamByPlayer.set(playerId, stat);
+    }
+
+    // Nothing stored yet (e.g. competition not followed live) - use TheSports' numbers
+    let source: 'local' | 'thesports' = 'local';
+    if (tallies.size === 0 && upstreamByPlayer.size > 0) {
+        source = 'thesports';
+        for (const [playerId, stat] of upstreamByPlayer) {
+            const value = upstreamValue(stat, type);
+            if (!value) continue;
+            tallies.set(playerId, {
+                playerId,
+                name: stat.player?.name || null,
+                teamId: stat.team?.id || stat.team_id || null,
+                value,
+                matches: new Set(),
+            });
+        }
+    }
+
+    const top = Array.from(tallies.values())
+        .sort((a, b) => (b.value - a.value) || (a.matches.size - b.matches.size) || (a.name || '').localeCompare(b.name || ''))
+        .slice(0, limit);
+
+    // Enrich with player photos and team logos
+    const playerIds = top.map(t => t.playerId);
+    const { data: players } = playerIds.length > 0
+        ? await supabase.from('players').select('id, name, photo, team_id').in('id', playerIds)
+        : { data: [] };
+    const playerMap = new Map((players || []).map(p => [p.id, p]));
+
+    const missingTeamIds = top
+        .map(t => t.teamId || playerMap.get(t.playerId)?.team_id)
+        .filter((id): id is string => !!id && !getTeamById(id));
+    const { data: teams } = missingTeamIds.length > 0
+        ? await supabase.from('teams').select('id, name, logo').in('id', Array.from(new Set(missingTeamIds)))
+        : { data: [] };
+    const teamMap = new Map((teams || []).map(t => [t.id, t]));
+
+    let mismatches = 0;
+    let rank = 0;
+    let previousValue: number | null = null;
+
+    const leaders = top.map((tally, idx) => {
+        const player = playerMap.get(tally.playerId);
+        const teamId = tally.teamId || player?.team_id || null;
+        const cachedTeam = teamId ? getTeamById(teamId) : undefined;
+        const dbTeam = teamId ? teamMap.get(teamId) : undefined;
+        const upstreamStat = upstreamByPlayer.get(tally.playerId);
+        const upstream = upstreamStat ? upstreamValue(upstreamStat, type) : null;
+
+        if (source === 'local' && upstream !== null && upstream !== tally.value) mismatches++;
+
+        // Shared ranks for equal values (1, 2, 2, 4)
+        if (tally.value !== previousValue) rank = idx + 1;
+        previousValue = tally.value;
+
+        return {
+            rank,
+            playerId: tally.playerId,
+            player: player?.name || tally.name || getUnknownLabel(locale),
+            photo: player?.photo || upstreamStat?.player?.logo || '',
+            teamId,
+            team: cachedTeam?.name || dbTeam?.name || '',
+            teamLogo: cachedTeam?.logo || dbTeam?.logo || '',
+            value: tally.value,
+            matches: tally.matches.size,
+            upstreamValue: upstream,
+        };
+    });
+
+    return {
+        seasonId: season.seasonId,
+        source,
+        leaders,
+        verification: { available: upstreamByPlayer.size > 0, mismatches },
+    };
+}
+
+export const LeadersService = {
+    getLeaders,
+    LEADER_TYPES,
+};
+
+export default LeadersService;
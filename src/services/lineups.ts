@@ -0,0 +1,152 @@
+/**
+ * Lineups Service
+ * Persists match lineups (incl. player ratings) into match_lineups
+ * so player pages and leaderboards don't need TheSports per request
+ *
+ * Lineups are ingested by the sync path only: before kick-off by the
+ * lineups cron (syncUpcomingLineups) and at full time for final ratings.
+ * GET /api/matches/[id]/lineup reads TheSports but never writes.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { publishDomainEvent } from './domain-events';
+import { theSportsRequest } from './thesports';
+import { getSyncedCompetitionIds } from './tracked-competitions';
+
+// Lineups are usually announced about an hour before kick-off
+const LINEUP_LOOKAHEAD_MS = 75 * 60 * 1000;
+const LINEUP_LOOKBEHIND_MS = 30 * 60 * 1000;
+
+export interface LineupPlayerInput {
+    id: string;
+    name?: string;
+    shirt_number?: number;
+    position?: string;
+    first?: number;
+    captain?: number;
+    rating?: string;
+}
+
+export interface LineupInput {
+    home?: LineupPlayerInput[];
+    away?: LineupPlayerInput[];
+}
+
+/**
+ * Store the lineup of a match (replaces existing rows of the same players)
+ */
+export async function persistMatchLineup(matchId: string, lineup: LineupInput | undefined): Promise<number> {
+    const home = lineup?.home || [];
+    const away = lineup?.away || [];
+    if (home.length === 0 && away.length === 0) return 0;
+
+    const [{ data: match }, { count: storedCount }] = await Promise.all([
+        supabase
+            .from('matches')
+            .select('home_team_id, away_team_id, status')
+            .eq('id', matchId)
+            .maybeSingle(),
+        supabase
+            .from('match_lineups')
+            .select('player_id', { count: 'exact', head: true })
+            .eq('match_id', matchId),
+    ]);
+
+    const toRow = (side: 'home' | 'away') => (player: LineupPlayerInput) => {
+        const rating = player.rating ? parseFloat(player.rating) : NaN;
+        return {
+            match_id: matchId,
+            player_id: player.id,
+            team_id: (side === 'home' ? match?.home_team_id : match?.away_team_id) || null,
+            side,
+            player_name: player.name || null,
+            shirt_number: player.shirt_number ?? null,
+            position: player.position || null,
+            is_starter: player.first === 1,
+            is_captain: player.captain === 1,
+            rating: isNaN(rating) || rating <= 0 ? null : rating,
+            updated_at: new Date().toISOString(),
+        };
+    };
+
+    const rows = [...home.map(toRow('home')), ...away.map(toRow('away'))].filter(r => r.player_id);
+
+    const { error } = await supabase
+        .from('match_lineups')
+        .upsert(rows, { onConflict: 'match_id,player_id' });
+
+    if (error) {
+        console.error(`[Lineups] Upsert error for ${matchId}:`, error.message);
+        return 0;
+    }
+
+    // First lineup stored before full time = lineups announced
+    if (!storedCount && rows.length > 0 && match?.status !== 'finished') {
+        publishDomainEvent('LineupsAnnounced', matchId, {
+            home: rows.filter(r => r.side === 'home').length,
+            away: rows.filter(r => r.side === 'away').length,
+        }, 'sync');
+    }
+    return rows.length;
+}
+
+/**
+ * Fetch the lineup from TheSports and store it (lineups cron and full time ratings)
+ */
+export async function syncMatchLineup(matchId: string): Promise<number> {
+    const detail = await theSportsRequest<{ lineup?: LineupInput }>(
+        '/v1/football/match/lineup/detail',
+        { uuid: matchId }
+    );
+    return persistMatchLineup(matchId, detail?.lineup);
+}
+
+/**
+ * Fetch lineups of matches kicking off soon (or just started) that have none
+ * stored yet - the first stored lineup publishes LineupsAnnounced
+ */
+export async function syncUpcomingLineups(): Promise<{ synced: number; errors: number }> {
+    const now = Date.now();
+    const competitionIds = await getSyncedCompetitionIds();
+
+    const { data: matches, error } = await supabase
+        .from('matches')
+        .select('id, competition_id')
+        .in('status', ['scheduled', 'live'])
+        .gte('start_time', new Date(now - LINEUP_LOOKBEHIND_MS).toISOString())
+        .lte('start_time', new Date(now + LINEUP_LOOKAHEAD_MS).toISOString());
+
+    if (error) {
+        throw new Error(`Failed to read upcoming matches: ${error.message}`);
+    }
+
+    const candidates = (matches || []).filter(m => competitionIds.has(m.competition_id || ''));
+    let synced = 0;
+    let errors = 0;
+
+    for (const match of candidates) {
+        try {
+            const { count, error: countError } = await supabase
+                .from('match_lineups')
+                .select('player_id', { count: 'exact', head: true })
+                .eq('match_id', match.id);
+            if (countError) throw new Error(countError.message);
+            if (count) continue;
+
+            if (await syncMatchLineup(match.id) > 0) synced++;
+        } catch (err) {
+            errors++;
+            console.error(`[Lineups] Sync failed for ${match.id}:`, err);
+        }
+    }
+
+    return { synced, errors };
+}
+
+export const LineupsService = {
+    persistMatchLineup,
+    syncMatchLineup,
+    syncUpcomingLineups,
+};
+
+export default LineupsService;
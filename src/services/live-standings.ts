@@ -0,0 +1,235 @@
+/**
+ * Live Standings Service
+ * Provisional table while matches are in progress: starts from the persisted
+ * standings and applies the current scores of live/halftime matches
+ *
+ * handleMatchUpdate (websocket-service) calls recomputeLiveStandings whenever a
+ * score changes, which refreshes the cached table and pushes a 'standings'
+ * delta to SSE clients.
+ */
+
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from '@/lib/i18n';
+import { DbStanding, supabase } from '@/lib/supabase';
+import { publishLiveDelta } from './live-stream';
+import { buildPromotionLegend, formatStandingRow, getStandings, groupStandingTables } from './standings';
+import { EngineMatch, getTiebreakRules, loadFinishedMatches, rankTeams, TiebreakRule } from './standings-engine';
+
+const LIVE_STATUSES = ['live', 'halftime'];
+const CACHE_TTL_MS = 30 * 1000;
+
+export type Movement = 'up' | 'down' | 'same';
+
+interface LiveMatchRow {
+    id: string;
+    home_team_id: string | null;
+    away_team_id: string | null;
+    home_score: number | null;
+    away_score: number | null;
+    status: string;
+    minute: number | null;
+    start_time: string;
+}
+
+export interface LiveStandingRow extends ReturnType<typeof formatStandingRow> {
+    basePosition: number;
+    positionChange: number;
+    movement: Movement;
+    pointsDelta: number;
+    live: {
+        matchId: string;
+        opponentId: string | null;
+        isHome: boolean;
+        score: string;
+        status: string;
+        minute: number | null;
+    } | null;
+}
+
+export interface LiveStandings {
+    competitionId: string;
+    seasonId: string | null;
+    liveMatches: number;
+    tables: Array<{ group: string | null; standings: LiveStandingRow[] }>;
+    promotions: ReturnType<typeof buildPromotionLegend>;
+    computedAt: string;
+}
+
+// Stored on globalThis so the MQTT handlers and the route handlers share the cache
+// Keyed by competition and locale (zone labels are localized)
+const globalForLive = globalThis as typeof globalThis & { __liveStandings?: Map<string, LiveStandings> };
+const liveCache: Map<string, LiveStandings> = globalForLive.__liveStandings ??= new Map();
+
+/**
+ * Apply live scores to one table and re-rank it
+ * Order: points, then the competition's tiebreak rules (standings-engine) with
+ * the live results counting as played, then the persisted position
+ */
+function applyLiveScores(
+    rows: DbStanding[],
+    liveByTeam: Map<string, LiveMatchRow>,
+    rules: TiebreakRule[],
+    matches: EngineMatch[],
+    locale: Locale
+): LiveStandingRow[] {
+    const provisional = rows.map(row => {
+        const base = formatStandingRow(row, locale);
+        const match = row.team_id ? liveByTeam.get(row.team_id) : undefined;
+        if (!match) {
+            return { row, base, match: null, scored: 0, conceded: 0, pointsDelta: 0 };
+        }
+
+        const isHome = match.home_team_id === row.team_id;
+        const scored = (isHome ? match.home_score : match.away_score) || 0;
+        const conceded = (isHome ? match.away_score : match.home_score) || 0;
+        const pointsDelta = scored > conceded ? 3 : scored === conceded ? 1 : 0;
+        return { row, base, match, scored, conceded, pointsDelta };
+    }).map(entry => {
+        const isHome = entry.match?.home_team_id === entry.row.team_id;
+        return {
+            ...entry,
+            teamId: entry.row.team_id || '',
+            points: (entry.row.points || 0) + entry.pointsDelta,
+            won: (entry.row.won || 0) + (entry.pointsDelta === 3 ? 1 : 0),
+            goalsFor: (entry.row.goals_for || 0) + entry.scored,
+            goalsAgainst: (entry.row.goals_against || 0) + entry.conceded,
+            away: { goalsFor: (entry.row.away_goals_for || 0) + (entry.match && !isHome ? entry.scored : 0) },
+        };
+    });
+
+    const positions = new Map(provisional.map(entry => [entry.teamId, entry.row.position || 0]));
+    const ranked = rankTeams(provisional, rules, matches,
+        (a, b) => (positions.get(a.teamId) ?? 0) - (positions.get(b.teamId) ?? 0));
+
+    return ranked.map((entry, idx) => {
+        const position = idx + 1;
+        const basePosition = entry.row.position || position;
+        const { match } = entry;
+        const isHome = match?.home_team_id === entry.row.team_id;
+        const result = entry.scored > entry.conceded ? 'W' : entry.scored < entry.conceded ? 'L' : 'D';
+
+        return {
+            ...entry.base,
+            position,
+            played: entry.base.played + (match ? 1 : 0),
+            won: entry.base.won + (match && result === 'W' ? 1 : 0),
+            drawn: entry.base.drawn + (match && result === 'D' ? 1 : 0),
+            lost: entry.base.lost + (match && result === 'L' ? 1 : 0),
+            goals: `${entry.goalsFor}:${entry.goalsAgainst}`,
+            goalDiff: entry.goalsFor - entry.goalsAgainst,
+            points: entry.points,
+            basePosition,
+            positionChange: basePosition - position,
+            movement: position < basePosition ? 'up' : position > basePosition ? 'down' : 'same',
+            pointsDelta: entry.pointsDelta,
+            live: match ? {
+                matchId: match.id,
+                opponentId: isHome ? match.away_team_id : match.home_team_id,
+                isHome,
+                score: `${match.home_score || 0}:${match.away_score || 0}`,
+                status: match.status,
+                minute: match.minute,
+            } : null,
+        };
+    });
+}
+
+function cacheKey(competitionId: string, locale: Locale): string {
+    return `${competitionId}:${locale}`;
+}
+
+async function computeLiveStandings(competitionId: string, locale: Locale = DEFAULT_LOCALE): Promise<LiveStandings> {
+    const [{ seasonId, rows }, { data: liveMatches, error }] = await Promise.all([
+        getStandings(competitionId),
+        supabase
+            .from('matches')
+            .select('id, home_team_id, away_team_id, home_score, away_score, status, minute, start_time')
+            .eq('competition_id', competitionId)
+            .in('status', LIVE_STATUSES),
+    ]);
+
+    if (error) {
+        throw new Error(`Failed to read live matches: ${error.message}`);
+    }
+
+    // Head-to-head rules compare finished and live results between the tied teams
+    const rules = getTiebreakRules(competitionId);
+    const finished = seasonId ? await loadFinishedMatches(competitionId, seasonId) : [];
+    const matches: EngineMatch[] = [
+        ...finished,
+        ...((liveMatches || []) as LiveMatchRow[]).map(match => ({ ...match, round_num: null })),
+    ];
+
+    const liveByTeam = new Map<string, LiveMatchRow>();
+    for (const match of (liveMatches || []) as LiveMatchRow[]) {
+        if (match.home_team_id) liveByTeam.set(match.home_team_id, match);
+        if (match.away_team_id) liveByTeam.set(match.away_team_id, match);
+    }
+
+    const live: LiveStandings = {
+        competitionId,
+        seasonId,
+        liveMatches: liveMatches?.length || 0,
+        tables: groupStandingTables(rows).map(table => ({
+            group: table.group,
+            standings: applyLiveScores(table.rows, liveByTeam, rules, matches, locale),
+        })),
+        promotions: buildPromotionLegend(rows, locale),
+        computedAt: new Date().toISOString(),
+    };
+
+    liveCache.set(cacheKey(competitionId, locale), live);
+    return live;
+}
+
+/**
+ * Live table of a competition (cached for CACHE_TTL_MS between score changes)
+ */
+export async function getLiveStandings(competitionId: string, locale: Locale = DEFAULT_LOCALE): Promise<LiveStandings> {
+    const cached = liveCache.get(cacheKey(competitionId, locale));
+    if (cached && Date.now() - new Date(cached.computedAt).getTime() < CACHE_TTL_MS) {
+        return cached;
+    }
+    return computeLiveStandings(competitionId, locale);
+}
+
+/**
+ * Recompute after a score change and notify SSE clients
+ * Only rows that differ from the persisted table are included in the delta
+ */
+export async function recomputeLiveStandings(competitionId: string, matchId: string): Promise<void> {
+    try {
+        // Other locales are recomputed on their next read
+        invalidateLiveStandings(competitionId);
+        const live = await computeLiveStandings(competitionId);
+        const changes = live.tables.flatMap(t => t.standings)
+            .filter(row => row.live || row.movement !== 'same')
+            .map(row => ({
+                teamId: row.teamId,
+                position: row.position,
+                basePosition: row.basePosition,
+                movement: row.movement,
+                points: row.points,
+                pointsDelta: row.pointsDelta,
+            }));
+
+        publishLiveDelta(matchId, 'standings', { competitionId, rows: changes });
+    } catch (error) {
+        console.error(`[Standings] Live recompute failed for ${competitionId}:`, error);
+    }
+}
+
+export function invalidateLiveStandings(competitionId?: string): void {
+    if (competitionId) {
+        for (const locale of SUPPORTED_LOCALES) liveCache.delete(cacheKey(competitionId, locale));
+    } else {
+        liveCache.clear();
+    }
+}
+
+export const LiveStandingsService = {
+    getLiveStandings,
+    recomputeLiveStandings,
+    invalidate: invalidateLiveStandings,
+};
+
+export default LiveStandingsService;
@@ -0,0 +1,226 @@
+/**
+ * Live Stream Service
+ * In-process hub that fans out match deltas from the MQTT handlers
+ * to Server-Sent Events clients (/api/stream/live, /api/stream/matches/[id])
+ * Domain events (goals, red cards, kick-off, ...) arrive as 'event' deltas.
+ *
+ * Every delta gets a monotonically increasing id. The last BUFFER_SIZE deltas
+ * are kept so reconnecting clients can resume via Last-Event-ID; clients that
+ * fell further behind get a 'reset' event and should refetch.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export type LiveDeltaType = 'match' | 'incidents' | 'stats' | 'standings' | 'event';
+
+export interface LiveDelta {
+    id: number;
+    type: LiveDeltaType;
+    matchId: string;
+    data: Record<string, unknown>;
+    at: string;
+}
+
+type LiveListener = (delta: LiveDelta) => void;
+
+const BUFFER_SIZE = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const CLIENT_RETRY_MS = 3000;
+
+interface LiveHub {
+    // Seeded with the boot time so ids keep increasing across restarts
+    nextId: number;
+    buffer: LiveDelta[];
+    listeners: Set<LiveListener>;
+}
+
+// Stored on globalThis: the MQTT handlers (started from instrumentation) and the
+// route handlers can end up in different module instances of the same process
+const globalForHub = globalThis as typeof globalThis & { __liveStreamHub?: LiveHub };
+const hub: LiveHub = globalForHub.__liveStreamHub ??= {
+    nextId: Date.now(),
+    buffer: [],
+    listeners: new Set(),
+};
+
+/**
+ * Publish a delta to all connected clients
+ */
+export function publishLiveDelta(matchId: string, type: LiveDeltaType, data: Record<string, unknown>): LiveDelta {
+    const delta: LiveDelta = {
+        id: hub.nextId++,
+        type,
+        matchId,
+        data,
+        at: new Date().toISOString(),
+    };
+
+    hub.buffer.push(delta);
+    if (hub.buffer.length > BUFFER_SIZE) {
+        hub.buffer.splice(0, hub.buffer.length - BUFFER_SIZE);
+    }
+
+    for (const listener of hub.listeners) {
+        try {
+            listener(delta);
+        } catch (error) {
+            console.error('[Stream] Listener error:', error);
+        }
+    }
+
+    return delta;
+}
+
+export function subscribeLiveDeltas(listener: LiveListener): () => void {
+    hub.listeners.add(listener);
+    return () => {
+        hub.listeners.delete(listener);
+    };
+}
+
+/**
+ * Buffered deltas after lastEventId - null if the id is no longer in the buffer
+ */
+export function getDeltasSince(lastEventId: number): LiveDelta[] | null {
+    // Nothing happened since
+    if (lastEventId >= hub.nextId - 1) return [];
+
+    const oldest = hub.buffer[0];
+    if (!oldest || lastEventId < oldest.id - 1) return null;
+
+    return hub.buffer.filter(delta => delta.id > lastEventId);
+}
+
+export function getStreamClientCount(): number {
+    return hub.listeners.size;
+}
+
+// ============ SSE ============
+
+function formatEvent(event: string, data: unknown, id?: number): string {
+    return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Current state sent when a client connects without a resumable Last-Event-ID
+ */
+async function loadSnapshot(matchId: string | null): Promise<unknown> {
+    let query = supabase
+        .from('matches')
+        .select('id, status, minute, home_score, away_score, updated_at');
+
+    query = matchId
+        ? query.eq('id', matchId)
+        : query.in('status', ['live', 'halftime']);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('[Stream] Snapshot error:', error.message);
+        return [];
+    }
+
+    return (data || []).map(m => ({
+        matchId: m.id,
+        status: m.status,
+        minute: m.minute,
+        score: { home: m.home_score || 0, away: m.away_score || 0 },
+        updatedAt: m.updated_at,
+    }));
+}
+
+/**
+ * Build an SSE response streaming deltas for all matches (matchId = null) or one match
+ * Resume point comes from the Last-Event-ID header or ?lastEventId=
+ */
+export function createLiveStreamResponse(request: Request, matchId: string | null): Response {
+    const url = new URL(request.url);
+    const lastEventHeader = request.headers.get('last-event-id') || url.searchParams.get('lastEventId');
+    const lastEventId = lastEventHeader ? parseInt(lastEventHeader, 10) : NaN;
+
+    const encoder = new TextEncoder();
+    let cleanup = () => { };
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            const send = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    cleanup();
+                }
+            };
+            const matches = (delta: LiveDelta) => !matchId || delta.matchId === matchId;
+
+            // Queue live deltas until the snapshot/backlog has been written
+            const pending: LiveDelta[] = [];
+            let ready = false;
+            const unsubscribe = subscribeLiveDeltas(delta => {
+                if (!matches(delta)) return;
+                if (ready) send(formatEvent(delta.type, delta, delta.id));
+                else pending.push(delta);
+            });
+
+            const heartbeat = setInterval(() => send(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(heartbeat);
+                unsubscribe();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the runtime
+                }
+            };
+            request.signal.addEventListener('abort', () => cleanup());
+
+            send(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+            let lastSentId = -1;
+            const backlog = Number.isFinite(lastEventId) ? getDeltasSince(lastEventId) : null;
+
+            if (backlog) {
+                for (const delta of backlog.filter(matches)) {
+                    send(formatEvent(delta.type, delta, delta.id));
+                    lastSentId = delta.id;
+                }
+            } else {
+                if (Number.isFinite(lastEventId)) {
+                    // Too far behind to resume - client should refetch everything
+                    send(formatEvent('reset', { reason: 'Last-Event-ID no longer available' }));
+                }
+                send(formatEvent('snapshot', { matchId, matches: await loadSnapshot(matchId) }));
+            }
+
+            ready = true;
+            for (const delta of pending) {
+                if (delta.id > lastSentId) send(formatEvent(delta.type, delta, delta.id));
+            }
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
+
+export const LiveStreamService = {
+    publish: publishLiveDelta,
+    subscribe: subscribeLiveDeltas,
+    getDeltasSince,
+    getClientCount: getStreamClientCount,
+    createResponse: createLiveStreamResponse,
+};
+
+export default LiveStreamService;
@@ -0,0 +1,201 @@
+/**
+ * Match Clock Service
+ * One place for the live minute: period, elapsed minute, display minute with
+ * stoppage time ("45+2'", "90+4'", "105+1'") and whether the clock is running
+ *
+ * Input is the MQTT/detail_live score array: [id, statusId, home[], away[], kickoff, ...]
+ * where kickoff is the Unix timestamp of the current period's kick-off
+ * (older payloads send a direct minute, e.g. 67 or "45+2").
+ *
+ * The ticker advances minute for running matches between MQTT messages from
+ * matches.period_started_at and pushes the change to SSE clients.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { publishLiveDelta } from './live-stream';
+
+export type MatchPeriod =
+    | 'not_started'
+    | 'first_half'
+    | 'halftime'
+    | 'second_half'
+    | 'extra_time_first_half'
+    | 'extra_time_second_half'
+    | 'penalties'
+    | 'finished';
+
+export interface MatchClock {
+    period: MatchPeriod | null;
+    running: boolean;
+    minute: number | null;          // elapsed minute incl. stoppage (47 for 45+2)
+    display: string | null;         // "45+2'"
+    periodStartedAt: number | null; // Unix seconds of the period kick-off
+}
+
+const PERIODS: Record<number, MatchPeriod> = {
+    1: 'not_started',
+    2: 'first_half',
+    3: 'halftime',
+    4: 'second_half',
+    5: 'extra_time_first_half',
+    6: 'extra_time_second_half',
+    7: 'penalties',
+    8: 'finished',
+};
+
+// Minute at the start of a running period and its regular end
+const PERIOD_BOUNDS: Partial<Record<MatchPeriod, { start: number; end: number }>> = {
+    first_half: { start: 0, end: 45 },
+    second_half: { start: 45, end: 90 },
+    extra_time_first_half: { start: 90, end: 105 },
+    extra_time_second_half: { start: 105, end: 120 },
+};
+
+// Larger values in the kickoff slot are Unix timestamps, smaller ones minutes
+const TIMESTAMP_THRESHOLD = 1000000000;
+const TICK_INTERVAL_MS = 20 * 1000;
+
+export function periodFromStatusId(statusId: number | null | undefined): MatchPeriod | null {
+    return statusId != null ? PERIODS[statusId] ?? null : null;
+}
+
+/**
+ * "67'" or "45+2'" (minute past the period's regular end)
+ */
+export function formatMinute(minute: number | null, period: MatchPeriod | null): string | null {
+    const bounds = period ? PERIOD_BOUNDS[period] : undefined;
+    if (minute === null || !bounds) return null;
+    return minute > bounds.end ? `${bounds.end}+${minute - bounds.end}'` : `${minute}'`;
+}
+
+/**
+ * Clock of a running period from its kick-off
+ * Official formula: minute = (now - kickoff) / 60 + period offset + 1
+ */
+export function clockFromPeriodStart(period: MatchPeriod | null, periodStartedAt: number, now: number = Date.now()): MatchClock {
+    const bounds = period ? PERIOD_BOUNDS[period] : undefined;
+    if (!bounds) {
+        return { period, running: false, minute: null, display: null, periodStartedAt: null };
+    }
+
+    const elapsed = Math.floor((Math.floor(now / 1000) - periodStartedAt) / 60);
+    const minute = Math.max(bounds.start + 1, elapsed + bounds.start + 1);
+    return { period, running: true, minute, display: formatMinute(minute, period), periodStartedAt };
+}
+
+/**
+ * Parse a direct minute value ("45+2", "67", 12) into an absolute minute
+ * Values up to the period start are relative to the period (12 in the 2nd half = 57)
+ */
+function parseDirectMinute(raw: number | string, start: number): number | null {
+    let minute: number;
+    if (typeof raw === 'string' && raw.includes('+')) {
+        const [base, added] = raw.split('+').map(part => parseInt(part, 10));
+        minute = base + (added || 0);
+    } else {
+        minute = typeof raw === 'string' ? parseInt(raw, 10) : raw;
+        if (!isNaN(minute) && minute <= start) minute += start;
+    }
+    return isNaN(minute) || minute < 0 ? null : Math.max(start + 1, minute);
+}
+
+/**
+ * Clock from a TheSports status ID and the kickoff slot of the score array
+ */
+export function computeClock(
+    statusId: number | null | undefined,
+    kickoff: number | string | null | undefined,
+    now: number = Date.now()
+): MatchClock {
+    const period = periodFromStatusId(statusId);
+    const bounds = period ? PERIOD_BOUNDS[period] : undefined;
+
+    // Not started, half-time, penalties, finished - no minute
+    if (!bounds || kickoff === null || kickoff === undefined || kickoff === '') {
+        return { period, running: !!bounds, minute: null, display: null, periodStartedAt: null };
+    }
+
+    if (typeof kickoff === 'number' && kickoff > TIMESTAMP_THRESHOLD) {
+        return clockFromPeriodStart(period, kickoff, now);
+    }
+
+    const minute = parseDirectMinute(kickoff, bounds.start);
+    if (minute === null) {
+        return { period, running: true, minute: null, display: null, periodStartedAt: null };
+    }
+
+    // Estimated period kick-off so the ticker can keep counting
+    const periodStartedAt = Math.floor(now / 1000) - (minute - bounds.start - 1) * 60;
+    return { period, running: true, minute, display: formatMinute(minute, period), periodStartedAt };
+}
+
+/**
+ * Advance minute/minute_display of running matches from period_started_at
+ * Returns the number of matches whose minute changed
+ */
+export async function tickLiveClocks(now: number = Date.now()): Promise<number> {
+    const { data, error } = await supabase
+        .from('matches')
+        .select('id, minute, period, period_started_at')
+        .eq('status', 'live')
+        .in('period', Object.keys(PERIOD_BOUNDS))
+        .not('period_started_at', 'is', null);
+
+    if (error) {
+        throw new Error(`Failed to read live clocks: ${error.message}`);
+    }
+
+    let advanced = 0;
+    for (const row of data || []) {
+        const startedAt = Math.floor(new Date(row.period_started_at).getTime() / 1000);
+        const clock = clockFromPeriodStart(row.period as MatchPeriod, startedAt, now);
+        // Never move the clock backwards (MQTT may be ahead of our estimate)
+        if (clock.minute === null || (row.minute !== null && clock.minute <= row.minute)) continue;
+
+        const { error: updateError } = await supabase
+            .from('matches')
+            .update({ minute: clock.minute, minute_display: clock.display })
+            .eq('id', row.id)
+            .eq('status', 'live');
+
+        if (updateError) {
+            console.error(`[Clock] Update failed for ${row.id}:`, updateError.message);
+            continue;
+        }
+        publishLiveDelta(row.id, 'match', { minute: clock.minute, minuteDisplay: clock.display });
+        advanced++;
+    }
+
+    return advanced;
+}
+
+// Stored on globalThis so hot reloads don't start a second ticker
+const globalForClock = globalThis as typeof globalThis & { __matchClockTicker?: ReturnType<typeof setInterval> };
+
+export function startClockTicker(): void {
+    if (globalForClock.__matchClockTicker) return;
+
+    globalForClock.__matchClockTicker = setInterval(() => {
+        tickLiveClocks().catch(err => console.error('[Clock] Tick failed:', err));
+    }, TICK_INTERVAL_MS);
+    console.log(`[Clock] Ticker started (${TICK_INTERVAL_MS / 1000}s)`);
+}
+
+export function stopClockTicker(): void {
+    if (globalForClock.__matchClockTicker) {
+        clearInterval(globalForClock.__matchClockTicker);
+        globalForClock.__matchClockTicker = undefined;
+    }
+}
+
+export const MatchClockService = {
+    computeClock,
+    clockFromPeriodStart,
+    formatMinute,
+    periodFromStatusId,
+    tickLiveClocks,
+    startClockTicker,
+    stopClockTicker,
+};
+
+export default MatchClockService;
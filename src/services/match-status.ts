@@ -0,0 +1,123 @@
+/**
+ * Match Status Service
+ * Canonical mapping of TheSports status IDs to matches.status and the
+ * allowed transitions between statuses
+ *
+ * Every writer (daily/live sync, MQTT handler, admin routes) goes through
+ * resolveStatusTransition so stale or out-of-order upstream data can't move a
+ * match backwards (e.g. finished -> scheduled). Rejected transitions are logged;
+ * admins can force them.
+ */
+
+export const MATCH_STATUSES = [
+    'scheduled',
+    'live',
+    'halftime',
+    'finished',
+    'postponed',
+    'suspended',
+    'cancelled',
+] as const;
+export type MatchStatus = typeof MATCH_STATUSES[number];
+
+export type StatusSource = 'sync' | 'live-sync' | 'mqtt' | 'admin';
+
+// OFFICIAL TheSports status IDs
+// 0 (Abnormal) is deliberately unmapped: it carries no usable state, so the
+// stored status is kept (new matches start as scheduled)
+const THESPORTS_STATUS: Record<number, MatchStatus> = {
+    1: 'scheduled',   // Not started
+    2: 'live',        // First half
+    3: 'halftime',    // Half-time
+    4: 'live',        // Second half
+    5: 'live',        // Overtime
+    6: 'live',        // Overtime (deprecated)
+    7: 'live',        // Penalty shoot-out
+    8: 'finished',    // End
+    9: 'postponed',   // Delay
+    10: 'suspended',  // Interrupt
+    11: 'suspended',  // Cut in half
+    12: 'cancelled',  // Cancel
+    13: 'scheduled',  // To be determined
+};
+
+// Legacy values written by older mappings
+const LEGACY_STATUS: Record<string, MatchStatus> = {
+    interrupted: 'suspended',
+};
+
+// Allowed next statuses (staying in the same status is always allowed)
+// finished is terminal - only an admin can reopen a match
+const TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+    scheduled: ['live', 'halftime', 'finished', 'postponed', 'suspended', 'cancelled'],
+    live: ['halftime', 'finished', 'suspended', 'cancelled'],
+    halftime: ['live', 'finished', 'suspended', 'cancelled'],
+    suspended: ['live', 'halftime', 'finished', 'scheduled', 'postponed', 'cancelled'],
+    postponed: ['scheduled', 'live', 'halftime', 'finished', 'cancelled'],
+    cancelled: ['scheduled', 'postponed'],
+    finished: [],
+};
+
+export function isMatchStatus(value: unknown): value is MatchStatus {
+    return typeof value === 'string' && (MATCH_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * matches.status for a TheSports status ID, null when it carries no state
+ */
+export function statusFromTheSports(statusId: number | null | undefined): MatchStatus | null {
+    return statusId != null ? THESPORTS_STATUS[statusId] ?? null : null;
+}
+
+/**
+ * Canonical status of a stored value (legacy values mapped, unknown -> null)
+ */
+export function normalizeStatus(value: string | null | undefined): MatchStatus | null {
+    if (!value) return null;
+    if (isMatchStatus(value)) return value;
+    return LEGACY_STATUS[value] ?? null;
+}
+
+export function isTransitionAllowed(from: MatchStatus, to: MatchStatus): boolean {
+    return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Status to write for a match given its stored status and the incoming one
+ * Rejected transitions keep the stored status and are logged; force (admin)
+ * skips the check. A null incoming status keeps the stored one.
+ */
+export function resolveStatusTransition(
+    matchId: string,
+    current: string | null | undefined,
+    next: MatchStatus | null,
+    source: StatusSource,
+    options: { force?: boolean } = {}
+): { status: MatchStatus; allowed: boolean } {
+    const from = normalizeStatus(current);
+
+    if (!next) {
+        return { status: from ?? 'scheduled', allowed: true };
+    }
+    // New match or unknown stored value - nothing to protect
+    if (!from || options.force || isTransitionAllowed(from, next)) {
+        if (options.force && from && !isTransitionAllowed(from, next)) {
+            console.log(`[Status] Match ${matchId}: forced ${from} -> ${next} (${source})`);
+        }
+        return { status: next, allowed: true };
+    }
+
+    console.warn(`[Status] Match ${matchId}: rejected ${from} -> ${next} (${source})`);
+    return { status: from, allowed: false };
+}
+
+export const MatchStatusService = {
+    MATCH_STATUSES,
+    isMatchStatus,
+    statusFromTheSports,
+    normalizeStatus,
+    isTransitionAllowed,
+    resolveStatusTransition,
+};
+
+export default MatchStatusService;
@@ -0,0 +1,232 @@
+/**
+ * MQTT Journal
+ * Appends every received match update to the mqtt_journal table and
+ * replays a match's journal through the live handlers
+ *
+ * Writes are buffered and flushed in batches so a busy matchday does not
+ * turn into one insert per message. Journal failures are logged, never thrown.
+ *
+ * MQTT_JOURNAL=off                  → disable journaling
+ * MQTT_JOURNAL_RETENTION_DAYS=14    → entries older than this are pruned
+ */
+
+import { DbMqttJournalEntry, supabase } from '@/lib/supabase';
+import { runAsReplay } from './domain-events';
+
+const JOURNAL_TABLE = 'mqtt_journal';
+const FLUSH_INTERVAL_MS = 2000;
+const MAX_BUFFER_SIZE = 200;
+const READ_PAGE_SIZE = 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const RETENTION_DAYS = parseInt(process.env.MQTT_JOURNAL_RETENTION_DAYS || '14', 10);
+
+type JournalRow = Omit<DbMqttJournalEntry, 'id'>;
+
+let buffer: JournalRow[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let lastPruneAt = 0;
+
+export function isJournalEnabled(): boolean {
+    return (process.env.MQTT_JOURNAL || '').toLowerCase() !== 'off';
+}
+
+/**
+ * Append a parsed MQTT message - one row per match update it contains
+ */
+export function journalMessage(topic: string, data: unknown, receivedAt: Date = new Date()): void {
+    if (!isJournalEnabled()) return;
+
+    const updates = Array.isArray(data) ? data : [data];
+    for (const update of updates) {
+        const matchId = (update as { id?: unknown } | null)?.id;
+        if (typeof matchId !== 'string' || !matchId) continue;
+
+        buffer.push({
+            match_id: matchId,
+            topic,
+            payload: update as Record<string, unknown>,
+            received_at: receivedAt.toISOString(),
+        });
+    }
+
+    if (buffer.length >= MAX_BUFFER_SIZE) {
+        void flushJournal();
+    } else if (!flushTimer && buffer.length > 0) {
+        flushTimer = setTimeout(() => {
+            flushTimer = null;
+            void flushJournal();
+        }, FLUSH_INTERVAL_MS);
+    }
+}
+
+/**
+ * Write buffered entries to the database
+ */
+export async function flushJournal(): Promise<void> {
+    if (flushing) await flushing;
+    if (buffer.length === 0) return;
+
+    const rows = buffer;
+    buffer = [];
+
+    flushing = (async () => {
+        const { error } = await supabase.from(JOURNAL_TABLE).insert(rows);
+        if (error) {
+            console.error(`[Journal] Failed to write ${rows.length} entries:`, error.message);
+        }
+        await pruneJournalIfDue();
+    })();
+
+    try {
+        await flushing;
+    } finally {
+        flushing = null;
+    }
+}
+
+/**
+ * Delete entries older than the retention window (at most once per hour)
+ */
+async function pruneJournalIfDue(): Promise<void> {
+    if (Date.now() - lastPruneAt < PRUNE_INTERVAL_MS) return;
+    lastPruneAt = Date.now();
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error } = await supabase.from(JOURNAL_TABLE).delete().lt('received_at', cutoff);
+    if (error) {
+        console.error('[Journal] Prune failed:', error.message);
+    }
+}
+
+/**
+ * Read a match's journal in receive order
+ */
+export async function getMatchJournal(
+    matchId: string,
+    options: { from?: string; to?: string } = {}
+): Promise<DbMqttJournalEntry[]> {
+    // Make sure entries still sitting in the buffer are visible
+    await flushJournal();
+
+    const entries: DbMqttJournalEntry[] = [];
+
+    for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+        let query = supabase
+            .from(JOURNAL_TABLE)
+            .select('id, match_id, topic, payload, received_at')
+            .eq('match_id', matchId);
+
+        if (options.from) query = query.gte('received_at', options.from);
+        if (options.to) query = query.lte('received_at', options.to);
+
+        const { data, error } = await query
+            .order('received_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(offset, offset + READ_PAGE_SIZE - 1);
+
+        if (error) {
+            throw new Error(`Failed to read journal for ${matchId}: ${error.message}`);
+        }
+
+        entries.push(...((data || []) as DbMqttJournalEntry[]));
+        if (!data || data.length < READ_PAGE_SIZE) break;
+    }
+
+    return entries;
+}
+
+export interface ReplayResult {
+    matchId: string;
+    entries: number;
+    replayed: number;
+    reset: boolean;
+    firstReceivedAt: string | null;
+    lastReceivedAt: string | null;
+}
+
+/**
+ * Replay a match's journal through the live MQTT handlers
+ *
+ * With reset, match_events and match_stats are cleared and the match goes back
+ * to a scheduled 0-0 without clock first - otherwise the stale-update guard
+ * would reject early messages whose score is lower than the current one, and
+ * the status transition guard every live/halftime message of a finished match.
+ * Reset is the default for a full replay and not allowed with from/to (a window
+ * can't rebuild the match it wiped).
+ *
+ * The live minute of each entry is computed for its received_at, not for now.
+ */
+export async function replayMatchJournal(
+    matchId: string,
+    options: { reset?: boolean; from?: string; to?: string } = {}
+): Promise<ReplayResult> {
+    // Imported lazily: websocket-service imports this module for journaling
+    const { processMqttPayload } = await import('./websocket-service');
+
+    const windowed = !!options.from || !!options.to;
+    if (windowed && options.reset) {
+        throw new Error('reset is only possible when replaying the whole journal (without from/to)');
+    }
+
+    const entries = await getMatchJournal(matchId, options);
+    const reset = options.reset ?? !windowed;
+
+    if (entries.length > 0 && reset) {
+        console.log(`[Journal] Resetting match ${matchId} before replay`);
+
+        const [eventsResult, statsResult, matchResult] = await Promise.all([
+            supabase.from('match_events').delete().eq('match_id', matchId),
+            supabase.from('match_stats').delete().eq('match_id', matchId),
+            supabase
+                .from('matches')
+                .update({
+                    status: 'scheduled',
+                    home_score: 0,
+                    away_score: 0,
+                    minute: null,
+                    minute_display: null,
+                    period: null,
+                    period_started_at: null,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', matchId),
+        ]);
+
+        const resetError = eventsResult.error || statsResult.error || matchResult.error;
+        if (resetError) {
+            throw new Error(`Failed to reset match ${matchId}: ${resetError.message}`);
+        }
+    }
+
+    console.log(`[Journal] Replaying ${entries.length} entries for match ${matchId}`);
+
+    let replayed = 0;
+    await runAsReplay(async () => {
+        for (const entry of entries) {
+            await processMqttPayload(entry.payload, new Date(entry.received_at));
+            replayed++;
+        }
+    });
+
+    console.log(`[Journal] ✓ Replayed ${replayed} entries for match ${matchId}`);
+
+    return {
+        matchId,
+        entries: entries.length,
+        replayed,
+        reset: reset && entries.length > 0,
+        firstReceivedAt: entries[0]?.received_at ?? null,
+        lastReceivedAt: entries[entries.length - 1]?.received_at ?? null,
+    };
+}
+
+export const MqttJournal = {
+    journal: journalMessage,
+    flush: flushJournal,
+    getMatchJournal,
+    replayMatch: replayMatchJournal,
+    isEnabled: isJournalEnabled,
+};
+
+export default MqttJournal;
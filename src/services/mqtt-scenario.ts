@@ -0,0 +1,195 @@
+/**
+ * MQTT Scenario Player
+ * Feeds scripted thesports/football/match/v1 messages into the live pipeline
+ * (handleMatchUpdate / handleIncidentsMessage / handleStatsMessage) without a live subscription
+ *
+ * Targets:
+ *   direct    → calls processMqttPayload() and awaits every step (deterministic, default)
+ *   transport → publishes through the active transport (memory emitter or local broker)
+ */
+
+import { readFile } from 'fs/promises';
+import { runAsReplay } from './domain-events';
+import { getMqttTransport, processMqttPayload } from './websocket-service';
+
+export const MATCH_TOPIC = 'thesports/football/match/v1';
+
+export interface ScenarioStep {
+    /** Wait before this step in ms of match time (scaled by speed) */
+    delayMs?: number;
+    /** Shown in logs and results */
+    label?: string;
+    /** Defaults to thesports/football/match/v1 */
+    topic?: string;
+    /** Message body exactly as TheSports would send it (object or array of updates) */
+    payload: unknown;
+}
+
+export interface MqttScenario {
+    name: string;
+    description?: string;
+    steps: ScenarioStep[];
+}
+
+export interface PlayScenarioOptions {
+    target?: 'direct' | 'transport';
+    /** Time compression: 1 = real time, 60 = one match minute per second, 0 = no waiting */
+    speed?: number;
+}
+
+export interface ScenarioResult {
+    name: string;
+    target: 'direct' | 'transport';
+    stepsPlayed: number;
+    durationMs: number;
+    errors: { step: number; label?: string; error: string }[];
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Play a scenario step by step
+ * A failing step is recorded and the scenario continues, like a live feed would
+ */
+export async function playScenario(scenario: MqttScenario, options: PlayScenarioOptions = {}): Promise<ScenarioResult> {
+    const target = options.target ?? 'direct';
+    const speed = options.speed ?? 0;
+    const startedAt = Date.now();
+    const errors: ScenarioResult['errors'] = [];
+
+    const transport = target === 'transport' ? getMqttTransport() : null;
+    if (target === 'transport' && !transport?.isConnected()) {
+        throw new Error('No connected MQTT transport - set THESPORTS_MQTT_TRANSPORT=memory|broker and connect first');
+    }
+
+    console.log(`[Scenario] Playing "${scenario.name}" (${scenario.steps.length} steps, target=${target}, speed=${speed})`);
+
+    // Events are marked as replay so no push notifications go out
+    // (messages that come back from an external broker are not covered)
+    await runAsReplay(async () => {
+        for (let i = 0; i < scenario.steps.length; i++) {
+            const step = scenario.steps[i];
+
+            if (speed > 0 && step.delayMs) {
+                await sleep(step.delayMs / speed);
+            }
+
+            try {
+                if (transport) {
+                    await transport.publish(step.topic || MATCH_TOPIC, step.payload);
+                } else {
+                    await processMqttPayload(step.payload);
+                }
+                console.log(`[Scenario] ✓ Step ${i + 1}/${scenario.steps.length}${step.label ? `: ${step.label}` : ''}`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`[Scenario] Step ${i + 1} failed:`, message);
+                errors.push({ step: i + 1, label: step.label, error: message });
+            }
+        }
+    });
+
+    return {
+        name: scenario.name,
+        target,
+        stepsPlayed: scenario.steps.length,
+        durationMs: Date.now() - startedAt,
+        errors,
+    };
+}
+
+/**
+ * Load a scenario from a JSON file
+ */
+export async function loadScenarioFile(filePath: string): Promise<MqttScenario> {
+    const scenario = JSON.parse(await readFile(filePath, 'utf8')) as MqttScenario;
+    if (!scenario || !Array.isArray(scenario.steps)) {
+        throw new Error(`Invalid scenario file: ${filePath}`);
+    }
+    return scenario;
+}
+
+// ============ Built-in scenarios ============
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Score array as sent by TheSports:
+ * [matchId, statusId, homeScores[], awayScores[], minute/kickoff, extra]
+ * Scores: [regular, halftime, red, yellow, corners, overtime, penalties]
+ */
+function scoreArray(
+    matchId: string,
+    statusId: number,
+    home: number[],
+    away: number[],
+    minute: number
+): unknown[] {
+    return [matchId, statusId, home, away, minute, ''];
+}
+
+function scenarioPlayer(side: 'home' | 'away', shirt: number): string {
+    return `${side === 'home' ? 'Home' : 'Away'} Player ${shirt}`;
+}
+
+/**
+ * A complete 90-minute match timeline for one match:
+ * kickoff, stats, goal, duplicate + stale payloads, cards, halftime,
+ * equaliser cancelled by VAR, red card and full time
+ */
+export function buildFullMatchScenario(matchId: string): MqttScenario {
+    const goalHome = { type: 1, time: 23, position: 1, player_name: scenarioPlayer('home', 9), home_score: 1, away_score: 0 };
+    const yellowAway = { type: 3, time: 38, position: 2, player_name: scenarioPlayer('away', 4) };
+    const goalAway = { type: 1, time: 61, position: 2, player_name: scenarioPlayer('away', 11), home_score: 1, away_score: 1 };
+    const varCancel = { type: 28, time: 63, position: 2, var_reason: 1, var_result: 2 };
+    const redAway = { type: 4, time: 78, position: 2, player_name: scenarioPlayer('away', 4) };
+
+    return {
+        name: 'full-match',
+        description: `Scripted 90-minute timeline for match ${matchId}`,
+        steps: [
+            { label: 'Pre-match', payload: [{ id: matchId, score: scoreArray(matchId, 1, [0, 0, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0, 0], 0) }] },
+            { label: 'Kick-off', delayMs: 5 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 2, [0, 0, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0, 0], 1) }] },
+            {
+                label: 'Stats 15\'', delayMs: 14 * MINUTE_MS, payload: [{
+                    id: matchId,
+                    score: scoreArray(matchId, 2, [0, 0, 0, 0, 2, 0, 0], [0, 0, 0, 0, 1, 0, 0], 15),
+                    stats: [{ type: 1, home: 58, away: 42 }, { type: 2, home: 3, away: 1 }, { type: 5, home: 2, away: 1 }],
+                }],
+            },
+            { label: 'Goal 1-0', delayMs: 8 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 2, [1, 0, 0, 0, 2, 0, 0], [0, 0, 0, 0, 1, 0, 0], 23), incidents: [goalHome] }] },
+            { label: 'Duplicate goal payload', payload: [{ id: matchId, score: scoreArray(matchId, 2, [1, 0, 0, 0, 2, 0, 0], [0, 0, 0, 0, 1, 0, 0], 23), incidents: [goalHome] }] },
+            { label: 'Stale 0-0 payload (must be ignored)', delayMs: MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 2, [0, 0, 0, 0, 2, 0, 0], [0, 0, 0, 0, 1, 0, 0], 22) }] },
+            { label: 'Yellow card', delayMs: 14 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 2, [1, 0, 0, 0, 3, 0, 0], [0, 0, 0, 1, 2, 0, 0], 38), incidents: [goalHome, yellowAway] }] },
+            { label: 'Half-time', delayMs: 9 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 3, [1, 1, 0, 0, 3, 0, 0], [0, 0, 0, 1, 2, 0, 0], 45) }] },
+            { label: 'Second half', delayMs: 15 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 4, [1, 1, 0, 0, 3, 0, 0], [0, 0, 0, 1, 2, 0, 0], 1) }] },
+            { label: 'Goal 1-1', delayMs: 15 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 4, [1, 1, 0, 0, 4, 0, 0], [1, 0, 0, 1, 3, 0, 0], 16), incidents: [goalHome, yellowAway, goalAway] }] },
+            // Incidents arrive before the corrected score, as they do live
+            { label: 'VAR: goal cancelled', delayMs: 2 * MINUTE_MS, payload: [{ id: matchId, incidents: [goalHome, yellowAway, goalAway, varCancel] }] },
+            { label: 'Score back to 1-0', payload: [{ id: matchId, score: scoreArray(matchId, 4, [1, 1, 0, 0, 4, 0, 0], [0, 0, 0, 1, 3, 0, 0], 18) }] },
+            { label: 'Red card (second yellow)', delayMs: 15 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 4, [1, 1, 0, 0, 5, 0, 0], [0, 0, 1, 1, 3, 0, 0], 33), incidents: [goalHome, yellowAway, goalAway, varCancel, redAway] }] },
+            {
+                label: 'Stats 90\'', delayMs: 12 * MINUTE_MS, payload: [{
+                    id: matchId,
+                    score: scoreArray(matchId, 4, [1, 1, 0, 0, 6, 0, 0], [0, 0, 1, 1, 4, 0, 0], 45),
+                    stats: [{ type: 1, home: 61, away: 39 }, { type: 2, home: 12, away: 7 }, { type: 3, home: 5, away: 2 }, { type: 5, home: 6, away: 4 }],
+                }],
+            },
+            { label: 'Full time', delayMs: 4 * MINUTE_MS, payload: [{ id: matchId, score: scoreArray(matchId, 8, [1, 1, 0, 0, 6, 0, 0], [0, 0, 1, 1, 4, 0, 0], 0) }] },
+        ],
+    };
+}
+
+export const BUILTIN_SCENARIOS: Record<string, (matchId: string) => MqttScenario> = {
+    'full-match': buildFullMatchScenario,
+};
+
+export const MqttScenarioPlayer = {
+    play: playScenario,
+    loadFile: loadScenarioFile,
+    buildFullMatch: buildFullMatchScenario,
+};
+
+export default MqttScenarioPlayer;
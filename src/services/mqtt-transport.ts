@@ -0,0 +1,249 @@
+/**
+ * MQTT Transports
+ * Abstracts where live match messages come from so the WebSocket service
+ * can run against TheSports, a local broker or an in-process emitter
+ *
+ * Selected with THESPORTS_MQTT_TRANSPORT:
+ *   thesports (default) → wss://mq.thesports.com with API credentials
+ *   broker              → any MQTT broker at THESPORTS_MQTT_URL (e.g. mqtt://localhost:1883)
+ *   memory              → in-process emitter, fed by publish() / the scenario player
+ */
+
+import { EventEmitter } from 'events';
+import mqtt, { IClientOptions, MqttClient } from 'mqtt';
+
+const MQTT_HOST = process.env.THESPORTS_MQTT_HOST || 'mq.thesports.com';
+const MQTT_PORT = process.env.THESPORTS_MQTT_PORT || '8084';
+const USERNAME = process.env.THESPORTS_USERNAME || '';
+const API_KEY = process.env.THESPORTS_API_KEY || '';
+
+export type MqttMessageHandler = (topic: string, payload: Buffer) => void;
+
+export type MqttTransportKind = 'thesports' | 'broker' | 'memory';
+
+export interface MqttTransport {
+    readonly kind: MqttTransportKind;
+    /** Resolves once subscribed (or gives up after the connect timeout) */
+    connect(topics: string[], onMessage: MqttMessageHandler): Promise<void>;
+    disconnect(): Promise<void>;
+    isConnected(): boolean;
+    /** Inject a message - supported by broker and memory transports */
+    publish(topic: string, payload: unknown): Promise<void>;
+}
+
+// Give up waiting for the initial connection after this long (reconnects continue in the background)
+const CONNECT_TIMEOUT_MS = 10000;
+
+function toBuffer(payload: unknown): Buffer {
+    if (Buffer.isBuffer(payload)) return payload;
+    return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+// ============ Broker (TheSports or local) ============
+
+class BrokerTransport implements MqttTransport {
+    private client: MqttClient | null = null;
+    private isConnecting = false;
+
+    constructor(
+        readonly kind: 'thesports' | 'broker',
+        private readonly url: string,
+        private readonly options: IClientOptions
+    ) { }
+
+    connect(topics: string[], onMessage: MqttMessageHandler): Promise<void> {
+        return new Promise((resolve) => {
+            if (this.client?.connected) {
+                console.log('[WS] Already connected');
+                resolve();
+                return;
+            }
+
+            if (this.isConnecting) {
+                console.log('[WS] Connection already in progress');
+                resolve();
+                return;
+            }
+
+            this.isConnecting = true;
+            console.log(`[WS] Connecting to ${this.url}...`);
+
+            const client = mqtt.connect(this.url, {
+                clientId: `es-livescore-${Date.now()}`,
+                clean: true,
+                reconnectPeriod: 5000,
+                connectTimeout: 30000,
+                protocolVersion: 4,
+                ...this.options,
+            });
+            this.client = client;
+
+            client.on('connect', () => {
+                console.log(`[WS] Connected to ${this.kind === 'thesports' ? 'TheSports MQTT' : this.url}!`);
+                this.isConnecting = false;
+
+                topics.forEach(topic => {
+                    client.subscribe(topic, { qos: 1 }, (err) => {
+                        if (err) {
+                            console.error(`[WS] Failed to subscribe to ${topic}:`, err);
+                        } else {
+                            console.log(`[WS] Subscribed to ${topic}`);
+                        }
+                    });
+                });
+
+                resolve();
+            });
+
+            client.on('message', onMessage);
+
+            client.on('error', (error) => {
+                console.error('[WS] Connection error:', error);
+                this.isConnecting = false;
+            });
+
+            client.on('close', () => {
+                console.log('[WS] Connection closed');
+                this.isConnecting = false;
+            });
+
+            client.on('reconnect', () => {
+                console.log('[WS] Reconnecting...');
+            });
+
+            // Timeout if connection takes too long
+            setTimeout(() => {
+                if (this.isConnecting) {
+                    this.isConnecting = false;
+                    console.warn('[WS] Connection timeout - continuing with HTTP polling');
+                    resolve();
+                }
+            }, CONNECT_TIMEOUT_MS);
+        });
+    }
+
+    disconnect(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.client) {
+                resolve();
+                return;
+            }
+            this.client.end(true, {}, () => {
+                console.log('[WS] Disconnected');
+                this.client = null;
+                resolve();
+            });
+        });
+    }
+
+    isConnected(): boolean {
+        return this.client?.connected || false;
+    }
+
+    publish(topic: string, payload: unknown): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this.kind === 'thesports') {
+                reject(new Error('Publishing to the TheSports broker is not supported'));
+                return;
+            }
+            if (!this.client?.connected) {
+                reject(new Error(`Not connected to ${this.url}`));
+                return;
+            }
+            this.client.publish(topic, toBuffer(payload), { qos: 1 }, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+}
+
+// ============ In-process emitter ============
+
+class MemoryTransport implements MqttTransport {
+    readonly kind = 'memory' as const;
+    private readonly emitter = new EventEmitter();
+    private topics = new Set<string>();
+    private handler: MqttMessageHandler | null = null;
+
+    async connect(topics: string[], onMessage: MqttMessageHandler): Promise<void> {
+        if (this.handler) this.emitter.off('message', this.handler);
+        this.topics = new Set(topics);
+        this.handler = onMessage;
+        this.emitter.on('message', onMessage);
+        console.log(`[WS] In-process transport ready (${topics.join(', ')})`);
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.handler) this.emitter.off('message', this.handler);
+        this.handler = null;
+        console.log('[WS] Disconnected');
+    }
+
+    isConnected(): boolean {
+        return this.handler !== null;
+    }
+
+    async publish(topic: string, payload: unknown): Promise<void> {
+        if (!this.topics.has(topic)) return;
+        this.emitter.emit('message', topic, toBuffer(payload));
+    }
+}
+
+// ============ Factory ============
+
+/**
+ * TheSports production broker - null when credentials are missing
+ */
+export function createTheSportsTransport(): MqttTransport | null {
+    if (!USERNAME || !API_KEY) {
+        console.warn('[WS] MQTT credentials not configured. Skipping WebSocket connection.');
+        return null;
+    }
+
+    return new BrokerTransport('thesports', `wss://${MQTT_HOST}:${MQTT_PORT}/mqtt`, {
+        username: USERNAME,
+        password: API_KEY,
+        // Skip SSL certificate verification (TheSports uses a cert that can't be verified)
+        rejectUnauthorized: false,
+    });
+}
+
+/**
+ * Any MQTT broker, e.g. a local mosquitto used for testing
+ */
+export function createBrokerTransport(url: string, options: IClientOptions = {}): MqttTransport {
+    return new BrokerTransport('broker', url, options);
+}
+
+export function createMemoryTransport(): MqttTransport {
+    return new MemoryTransport();
+}
+
+/**
+ * Build the transport configured via THESPORTS_MQTT_TRANSPORT
+ */
+export function createTransportFromEnv(): MqttTransport | null {
+    const kind = (process.env.THESPORTS_MQTT_TRANSPORT || 'thesports').toLowerCase();
+
+    if (kind === 'memory') return createMemoryTransport();
+
+    if (kind === 'broker') {
+        const url = process.env.THESPORTS_MQTT_URL || 'mqtt://localhost:1883';
+        return createBrokerTransport(url, {
+            username: process.env.THESPORTS_MQTT_USERNAME || undefined,
+            password: process.env.THESPORTS_MQTT_PASSWORD || undefined,
+        });
+    }
+
+    return createTheSportsTransport();
+}
+
+export const MqttTransports = {
+    createTheSportsTransport,
+    createBrokerTransport,
+    createMemoryTransport,
+    createTransportFromEnv,
+};
+
+export default MqttTransports;
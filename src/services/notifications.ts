@@ -0,0 +1,551 @@
+/**
+ * Notifications Service
+ * Devices, subscriptions (teams, matches, competitions) and per-event
+ * preferences of app users, and the push dispatcher that turns domain events
+ * (GoalScored, RedCard, KickOff, ...) into notifications
+ *
+ * De-duplication: every notification has a dedup key (e.g. goal:<matchId>:<event_key>)
+ * and is claimed per device in notification_deliveries before it is sent, so
+ * repeated MQTT payloads or several instances never alert twice. A goal
+ * cancelled by VAR sends a correction to the devices that got the goal alert
+ * (same collapse key, so it replaces the alert) instead of a second alert.
+ * Replayed events (journal replay, scenarios) never notify.
+ */
+
+import { formatNotification, isLocale, Locale, NotificationTextKey } from '@/lib/i18n';
+import { DbNotificationDevice, DbNotificationSubscription, supabase } from '@/lib/supabase';
+import { DomainEvent, MatchScore, MatchSide } from './domain-events';
+import { IncidentRow } from './incidents';
+import { createPushProviderFromEnv, PushDevice, PushMessage, PushPlatform, PushProvider } from './push-providers';
+import { isValidEntityId } from './teams';
+
+export const NOTIFICATION_EVENTS = ['goal', 'red_card', 'kick_off', 'half_time', 'full_time', 'lineups'] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+// Used when a user never saved preferences
+export const DEFAULT_NOTIFICATION_EVENTS: NotificationEvent[] = ['goal', 'red_card', 'kick_off', 'full_time'];
+
+export const SUBSCRIPTION_TARGETS = ['team', 'match', 'competition'] as const;
+export type SubscriptionTarget = typeof SUBSCRIPTION_TARGETS[number];
+
+export const PUSH_PLATFORMS: PushPlatform[] = ['android', 'ios', 'web'];
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+    return typeof value === 'string' && (NOTIFICATION_EVENTS as readonly string[]).includes(value);
+}
+
+export function isSubscriptionTarget(value: unknown): value is SubscriptionTarget {
+    return typeof value === 'string' && (SUBSCRIPTION_TARGETS as readonly string[]).includes(value);
+}
+
+export function isPushPlatform(value: unknown): value is PushPlatform {
+    return typeof value === 'string' && (PUSH_PLATFORMS as string[]).includes(value);
+}
+
+// ============ DEVICES ============
+
+export interface DeviceInput {
+    platform: PushPlatform;
+    token: string;
+    webPushKeys?: { p256dh: string; auth: string } | null;
+    locale?: Locale;
+}
+
+/**
+ * Only the holder of a web subscription knows its keys - same endpoint with
+ * the same keys proves ownership. App tokens carry no such proof.
+ */
+function isSameSubscription(existing: Pick<DbNotificationDevice, 'platform' | 'web_push_keys'>, input: DeviceInput): boolean {
+    return existing.platform === 'web' && input.platform === 'web'
+        && !!existing.web_push_keys && !!input.webPushKeys
+        && existing.web_push_keys.p256dh === input.webPushKeys.p256dh
+        && existing.web_push_keys.auth === input.webPushKeys.auth;
+}
+
+/**
+ * Register a device token (tokens are unique across users) - null when the
+ * token belongs to another user and the caller cannot prove ownership
+ */
+export async function registerDevice(userId: string, input: DeviceInput): Promise<DbNotificationDevice | null> {
+    const { data: existing, error: lookupError } = await supabase
+        .from('notification_devices')
+        .select('user_id, platform, web_push_keys')
+        .eq('token', input.token)
+        .maybeSingle();
+
+    if (lookupError) {
+        throw new Error(`Failed to look up device: ${lookupError.message}`);
+    }
+    if (existing && existing.user_id !== userId && !isSameSubscription(existing, input)) {
+        console.warn(`[Push] Refused to move a ${existing.platform} device to user ${userId}`);
+        return null;
+    }
+
+    const { data, error } = await supabase
+        .from('notification_devices')
+        .upsert({
+            user_id: userId,
+            platform: input.platform,
+            token: input.token,
+            web_push_keys: input.webPushKeys ?? null,
+            locale: input.locale ?? 'de',
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'token' })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to register device: ${error?.message || 'no row returned'}`);
+    }
+    return data as DbNotificationDevice;
+}
+
+export async function listDevices(userId: string): Promise<DbNotificationDevice[]> {
+    const { data, error } = await supabase
+        .from('notification_devices')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to list devices: ${error.message}`);
+    }
+    return (data || []) as DbNotificationDevice[];
+}
+
+/**
+ * Returns false when the device doesn't exist or belongs to another user
+ */
+export async function removeDevice(userId: string, deviceId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('notification_devices')
+        .delete()
+        .eq('id', deviceId)
+        .eq('user_id', userId)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to remove device: ${error.message}`);
+    }
+    return (data || []).length > 0;
+}
+
+// ============ SUBSCRIPTIONS ============
+
+export async function listSubscriptions(userId: string): Promise<DbNotificationSubscription[]> {
+    const { data, error } = await supabase
+        .from('notification_subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to list subscriptions: ${error.message}`);
+    }
+    return (data || []) as DbNotificationSubscription[];
+}
+
+export async function addSubscription(userId: string, targetType: SubscriptionTarget, targetId: string): Promise<void> {
+    const { error } = await supabase
+        .from('notification_subscriptions')
+        .upsert({ user_id: userId, target_type: targetType, target_id: targetId }, {
+            onConflict: 'user_id,target_type,target_id',
+            ignoreDuplicates: true,
+        });
+
+    if (error) {
+        throw new Error(`Failed to add subscription: ${error.message}`);
+    }
+}
+
+export async function removeSubscription(userId: string, targetType: SubscriptionTarget, targetId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('notification_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('target_type', targetType)
+        .eq('target_id', targetId)
+        .select('target_id');
+
+    if (error) {
+        throw new Error(`Failed to remove subscription: ${error.message}`);
+    }
+    return (data || []).length > 0;
+}
+
+// ============ PREFERENCES ============
+
+export async function getPreferences(userId: string): Promise<NotificationEvent[]> {
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('events')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to read preferences: ${error.message}`);
+    }
+    return data ? (data.events as string[]).filter(isNotificationEvent) : DEFAULT_NOTIFICATION_EVENTS;
+}
+
+export async function setPreferences(userId: string, events: NotificationEvent[]): Promise<NotificationEvent[]> {
+    const unique = NOTIFICATION_EVENTS.filter(event => events.includes(event));
+
+    const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: userId, events: unique, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) {
+        throw new Error(`Failed to save preferences: ${error.message}`);
+    }
+    return unique;
+}
+
+// ============ DISPATCH ============
+
+interface MatchContext {
+    id: string;
+    home_team_id: string | null;
+    away_team_id: string | null;
+    competition_id: string | null;
+    home_team_name: string | null;
+    away_team_name: string | null;
+    competition_name: string | null;
+    home_score: number | null;
+    away_score: number | null;
+}
+
+interface PushNotification {
+    event: NotificationEvent;
+    text: NotificationTextKey;
+    dedupKey: string;
+    collapseKey: string;
+    values: Record<string, string | number | null>;
+}
+
+// Goals cancelled while their alert was still being prepared (see notifyDomainEvent)
+const MAX_CANCELLED_GOALS = 1000;
+const cancelledGoals = new Set<string>();
+
+let provider: PushProvider | null = null;
+
+function getPushProvider(): PushProvider {
+    return provider ??= createPushProviderFromEnv();
+}
+
+/**
+ * Replace the push provider (e.g. a file provider in a test run)
+ */
+export function setPushProvider(next: PushProvider): void {
+    provider = next;
+}
+
+async function loadMatch(matchId: string): Promise<MatchContext | null> {
+    const { data } = await supabase
+        .from('matches')
+        .select('id, home_team_id, away_team_id, competition_id, home_team_name, away_team_name, competition_name, home_score, away_score')
+        .eq('id', matchId)
+        .maybeSingle();
+    return (data as MatchContext | null) ?? null;
+}
+
+/**
+ * Devices of users subscribed to the match, its teams or its competition
+ * who want this kind of notification
+ */
+async function findRecipients(match: MatchContext, event: NotificationEvent): Promise<DbNotificationDevice[]> {
+    if (!isValidEntityId(match.id)) return [];
+    const teams = [match.home_team_id, match.away_team_id].filter((id): id is string => !!id && isValidEntityId(id));
+    const filters = [`and(target_type.eq.match,target_id.eq.${match.id})`];
+    if (teams.length > 0) filters.push(`and(target_type.eq.team,target_id.in.(${teams.join(',')}))`);
+    if (match.competition_id && isValidEntityId(match.competition_id)) {
+        filters.push(`and(target_type.eq.competition,target_id.eq.${match.competition_id})`);
+    }
+
+    const { data: subscriptions, error } = await supabase
+        .from('notification_subscriptions')
+        .select('user_id')
+        .or(filters.join(','));
+
+    if (error) {
+        throw new Error(`Failed to read subscriptions: ${error.message}`);
+    }
+
+    const userIds = [...new Set((subscriptions || []).map(s => s.user_id as string))];
+    if (userIds.length === 0) return [];
+
+    const { data: preferences } = await supabase
+        .from('notification_preferences')
+        .select('user_id, events')
+        .in('user_id', userIds);
+    const eventsByUser = new Map((preferences || []).map(p => [p.user_id as string, p.events as string[]]));
+
+    const recipients = userIds.filter(userId =>
+        (eventsByUser.get(userId) ?? DEFAULT_NOTIFICATION_EVENTS as string[]).includes(event));
+    if (recipients.length === 0) return [];
+
+    const { data: devices, error: devicesError } = await supabase
+        .from('notification_devices')
+        .select('*')
+        .in('user_id', recipients);
+
+    if (devicesError) {
+        throw new Error(`Failed to read devices: ${devicesError.message}`);
+    }
+    return (devices || []) as DbNotificationDevice[];
+}
+
+/**
+ * Claim a notification for devices - only devices that didn't get it yet are returned
+ */
+async function claimDeliveries(notification: PushNotification, matchId: string, devices: DbNotificationDevice[]): Promise<DbNotificationDevice[]> {
+    if (devices.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('notification_deliveries')
+        .upsert(devices.map(device => ({
+            dedup_key: notification.dedupKey,
+            device_id: device.id,
+            match_id: matchId,
+            kind: notification.event,
+        })), { onConflict: 'dedup_key,device_id', ignoreDuplicates: true })
+        .select('device_id');
+
+    if (error) {
+        throw new Error(`Failed to claim deliveries: ${error.message}`);
+    }
+
+    const claimed = new Set((data || []).map(row => row.device_id as string));
+    return devices.filter(device => claimed.has(device.id));
+}
+
+async function deliver(notification: PushNotification, matchId: string, devices: DbNotificationDevice[]): Promise<number> {
+    const push = getPushProvider();
+    let sent = 0;
+
+    for (const device of devices) {
+        const locale: Locale = isLocale(device.locale) ? device.locale : 'de';
+        const text = formatNotification(notification.text, notification.values, locale);
+        const message: PushMessage = {
+            ...text,
+            data: { matchId, event: notification.event, key: notification.dedupKey },
+            collapseKey: notification.collapseKey,
+        };
+        const target: PushDevice = {
+            id: device.id,
+            platform: device.platform,
+            token: device.token,
+            webPushKeys: device.web_push_keys,
+        };
+
+        const result = await push.send(target, message);
+        if (result.ok) sent++;
+
+        await supabase
+            .from('notification_deliveries')
+            .update({ status: result.ok ? 'sent' : 'failed', error: result.error ?? null })
+            .eq('dedup_key', notification.dedupKey)
+            .eq('device_id', device.id);
+
+        if (result.invalidToken) {
+            console.log(`[Push] Removing device ${device.id} (token no longer valid)`);
+            await supabase.from('notification_devices').delete().eq('id', device.id);
+        }
+    }
+
+    return sent;
+}
+
+function formatScore(score: MatchScore | null, match: MatchContext): string {
+    return score
+        ? `${score.home}:${score.away}`
+        : `${match.home_score ?? 0}:${match.away_score ?? 0}`;
+}
+
+function teamName(side: MatchSide | null, match: MatchContext): string | null {
+    if (side === 'home') return match.home_team_name;
+    if (side === 'away') return match.away_team_name;
+    return null;
+}
+
+/**
+ * Score after a goal was taken back (goal row score minus the goal)
+ */
+function scoreWithoutGoal(goal: IncidentRow, side: MatchSide | null): MatchScore | null {
+    if (goal.home_score === null || goal.away_score === null || !side) return null;
+    return {
+        home: goal.home_score - (side === 'home' ? 1 : 0),
+        away: goal.away_score - (side === 'away' ? 1 : 0),
+    };
+}
+
+function matchValues(match: MatchContext, score: MatchScore | null): Record<string, string | number | null> {
+    return {
+        home: match.home_team_name,
+        away: match.away_team_name,
+        competition: match.competition_name,
+        score: formatScore(score, match),
+    };
+}
+
+/**
+ * Bus subscriber: send the notifications for a domain event
+ */
+export async function notifyDomainEvent(event: DomainEvent): Promise<void> {
+    if (event.replay) return;
+
+    const { matchId } = event;
+
+    // Marked before the first await so a goal alert still being prepared for
+    // the same diff is dropped instead of going out after its correction
+    if (event.type === 'GoalCancelledByVar') {
+        const { goal } = (event as DomainEvent<'GoalCancelledByVar'>).payload;
+        if (!goal) return;
+        if (cancelledGoals.size >= MAX_CANCELLED_GOALS) cancelledGoals.clear();
+        cancelledGoals.add(`${matchId}:${goal.event_key}`);
+    }
+
+    if (event.type === 'StatusChanged') return;
+
+    const match = await loadMatch(matchId);
+    if (!match) return;
+
+    if (event.type === 'GoalCancelledByVar') {
+        await sendGoalCorrection(event as DomainEvent<'GoalCancelledByVar'>, match);
+        return;
+    }
+
+    const notification = buildNotification(event, match);
+    if (!notification) return;
+
+    const recipients = await findRecipients(match, notification.event);
+    const devices = await claimDeliveries(notification, matchId, recipients);
+    if (devices.length === 0) return;
+
+    const sent = await deliver(notification, matchId, devices);
+    console.log(`[Push] ${notification.dedupKey}: ${sent}/${devices.length} sent`);
+}
+
+function buildNotification(event: DomainEvent, match: MatchContext): PushNotification | null {
+    const { matchId } = event;
+
+    switch (event.type) {
+        case 'GoalScored': {
+            const { payload } = event as DomainEvent<'GoalScored'>;
+            if (cancelledGoals.has(`${matchId}:${payload.incident.event_key}`)) return null;
+            return {
+                event: 'goal',
+                text: 'goal',
+                dedupKey: `goal:${matchId}:${payload.incident.event_key}`,
+                collapseKey: `goal:${matchId}:${payload.incident.event_key}`,
+                values: {
+                    ...matchValues(match, payload.score),
+                    team: teamName(payload.side, match),
+                    player: payload.player,
+                    minute: payload.minute,
+                },
+            };
+        }
+        case 'RedCard': {
+            const { payload } = event as DomainEvent<'RedCard'>;
+            return {
+                event: 'red_card',
+                text: 'redCard',
+                dedupKey: `red-card:${matchId}:${payload.incident.event_key}`,
+                collapseKey: `red-card:${matchId}:${payload.incident.event_key}`,
+                values: {
+                    ...matchValues(match, null),
+                    team: teamName(payload.side, match),
+                    player: payload.player,
+                    minute: payload.minute,
+                },
+            };
+        }
+        case 'KickOff':
+        case 'HalfTime':
+        case 'FullTime': {
+            const { payload } = event as DomainEvent<'KickOff' | 'HalfTime' | 'FullTime'>;
+            const kind = event.type === 'KickOff' ? 'kick_off' : event.type === 'HalfTime' ? 'half_time' : 'full_time';
+            return {
+                event: kind,
+                text: event.type === 'KickOff' ? 'kickOff' : event.type === 'HalfTime' ? 'halfTime' : 'fullTime',
+                dedupKey: `${kind}:${matchId}`,
+                collapseKey: `status:${matchId}`,
+                values: matchValues(match, payload.score),
+            };
+        }
+        case 'LineupsAnnounced':
+            return {
+                event: 'lineups',
+                text: 'lineups',
+                dedupKey: `lineups:${matchId}`,
+                collapseKey: `lineups:${matchId}`,
+                values: matchValues(match, null),
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Correction for devices that were alerted about a goal VAR took back
+ */
+async function sendGoalCorrection(event: DomainEvent<'GoalCancelledByVar'>, match: MatchContext): Promise<void> {
+    const { goal, side } = event.payload;
+    if (!goal) return;
+
+    const goalKey = `goal:${event.matchId}:${goal.event_key}`;
+    const { data: alerted, error } = await supabase
+        .from('notification_deliveries')
+        .select('device_id')
+        .eq('dedup_key', goalKey)
+        .neq('status', 'failed');
+
+    if (error) {
+        throw new Error(`Failed to read goal deliveries: ${error.message}`);
+    }
+    const deviceIds = (alerted || []).map(row => row.device_id as string);
+    if (deviceIds.length === 0) return;
+
+    const { data: devices } = await supabase
+        .from('notification_devices')
+        .select('*')
+        .in('id', deviceIds);
+
+    const notification: PushNotification = {
+        event: 'goal',
+        text: 'goalCancelled',
+        dedupKey: `goal-cancelled:${event.matchId}:${goal.event_key}`,
+        // Same key as the goal alert so the correction replaces it
+        collapseKey: goalKey,
+        values: {
+            ...matchValues(match, scoreWithoutGoal(goal, side)),
+            team: teamName(side, match),
+            player: goal.player_name,
+            minute: goal.time,
+        },
+    };
+
+    const claimed = await claimDeliveries(notification, event.matchId, (devices || []) as DbNotificationDevice[]);
+    if (claimed.length === 0) return;
+
+    const sent = await deliver(notification, event.matchId, claimed);
+    console.log(`[Push] ${notification.dedupKey}: ${sent}/${claimed.length} corrections sent`);
+}
+
+export const NotificationsService = {
+    NOTIFICATION_EVENTS,
+    DEFAULT_NOTIFICATION_EVENTS,
+    registerDevice,
+    listDevices,
+    removeDevice,
+    listSubscriptions,
+    addSubscription,
+    removeSubscription,
+    getPreferences,
+    setPreferences,
+    setPushProvider,
+    notifyDomainEvent,
+};
+
+export default NotificationsService;
@@ -0,0 +1,290 @@
+/**
+ * Players Service
+ * Player profiles from the players table and per-match / per-season statistics
+ * aggregated from match_events and match_lineups
+ */
+
+import { DbMatchEvent, DbMatchLineup, DbPlayer, supabase } from '@/lib/supabase';
+import { EVENT_GOAL, EVENT_OWN_GOAL, EVENT_PENALTY, EVENT_RED, EVENT_SECOND_YELLOW, EVENT_SUBSTITUTION, EVENT_YELLOW } from './incidents';
+import { formatMatchRow, MatchRow } from './teams';
+
+const REGULAR_TIME = 90;
+// PostgREST caps responses at 1000 rows - larger reads are paged
+const PAGE_SIZE = 1000;
+
+type PlayerEvent = Pick<DbMatchEvent,
+    'match_id' | 'type' | 'time' | 'player_id' | 'assist1_id' | 'in_player_id' | 'out_player_id'>;
+
+export interface PlayerMatchStats {
+    started: boolean;
+    minutes: number;
+    goals: number;
+    penaltyGoals: number;
+    ownGoals: number;
+    assists: number;
+    yellowCards: number;
+    redCards: number;
+    rating: number | null;
+}
+
+/**
+ * Stats of one player in one match
+ * Minutes: starters from kick-off, substitutes from coming on, until subbed off,
+ * sent off or the end of the match (current minute while live)
+ */
+export function computePlayerMatchStats(
+    playerId: string,
+    events: PlayerEvent[],
+    lineup: Pick<DbMatchLineup, 'is_starter' | 'rating'> | null,
+    match: { status: string; minute: number | null }
+): PlayerMatchStats {
+    const stats: PlayerMatchStats = {
+        started: lineup?.is_starter || false,
+        minutes: 0,
+        goals: 0,
+        penaltyGoals: 0,
+        ownGoals: 0,
+        assists: 0,
+        yellowCards: 0,
+        redCards: 0,
+        rating: lineup?.rating ?? null,
+    };
+
+    const lastEventTime = events.reduce((max, e) => Math.max(max, e.time || 0), 0);
+    const end = match.status === 'finished'
+        ? Math.max(REGULAR_TIME, lastEventTime)
+        : match.minute ?? lastEventTime;
+    let on: number | null = stats.started ? 0 : null;
+    let off: number | null = null;
+
+    for (const event of events) {
+        if (event.type === EVENT_SUBSTITUTION) {
+            if (event.in_player_id === playerId) on = event.time ?? on;
+            if (event.out_player_id === playerId) off = event.time ?? off;
+            continue;
+        }
+
+        if (event.player_id === playerId) {
+            if (event.type === EVENT_GOAL) stats.goals++;
+            if (event.type === EVENT_PENALTY) { stats.goals++; stats.penaltyGoals++; }
+            if (event.type === EVENT_OWN_GOAL) stats.ownGoals++;
+            if (event.type === EVENT_YELLOW) stats.yellowCards++;
+            if (event.type === EVENT_RED || event.type === EVENT_SECOND_YELLOW) {
+                stats.redCards++;
+                off = event.time ?? off;
+            }
+        }
+        if (event.assist1_id === playerId && (event.type === EVENT_GOAL || event.type === EVENT_PENALTY)) {
+            stats.assists++;
+        }
+    }
+
+    // Appeared via events without a stored lineup (e.g. scored) - assume a full match
+    if (on === null && !lineup && events.some(e => e.player_id === playerId || e.assist1_id === playerId)) {
+        on = 0;
+    }
+    if (on !== null) {
+        stats.minutes = Math.max(0, (off ?? end) - on);
+    }
+
+    return stats;
+}
+
+export async function getPlayer(playerId: string): Promise<(DbPlayer & {
+    team: { id: string; name: string; logo: string } | null;
+}) | null> {
+    const { data: player, error } = await supabase
+        .from('players')
+        .select('*')
+        .eq('id', playerId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to read player: ${error.message}`);
+    }
+    if (!player) return null;
+
+    let team: { id: string; name: string; logo: string } | null = null;
+    if (player.team_id) {
+        const { data } = await supabase
+            .from('teams')
+            .select('id, name, logo')
+            .eq('id', player.team_id)
+            .maybeSingle();
+        if (data) team = { id: data.id, name: data.name, logo: data.logo || '' };
+    }
+
+    return { ...(player as DbPlayer), team };
+}
+
+/**
+ * All events of the given matches in match time order
+ */
+async function loadMatchEvents(matchIds: string[]): Promise<PlayerEvent[]> {
+    const events: PlayerEvent[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('match_events')
+            .select('match_id, type, time, player_id, assist1_id, in_player_id, out_player_id')
+            .in('match_id', matchIds)
+            .order('time', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            throw new Error(`Failed to read match events: ${error.message}`);
+        }
+        events.push(...((data || []) as PlayerEvent[]));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return events;
+}
+
+/**
+ * Every match the player appears in (lineup or events), newest first, with stats
+ */
+async function loadPlayerAppearances(playerId: string): Promise<Array<{
+    match: MatchRow;
+    lineup: DbMatchLineup | null;
+    stats: PlayerMatchStats;
+}>> {
+    const [lineupsResult, eventsResult] = await Promise.all([
+        supabase
+            .from('match_lineups')
+            .select('*')
+            .eq('player_id', playerId),
+        supabase
+            .from('match_events')
+            .select('match_id')
+            .or(`player_id.eq.${playerId},assist1_id.eq.${playerId},in_player_id.eq.${playerId},out_player_id.eq.${playerId}`),
+    ]);
+
+    if (lineupsResult.error) {
+        throw new Error(`Failed to read lineups: ${lineupsResult.error.message}`);
+    }
+    if (eventsResult.error) {
+        throw new Error(`Failed to read events: ${eventsResult.error.message}`);
+    }
+
+    const lineups = new Map(((lineupsResult.data || []) as DbMatchLineup[]).map(l => [l.match_id, l]));
+    const matchIds = Array.from(new Set([
+        ...lineups.keys(),
+        ...(eventsResult.data || []).map(e => e.match_id as string),
+    ]));
+    if (matchIds.length === 0) return [];
+
+    const [matchesResult, matchEvents] = await Promise.all([
+        supabase
+            .from('matches')
+            .select('*')
+            .in('id', matchIds)
+            .neq('status', 'scheduled'),
+        loadMatchEvents(matchIds),
+    ]);
+
+    if (matchesResult.error) {
+        throw new Error(`Failed to read matches: ${matchesResult.error.message}`);
+    }
+
+    const eventsByMatch = new Map<string, PlayerEvent[]>();
+    for (const event of matchEvents) {
+        const list = eventsByMatch.get(event.match_id) || [];
+        list.push(event);
+        eventsByMatch.set(event.match_id, list);
+    }
+
+    return ((matchesResult.data || []) as MatchRow[])
+        .map(match => {
+            const lineup = lineups.get(match.id) || null;
+            const stats = computePlayerMatchStats(playerId, eventsByMatch.get(match.id) || [], lineup, match);
+            return { match, lineup, stats };
+        })
+        // Unused substitutes are in the lineup but did not play
+        .filter(a => a.stats.minutes > 0 || a.stats.started || a.stats.goals > 0 || a.stats.assists > 0)
+        .sort((a, b) => b.match.start_time.localeCompare(a.match.start_time));
+}
+
+/**
+ * Paginated match log of a player
+ */
+export async function getPlayerMatches(playerId: string, options: { page?: number; limit?: number } = {}): Promise<{
+    matches: Array<ReturnType<typeof formatMatchRow> & { teamId: string | null; stats: PlayerMatchStats }>;
+    total: number;
+}> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const appearances = await loadPlayerAppearances(playerId);
+
+    return {
+        matches: appearances.slice((page - 1) * limit, page * limit).map(a => ({
+            ...formatMatchRow(a.match),
+            teamId: a.lineup?.team_id || null,
+            stats: a.stats,
+        })),
+        total: appearances.length,
+    };
+}
+
+export interface PlayerSeasonStats {
+    competitionId: string | null;
+    competitionName: string | null;
+    seasonId: string | null;
+    appearances: number;
+    starts: number;
+    minutes: number;
+    goals: number;
+    penaltyGoals: number;
+    assists: number;
+    yellowCards: number;
+    redCards: number;
+    averageRating: number | null;
+}
+
+/**
+ * Season totals per competition
+ */
+export async function getPlayerSeasonStats(playerId: string): Promise<PlayerSeasonStats[]> {
+    const appearances = await loadPlayerAppearances(playerId);
+    const seasons = new Map<string, PlayerSeasonStats & { ratingSum: number; ratingCount: number }>();
+
+    for (const { match, stats } of appearances) {
+        const key = `${match.competition_id}|${match.season_id}`;
+        const season = seasons.get(key) || {
+            competitionId: match.competition_id,
+            competitionName: match.competition_name,
+            seasonId: match.season_id,
+            appearances: 0, starts: 0, minutes: 0, goals: 0, penaltyGoals: 0, assists: 0,
+            yellowCards: 0, redCards: 0, averageRating: null, ratingSum: 0, ratingCount: 0,
+        };
+
+        season.appearances++;
+        if (stats.started) season.starts++;
+        season.minutes += stats.minutes;
+        season.goals += stats.goals;
+        season.penaltyGoals += stats.penaltyGoals;
+        season.assists += stats.assists;
+        season.yellowCards += stats.yellowCards;
+        season.redCards += stats.redCards;
+        if (stats.rating !== null) {
+            season.ratingSum += stats.rating;
+            season.ratingCount++;
+        }
+        seasons.set(key, season);
+    }
+
+    return Array.from(seasons.values()).map(({ ratingSum, ratingCount, ...season }) => ({
+        ...season,
+        averageRating: ratingCount > 0 ? Math.round((ratingSum / ratingCount) * 100) / 100 : null,
+    }));
+}
+
+export const PlayersService = {
+    getPlayer,
+    getPlayerMatches,
+    getPlayerSeasonStats,
+    computePlayerMatchStats,
+};
+
+export default PlayersService;
@@ -0,0 +1,529 @@
+/**
+ * Push Providers
+ * Abstracts how a notification reaches a device so the notification service
+ * can run against FCM/APNs/Web Push or a local outbox
+ *
+ * Selected with PUSH_PROVIDER:
+ *   console (default) → log every notification
+ *   file              → append JSON lines to PUSH_OUTBOX_FILE (default .push-outbox.jsonl)
+ *   live              → android via FCM, ios via APNs, web via Web Push
+ *
+ * FCM:      FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY (service account)
+ * APNs:     APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY (.p8), APNS_BUNDLE_ID, APNS_PRODUCTION=true
+ * Web Push: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY (base64url), VAPID_SUBJECT (mailto:/https:)
+ *
+ * Device tokens come from app users: APNs tokens must be hex and Web Push
+ * endpoints must point at a known push service that resolves to a public
+ * address - checked on registration and again before every send.
+ */
+
+import { createCipheriv, createECDH, createPrivateKey, createSign, hkdfSync, KeyObject, randomBytes, sign } from 'crypto';
+import { lookup } from 'dns/promises';
+import { appendFile } from 'fs/promises';
+import { connect as connectHttp2 } from 'http2';
+import { isIP } from 'net';
+
+export type PushPlatform = 'android' | 'ios' | 'web';
+
+export interface PushDevice {
+    id: string;
+    platform: PushPlatform;
+    token: string;
+    webPushKeys: { p256dh: string; auth: string } | null;
+}
+
+export interface PushMessage {
+    title: string;
+    body: string;
+    data: Record<string, string>;
+    // Devices show only the latest notification with the same key (e.g. per match)
+    collapseKey?: string;
+}
+
+export interface PushResult {
+    ok: boolean;
+    error?: string;
+    // Token no longer valid - the device should be removed
+    invalidToken?: boolean;
+}
+
+export interface PushProvider {
+    readonly name: string;
+    send(device: PushDevice, message: PushMessage): Promise<PushResult>;
+}
+
+// Access tokens / provider JWTs are reused until shortly before they expire
+const TOKEN_REFRESH_MARGIN_S = 300;
+
+function nowSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+function base64url(value: Buffer | string): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Compact JWT signed with ES256 (APNs, VAPID)
+ */
+function signEs256Jwt(header: Record<string, unknown>, claims: Record<string, unknown>, key: KeyObject): string {
+    const input = `${base64url(JSON.stringify({ alg: 'ES256', typ: 'JWT', ...header }))}.${base64url(JSON.stringify(claims))}`;
+    const signature = sign('sha256', Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' });
+    return `${input}.${base64url(signature)}`;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// ============ Device token checks ============
+
+const APNS_TOKEN_PATTERN = /^[0-9a-f]{64,200}$/i;
+
+// Push services of Chrome/Edge (FCM), Firefox, Windows and Safari
+const WEB_PUSH_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com', 'web.push.apple.com'];
+const WEB_PUSH_HOST_SUFFIXES = ['.notify.windows.com'];
+
+export function isApnsToken(token: string): boolean {
+    return APNS_TOKEN_PATTERN.test(token);
+}
+
+function isWebPushHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return WEB_PUSH_HOSTS.includes(host) || WEB_PUSH_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved addresses
+ */
+function isPrivateAddress(address: string): boolean {
+    const version = isIP(address);
+
+    if (version === 4) {
+        const [a, b] = address.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224
+            || (a === 100 && b >= 64 && b <= 127)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168);
+    }
+
+    if (version === 6) {
+        const ip = address.toLowerCase();
+        const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+        if (mapped) return isPrivateAddress(mapped[1]);
+        return ip === '::' || ip === '::1'
+            || /^f[cd]/.test(ip)
+            || /^fe[89ab]/.test(ip)
+            || ip.startsWith('ff');
+    }
+
+    return true;
+}
+
+/**
+ * Why a Web Push endpoint is not acceptable, null when it is - https on a
+ * known push service host whose addresses are all public
+ */
+export async function checkWebPushEndpoint(endpoint: string): Promise<string | null> {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return 'Invalid subscription endpoint';
+    }
+
+    if (url.protocol !== 'https:' || url.username || url.password || url.port) {
+        return 'Subscription endpoint must be a plain https URL';
+    }
+    if (!isWebPushHost(url.hostname)) {
+        return `Unsupported push service: ${url.hostname}`;
+    }
+
+    try {
+        const addresses = await lookup(url.hostname, { all: true });
+        if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+            return `Push service ${url.hostname} resolves to a private address`;
+        }
+    } catch (error) {
+        return `Push service ${url.hostname} cannot be resolved: ${errorMessage(error)}`;
+    }
+
+    return null;
+}
+
+// ============ Local (console / file) ============
+
+class ConsoleProvider implements PushProvider {
+    readonly name = 'console';
+
+    async send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        console.log(`[Push] → ${device.platform}:${device.id} "${message.title}" - ${message.body}`);
+        return { ok: true };
+    }
+}
+
+class FileProvider implements PushProvider {
+    readonly name = 'file';
+
+    constructor(private readonly filePath: string) { }
+
+    async send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        try {
+            await appendFile(this.filePath, JSON.stringify({
+                at: new Date().toISOString(),
+                deviceId: device.id,
+                platform: device.platform,
+                ...message,
+            }) + '\n');
+            return { ok: true };
+        } catch (error) {
+            return { ok: false, error: errorMessage(error) };
+        }
+    }
+}
+
+// ============ FCM (HTTP v1) ============
+
+class FcmProvider implements PushProvider {
+    readonly name = 'fcm';
+    private accessToken: { value: string; expiresAt: number } | null = null;
+
+    constructor(
+        private readonly projectId: string,
+        private readonly clientEmail: string,
+        private readonly privateKey: string
+    ) { }
+
+    /**
+     * OAuth access token from a service-account JWT (RS256)
+     */
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_S > nowSeconds()) {
+            return this.accessToken.value;
+        }
+
+        const iat = nowSeconds();
+        const input = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64url(JSON.stringify({
+            iss: this.clientEmail,
+            scope: 'https://www.googleapis.com/auth/firebase.messaging',
+            aud: 'https://oauth2.googleapis.com/token',
+            iat,
+            exp: iat + 3600,
+        }))}`;
+        const signature = createSign('RSA-SHA256').update(input).sign(this.privateKey);
+
+        const response = await fetch('https://oauth2.googleapis.com/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+                assertion: `${input}.${base64url(signature)}`,
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`FCM auth failed: HTTP ${response.status}`);
+        }
+
+        const token = await response.json() as { access_token: string; expires_in: number };
+        this.accessToken = { value: token.access_token, expiresAt: iat + token.expires_in };
+        return token.access_token;
+    }
+
+    async send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        try {
+            const response = await fetch(`https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${await this.getAccessToken()}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    message: {
+                        token: device.token,
+                        notification: { title: message.title, body: message.body },
+                        data: message.data,
+                        android: message.collapseKey ? { collapse_key: message.collapseKey } : undefined,
+                    },
+                }),
+            });
+
+            if (response.ok) return { ok: true };
+            const text = await response.text();
+            return {
+                ok: false,
+                error: `HTTP ${response.status}: ${text.slice(0, 200)}`,
+                invalidToken: response.status === 404 || text.includes('UNREGISTERED'),
+            };
+        } catch (error) {
+            return { ok: false, error: errorMessage(error) };
+        }
+    }
+}
+
+// ============ APNs (HTTP/2, token auth) ============
+
+class ApnsProvider implements PushProvider {
+    readonly name = 'apns';
+    private jwt: { value: string; issuedAt: number } | null = null;
+
+    constructor(
+        private readonly keyId: string,
+        private readonly teamId: string,
+        private readonly privateKey: KeyObject,
+        private readonly bundleId: string,
+        private readonly production: boolean
+    ) { }
+
+    // Apple rejects tokens older than an hour
+    private getJwt(): string {
+        if (this.jwt && nowSeconds() - this.jwt.issuedAt < 3600 - TOKEN_REFRESH_MARGIN_S) {
+            return this.jwt.value;
+        }
+        const issuedAt = nowSeconds();
+        const value = signEs256Jwt({ kid: this.keyId }, { iss: this.teamId, iat: issuedAt }, this.privateKey);
+        this.jwt = { value, issuedAt };
+        return value;
+    }
+
+    send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        if (!isApnsToken(device.token)) {
+            return Promise.resolve({ ok: false, error: 'Malformed APNs token', invalidToken: true });
+        }
+
+        const host = this.production ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+        const body = JSON.stringify({
+            aps: { alert: { title: message.title, body: message.body }, sound: 'default' },
+            ...message.data,
+        });
+
+        return new Promise(resolve => {
+            const session = connectHttp2(host);
+            const finish = (result: PushResult) => {
+                session.close();
+                resolve(result);
+            };
+            session.on('error', error => finish({ ok: false, error: errorMessage(error) }));
+
+            const request = session.request({
+                ':method': 'POST',
+                ':path': `/3/device/${device.token}`,
+                'authorization': `bearer ${this.getJwt()}`,
+                'apns-topic': this.bundleId,
+                'apns-push-type': 'alert',
+                ...(message.collapseKey ? { 'apns-collapse-id': message.collapseKey } : {}),
+            });
+
+            let status = 0;
+            let response = '';
+            request.on('response', headers => {
+                status = Number(headers[':status']);
+            });
+            request.setEncoding('utf8');
+            request.on('data', chunk => {
+                response += chunk;
+            });
+            request.on('end', () => {
+                if (status === 200) {
+                    finish({ ok: true });
+                    return;
+                }
+                finish({
+                    ok: false,
+                    error: `HTTP ${status}: ${response.slice(0, 200)}`,
+                    invalidToken: status === 410 || response.includes('BadDeviceToken'),
+                });
+            });
+            request.on('error', error => finish({ ok: false, error: errorMessage(error) }));
+            request.end(body);
+        });
+    }
+}
+
+// ============ Web Push (VAPID + aes128gcm, RFC 8291/8292) ============
+
+const WEB_PUSH_RECORD_SIZE = 4096;
+const WEB_PUSH_TTL_S = 3600;
+
+class WebPushProvider implements PushProvider {
+    readonly name = 'webpush';
+    private readonly privateKey: KeyObject;
+
+    constructor(
+        private readonly publicKey: string,
+        privateKey: string,
+        private readonly subject: string
+    ) {
+        // Raw P-256 keys (base64url) as produced by common VAPID generators
+        const pub = Buffer.from(publicKey, 'base64url');
+        this.privateKey = createPrivateKey({
+            key: {
+                kty: 'EC',
+                crv: 'P-256',
+                d: privateKey,
+                x: base64url(pub.subarray(1, 33)),
+                y: base64url(pub.subarray(33, 65)),
+            },
+            format: 'jwk',
+        });
+    }
+
+    /**
+     * Encrypt the payload for one subscription (single aes128gcm record)
+     */
+    private encrypt(payload: Buffer, keys: { p256dh: string; auth: string }): Buffer {
+        const userAgentPublic = Buffer.from(keys.p256dh, 'base64url');
+        const authSecret = Buffer.from(keys.auth, 'base64url');
+
+        const ecdh = createECDH('prime256v1');
+        const serverPublic = ecdh.generateKeys();
+        const sharedSecret = ecdh.computeSecret(userAgentPublic);
+
+        const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublic, serverPublic]);
+        const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+        const salt = randomBytes(16);
+        const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+        const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+        const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+        // 0x02 = padding delimiter of the last (only) record
+        const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+        const header = Buffer.alloc(21);
+        salt.copy(header, 0);
+        header.writeUInt32BE(WEB_PUSH_RECORD_SIZE, 16);
+        header.writeUInt8(serverPublic.length, 20);
+        return Buffer.concat([header, serverPublic, encrypted]);
+    }
+
+    async send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        if (!device.webPushKeys) {
+            return { ok: false, error: 'Missing Web Push keys', invalidToken: true };
+        }
+
+        const rejected = await checkWebPushEndpoint(device.token);
+        if (rejected) {
+            return { ok: false, error: rejected, invalidToken: true };
+        }
+
+        try {
+            const endpoint = new URL(device.token);
+            const jwt = signEs256Jwt({}, {
+                aud: endpoint.origin,
+                exp: nowSeconds() + 12 * 3600,
+                sub: this.subject,
+            }, this.privateKey);
+
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `vapid t=${jwt}, k=${this.publicKey}`,
+                    'Content-Encoding': 'aes128gcm',
+                    'Content-Type': 'application/octet-stream',
+                    'TTL': String(WEB_PUSH_TTL_S),
+                    ...(message.collapseKey ? { 'Topic': message.collapseKey.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32) } : {}),
+                },
+                body: new Uint8Array(this.encrypt(Buffer.from(JSON.stringify(message)), device.webPushKeys)),
+                // A push service never legitimately redirects
+                redirect: 'error',
+            });
+
+            if (response.ok) return { ok: true };
+            return {
+                ok: false,
+                error: `HTTP ${response.status}`,
+                invalidToken: response.status === 404 || response.status === 410,
+            };
+        } catch (error) {
+            return { ok: false, error: errorMessage(error) };
+        }
+    }
+}
+
+// ============ Platform router ============
+
+class PlatformProvider implements PushProvider {
+    readonly name = 'live';
+
+    constructor(private readonly providers: Partial<Record<PushPlatform, PushProvider>>) { }
+
+    send(device: PushDevice, message: PushMessage): Promise<PushResult> {
+        const provider = this.providers[device.platform];
+        if (!provider) {
+            return Promise.resolve({ ok: false, error: `No push provider configured for ${device.platform}` });
+        }
+        return provider.send(device, message);
+    }
+}
+
+// ============ Factory ============
+
+// Keys from env vars often have their newlines escaped
+function envKey(name: string): string {
+    return (process.env[name] || '').replace(/\\n/g, '\n');
+}
+
+export function createConsoleProvider(): PushProvider {
+    return new ConsoleProvider();
+}
+
+export function createFileProvider(filePath: string): PushProvider {
+    return new FileProvider(filePath);
+}
+
+/**
+ * FCM for android, APNs for ios, Web Push for web - platforms without
+ * credentials are skipped (sends to them fail with "not configured")
+ */
+export function createLiveProvider(): PushProvider {
+    const providers: Partial<Record<PushPlatform, PushProvider>> = {};
+
+    if (process.env.FCM_PROJECT_ID && process.env.FCM_CLIENT_EMAIL && process.env.FCM_PRIVATE_KEY) {
+        providers.android = new FcmProvider(process.env.FCM_PROJECT_ID, process.env.FCM_CLIENT_EMAIL, envKey('FCM_PRIVATE_KEY'));
+    }
+
+    if (process.env.APNS_KEY_ID && process.env.APNS_TEAM_ID && process.env.APNS_PRIVATE_KEY && process.env.APNS_BUNDLE_ID) {
+        providers.ios = new ApnsProvider(
+            process.env.APNS_KEY_ID,
+            process.env.APNS_TEAM_ID,
+            createPrivateKey(envKey('APNS_PRIVATE_KEY')),
+            process.env.APNS_BUNDLE_ID,
+            process.env.APNS_PRODUCTION === 'true'
+        );
+    }
+
+    if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+        providers.web = new WebPushProvider(
+            process.env.VAPID_PUBLIC_KEY,
+            process.env.VAPID_PRIVATE_KEY,
+            process.env.VAPID_SUBJECT || 'mailto:admin@localhost'
+        );
+    }
+
+    const configured = Object.keys(providers);
+    console.log(`[Push] Live providers: ${configured.length > 0 ? configured.join(', ') : 'none configured'}`);
+    return new PlatformProvider(providers);
+}
+
+/**
+ * Build the provider configured via PUSH_PROVIDER
+ */
+export function createPushProviderFromEnv(): PushProvider {
+    const kind = (process.env.PUSH_PROVIDER || 'console').toLowerCase();
+
+    if (kind === 'live') return createLiveProvider();
+    if (kind === 'file') return createFileProvider(process.env.PUSH_OUTBOX_FILE || '.push-outbox.jsonl');
+    return createConsoleProvider();
+}
+
+export const PushProviders = {
+    isApnsToken,
+    checkWebPushEndpoint,
+    createConsoleProvider,
+    createFileProvider,
+    createLiveProvider,
+    createPushProviderFromEnv,
+};
+
+export default PushProviders;
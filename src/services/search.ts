@@ -0,0 +1,229 @@
+/**
+ * Search Service
+ * Accent- and typo-tolerant search across teams, competitions, players and countries
+ *
+ * Matching runs in Postgres (search_entities(), trigram word similarity on
+ * unaccented names - see migrations/012_search.sql). The query is expanded here
+ * with German/English aliases ("München" <-> "Munich", "Deutschland" <-> "Germany")
+ * and common short forms, and the mixed results are ranked in one list.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getVisibleCompetitionIds } from './tracked-competitions';
+
+export const SEARCH_TYPES = ['team', 'competition', 'player', 'country'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+const MAX_VARIANTS = 8;
+
+// Normalized alias groups - any member matches the others (whole words only)
+const ALIAS_GROUPS: string[][] = [
+    // Cities / clubs
+    ['munchen', 'munich'],
+    ['koln', 'cologne'],
+    ['mailand', 'milan'],
+    ['turin', 'torino'],
+    ['neapel', 'napoli', 'naples'],
+    ['rom', 'roma', 'rome'],
+    ['lissabon', 'lisbon', 'lisboa'],
+    ['sevilla', 'seville'],
+    ['moskau', 'moscow'],
+    ['athen', 'athens'],
+    ['monchengladbach', 'gladbach'],
+    ['borussia dortmund', 'bvb'],
+    ['hamburger sv', 'hsv'],
+    ['manchester united', 'man utd', 'man united'],
+    ['manchester city', 'man city'],
+    ['tottenham', 'spurs'],
+    ['paris saint germain', 'psg'],
+    ['barcelona', 'barca'],
+    ['atletico', 'atleti'],
+    // Countries
+    ['deutschland', 'germany'],
+    ['spanien', 'spain'],
+    ['italien', 'italy'],
+    ['frankreich', 'france'],
+    ['niederlande', 'netherlands', 'holland'],
+    ['osterreich', 'austria'],
+    ['schweiz', 'switzerland'],
+    ['turkei', 'turkey', 'turkiye'],
+    ['belgien', 'belgium'],
+    ['schottland', 'scotland'],
+    ['danemark', 'denmark'],
+    ['schweden', 'sweden'],
+    ['norwegen', 'norway'],
+    ['polen', 'poland'],
+    ['tschechien', 'czech republic', 'czechia'],
+    ['kroatien', 'croatia'],
+    ['griechenland', 'greece'],
+    ['russland', 'russia'],
+    ['brasilien', 'brazil'],
+    ['argentinien', 'argentina'],
+    ['europa', 'europe'],
+    ['welt', 'world'],
+    // Competitions
+    ['weltmeisterschaft', 'wm', 'world cup'],
+    ['europameisterschaft', 'em', 'euro', 'european championship'],
+    ['pokal', 'cup'],
+    ['champions league', 'cl', 'ucl'],
+    ['europa league', 'uel'],
+];
+
+// Type order for equal scores (competitions before clubs before people)
+const TYPE_WEIGHT: Record<SearchType, number> = {
+    competition: 0.04,
+    team: 0.03,
+    country: 0.02,
+    player: 0,
+};
+
+export interface SearchResult {
+    type: SearchType;
+    id: string;
+    name: string;
+    shortName: string | null;
+    logo: string;
+    subtitle: string | null;
+    score: number;
+}
+
+interface SearchRow {
+    entity_type: SearchType;
+    entity_id: string;
+    name: string;
+    short_name: string | null;
+    logo: string | null;
+    country_id: string | null;
+    team_id: string | null;
+    score: number;
+}
+
+/**
+ * Lowercase, strip accents (ß -> ss), drop punctuation, collapse whitespace
+ * Same folding as search_normalize() in the database
+ */
+export function normalizeSearchText(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/ß/g, 'ss')
+        .replace(/ø/g, 'o')
+        .replace(/æ/g, 'ae')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Query variants: the normalized query, German transliterations
+ * ("muenchen" -> "munchen") and alias substitutions
+ */
+export function expandSearchQuery(query: string): string[] {
+    const normalized = normalizeSearchText(query);
+    if (!normalized) return [];
+
+    const variants = new Set<string>([normalized]);
+    const transliterated = normalized.replace(/ae/g, 'a').replace(/oe/g, 'o').replace(/ue/g, 'u');
+    if (transliterated !== normalized) variants.add(transliterated);
+
+    for (const base of Array.from(variants)) {
+        for (const group of ALIAS_GROUPS) {
+            for (const alias of group) {
+                const pattern = new RegExp(`(^| )${escapeRegExp(alias)}( |$)`);
+                if (!pattern.test(base)) continue;
+                for (const replacement of group) {
+                    if (replacement !== alias) variants.add(base.replace(pattern, `$1${replacement}$2`));
+                }
+            }
+        }
+    }
+
+    return Array.from(variants).slice(0, MAX_VARIANTS);
+}
+
+/**
+ * Boost for exact and prefix matches of any variant on the name
+ */
+function matchBoost(variants: string[], row: SearchRow): number {
+    const names = [row.name, row.short_name].filter((n): n is string => !!n).map(normalizeSearchText);
+    if (names.some(name => variants.includes(name))) return 0.5;
+    if (names.some(name => variants.some(v => name.startsWith(v)))) return 0.25;
+    return 0;
+}
+
+/**
+ * Ranked mixed results for a search query
+ */
+export async function search(query: string, options: { types?: SearchType[]; limit?: number } = {}): Promise<{
+    query: string;
+    variants: string[];
+    results: SearchResult[];
+}> {
+    const limit = Math.min(50, Math.max(1, options.limit || 20));
+    const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+    const variants = expandSearchQuery(query);
+    if (variants.length === 0) {
+        return { query, variants, results: [] };
+    }
+
+    const { data, error } = await supabase.rpc('search_entities', {
+        terms: variants,
+        per_type_limit: limit,
+    });
+
+    if (error) {
+        throw new Error(`Search failed: ${error.message}`);
+    }
+
+    const rows = ((data || []) as SearchRow[]).filter(row => types.includes(row.entity_type));
+
+    // Subtitles: country for teams/competitions, team for players
+    const countryIds = Array.from(new Set(rows.map(r => r.country_id).filter((id): id is string => !!id)));
+    const teamIds = Array.from(new Set(rows.map(r => r.team_id).filter((id): id is string => !!id)));
+    const [{ data: countries }, { data: teams }, visibleCompetitionIds] = await Promise.all([
+        countryIds.length > 0
+            ? supabase.from('countries').select('id, name').in('id', countryIds)
+            : Promise.resolve({ data: [] as Array<{ id: string; name: string }> }),
+        teamIds.length > 0
+            ? supabase.from('teams').select('id, name').in('id', teamIds)
+            : Promise.resolve({ data: [] as Array<{ id: string; name: string }> }),
+        getVisibleCompetitionIds(),
+    ]);
+    const countryNames = new Map((countries || []).map(c => [c.id, c.name]));
+    const teamNames = new Map((teams || []).map(t => [t.id, t.name]));
+    const tracked = new Set(visibleCompetitionIds);
+
+    const results = rows.map(row => {
+        // Leagues we cover rank above same-named foreign competitions
+        const trackedBoost = row.entity_type === 'competition' && tracked.has(row.entity_id) ? 0.2 : 0;
+        const score = Number(row.score) + matchBoost(variants, row) + TYPE_WEIGHT[row.entity_type] + trackedBoost;
+
+        return {
+            type: row.entity_type,
+            id: row.entity_id,
+            name: row.name,
+            shortName: row.short_name,
+            logo: row.logo || '',
+            subtitle: row.entity_type === 'player'
+                ? (row.team_id ? teamNames.get(row.team_id) || null : null)
+                : (row.country_id ? countryNames.get(row.country_id) || null : null),
+            score: Math.round(score * 1000) / 1000,
+        };
+    });
+
+    results.sort((a, b) => (b.score - a.score) || a.name.localeCompare(b.name));
+
+    return { query, variants, results: results.slice(0, limit) };
+}
+
+export const SearchService = {
+    search,
+    normalizeSearchText,
+    expandSearchQuery,
+};
+
+export default SearchService;
@@ -0,0 +1,368 @@
+/**
+ * Season Resolver Service
+ * Discovers the current season of a competition from TheSports and persists it
+ * (stages, matchday count, team count) into the seasons table
+ *
+ * Replaces the season/stage IDs that used to be hardcoded per league.
+ * A season is re-resolved once it is older than REFRESH_AFTER_MS or its end
+ * date has passed, so a new season is picked up automatically (rollover).
+ * Only tracked competitions are discovered - any other ID (they come from
+ * public URLs) gets its stored season or null without calling TheSports.
+ */
+
+import { DbSeason, supabase } from '@/lib/supabase';
+import { theSportsRequest } from './thesports';
+import { getSyncedCompetitionIds, getTrackedCompetition } from './tracked-competitions';
+
+const MEMORY_TTL_MS = 10 * 60 * 1000;
+const REFRESH_AFTER_MS = 24 * 60 * 60 * 1000;
+// Unknown competitions aren't re-discovered on every request (upstream quota)
+const NEGATIVE_TTL_MS = 5 * 60 * 1000;
+const MAX_FAILED_LOOKUPS = 500;
+
+export interface SeasonStage {
+    id: string;
+    firstRound: number | null;
+    lastRound: number | null;
+    matches: number;
+}
+
+export interface CurrentSeason {
+    competitionId: string;
+    seasonId: string;
+    name: string;
+    year: number | null;
+    currentStageId: string | null;
+    stages: SeasonStage[];
+    totalMatchdays: number | null;
+    teamCount: number | null;
+    startDate: string | null;
+    endDate: string | null;
+    resolvedAt: string | null;
+}
+
+interface CompetitionAdditional {
+    id: string;
+    cur_season_id?: string;
+    cur_stage_id?: string;
+    cur_round?: number;
+    round_count?: number;
+}
+
+interface SeasonMatch {
+    id: string;
+    home_team_id?: string;
+    away_team_id?: string;
+    match_time?: number;
+    round?: { stage_id?: string; round_num?: number };
+}
+
+interface SeasonTable {
+    tables?: Array<{ rows?: Array<{ team_id: string }> }>;
+}
+
+const memoryCache = new Map<string, { season: CurrentSeason; loadedAt: number }>();
+const inFlight = new Map<string, Promise<CurrentSeason>>();
+const failedLookups = new Map<string, number>();
+
+/**
+ * "2025/26" for seasons spanning two years, "2026" otherwise
+ */
+export function formatSeasonName(startYear: number, endYear: number = startYear): string {
+    return startYear === endYear ? `${startYear}` : `${startYear}/${String(endYear).slice(-2)}`;
+}
+
+/**
+ * Name of the season before the given one, from its own start/end years
+ * ("2025/26" → "2024/25", "2026" → "2025"); null when the years are unknown
+ */
+export function formatPreviousSeasonName(season: Pick<CurrentSeason, 'name' | 'startDate' | 'endDate'>): string | null {
+    if (season.startDate && season.endDate) {
+        const startYear = new Date(season.startDate).getUTCFullYear();
+        const endYear = new Date(season.endDate).getUTCFullYear();
+        return formatSeasonName(startYear - 1, endYear - 1);
+    }
+
+    const match = /^(\d{4})(?:\/(\d{2}|\d{4}))?$/.exec(season.name.trim());
+    if (!match) return null;
+    const startYear = parseInt(match[1], 10);
+    const endYear = match[2] ? startYear + 1 : startYear;
+    return formatSeasonName(startYear - 1, endYear - 1);
+}
+
+function toCurrentSeason(row: DbSeason): CurrentSeason {
+    return {
+        competitionId: row.competition_id || '',
+        seasonId: row.id,
+        name: row.name,
+        year: row.year,
+        currentStageId: row.current_stage_id,
+        stages: row.stages || [],
+        totalMatchdays: row.total_matchdays,
+        teamCount: row.team_count,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        resolvedAt: row.resolved_at,
+    };
+}
+
+function needsRefresh(season: CurrentSeason): boolean {
+    if (!season.resolvedAt) return true;
+    if (Date.now() - new Date(season.resolvedAt).getTime() > REFRESH_AFTER_MS) return true;
+    // Season is over - check whether the next one has started
+    return !!season.endDate && new Date(`${season.endDate}T23:59:59Z`).getTime() < Date.now();
+}
+
+/**
+ * Group season matches into stages (ordered by first round)
+ */
+function buildStages(matches: SeasonMatch[]): SeasonStage[] {
+    const stages = new Map<string, SeasonStage>();
+
+    for (const match of matches) {
+        const stageId = match.round?.stage_id;
+        if (!stageId) continue;
+
+        const round = match.round?.round_num ?? null;
+        const stage = stages.get(stageId) || { id: stageId, firstRound: null, lastRound: null, matches: 0 };
+        stage.matches++;
+        if (round !== null) {
+            stage.firstRound = stage.firstRound === null ? round : Math.min(stage.firstRound, round);
+            stage.lastRound = stage.lastRound === null ? round : Math.max(stage.lastRound, round);
+        }
+        stages.set(stageId, stage);
+    }
+
+    return Array.from(stages.values()).sort((a, b) => (a.firstRound ?? 0) - (b.firstRound ?? 0));
+}
+
+/**
+ * Ask TheSports for the current season and derive its metadata
+ */
+async function discoverCurrentSeason(competitionId: string): Promise<Omit<DbSeason, 'updated_at'>> {
+    const [competition] = await theSportsRequest<CompetitionAdditional[]>(
+        '/v1/football/competition/additional/list',
+        { uuid: competitionId }
+    ) || [];
+
+    const seasonId = competition?.cur_season_id;
+    if (!seasonId) {
+        throw new Error(`TheSports reports no current season for competition ${competitionId}`);
+    }
+
+    // Matches and table are best effort - the season ID alone is enough to serve requests
+    const [matchesResult, tableResult] = await Promise.all([
+        theSportsRequest<SeasonMatch[]>('/v1/football/match/season/recent', { uuid: seasonId })
+            .catch(err => {
+                console.error(`[Seasons] season/recent failed for ${seasonId}:`, err);
+                return [];
+            }),
+        theSportsRequest<SeasonTable>('/v1/football/season/recent/table/detail', { uuid: seasonId })
+            .catch(err => {
+                console.error(`[Seasons] table/detail failed for ${seasonId}:`, err);
+                return null;
+            }),
+    ]);
+    const matches = Array.isArray(matchesResult) ? matchesResult : [];
+
+    const stages = buildStages(matches);
+    const currentStageId = competition.cur_stage_id
+        || stages.find(s => competition.cur_round !== undefined && s.firstRound !== null && s.lastRound !== null
+            && competition.cur_round >= s.firstRound && competition.cur_round <= s.lastRound)?.id
+        || stages[stages.length - 1]?.id
+        || null;
+
+    // Matchdays: TheSports round count, else the highest round seen in the season
+    const highestRound = stages.reduce((max, s) => Math.max(max, s.lastRound ?? 0), 0);
+    const totalMatchdays = competition.round_count || highestRound || null;
+
+    // Teams: rows across all tables (group stages have several), else distinct teams in matches
+    const tableRows = (tableResult?.tables || []).reduce((sum, t) => sum + (t.rows?.length || 0), 0);
+    const matchTeams = new Set(matches.flatMap(m => [m.home_team_id, m.away_team_id]).filter(Boolean));
+    const teamCount = tableRows || matchTeams.size || null;
+
+    // Season span from kickoff times
+    const kickoffs = matches.map(m => m.match_time).filter((t): t is number => !!t).sort((a, b) => a - b);
+    const startDate = kickoffs.length > 0 ? new Date(kickoffs[0] * 1000) : null;
+    const endDate = kickoffs.length > 0 ? new Date(kickoffs[kickoffs.length - 1] * 1000) : null;
+
+    // Prefer a name we already have (e.g. from sync-all season/list)
+    const { data: existing } = await supabase
+        .from('seasons')
+        .select('name, year')
+        .eq('id', seasonId)
+        .maybeSingle();
+
+    const year = existing?.year ?? startDate?.getUTCFullYear() ?? null;
+    const name = existing?.name
+        || (startDate && endDate ? formatSeasonName(startDate.getUTCFullYear(), endDate.getUTCFullYear()) : seasonId);
+
+    return {
+        id: seasonId,
+        competition_id: competitionId,
+        name,
+        year,
+        is_current: true,
+        start_date: startDate ? startDate.toISOString().split('T')[0] : null,
+        end_date: endDate ? endDate.toISOString().split('T')[0] : null,
+        current_stage_id: currentStageId,
+        stages,
+        total_matchdays: totalMatchdays,
+        team_count: teamCount,
+        resolved_at: new Date().toISOString(),
+    };
+}
+
+/**
+ * Discover the current season from TheSports and persist it
+ * Marks any previous season of the competition as no longer current
+ */
+export async function resolveCurrentSeason(competitionId: string): Promise<CurrentSeason> {
+    const pending = inFlight.get(competitionId);
+    if (pending) return pending;
+
+    const task = (async () => {
+        const discovered = await discoverCurrentSeason(competitionId);
+
+        const { data: previous } = await supabase
+            .from('seasons')
+            .select('id')
+            .eq('competition_id', competitionId)
+            .eq('is_current', true);
+
+        const { data, error } = await supabase
+            .from('seasons')
+            .upsert({ ...discovered, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+            .select()
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to save season ${discovered.id}: ${error.message}`);
+        }
+
+        const stale = (previous || []).map(s => s.id).filter(id => id !== discovered.id);
+        if (stale.length > 0) {
+            console.log(`[Seasons] Rollover for ${competitionId}: ${stale.join(', ')} → ${discovered.id} (${discovered.name})`);
+            await supabase
+                .from('seasons')
+                .update({ is_current: false, updated_at: new Date().toISOString() })
+                .in('id', stale);
+        }
+
+        const season = toCurrentSeason(data as DbSeason);
+        memoryCache.set(competitionId, { season, loadedAt: Date.now() });
+        failedLookups.delete(competitionId);
+        return season;
+    })();
+
+    inFlight.set(competitionId, task);
+    try {
+        return await task;
+    } finally {
+        inFlight.delete(competitionId);
+    }
+}
+
+function rememberFailedLookup(competitionId: string): void {
+    failedLookups.delete(competitionId);
+    failedLookups.set(competitionId, Date.now());
+
+    // Oldest entries first (insertion order)
+    for (const key of failedLookups.keys()) {
+        if (failedLookups.size <= MAX_FAILED_LOOKUPS) break;
+        failedLookups.delete(key);
+    }
+}
+
+/**
+ * Current season of a competition
+ * Memory cache → seasons table → TheSports discovery (tracked competitions only,
+ * when missing or due for refresh)
+ * Falls back to the stored season if discovery fails, null if nothing is known
+ * (remembered for NEGATIVE_TTL_MS so failing lookups don't hit TheSports every request)
+ */
+export async function getCurrentSeason(competitionId: string): Promise<CurrentSeason | null> {
+    const cached = memoryCache.get(competitionId);
+    if (cached && Date.now() - cached.loadedAt < MEMORY_TTL_MS) {
+        return cached.season;
+    }
+
+    const failedAt = failedLookups.get(competitionId);
+    if (failedAt !== undefined && Date.now() - failedAt < NEGATIVE_TTL_MS) {
+        return null;
+    }
+
+    const { data, error } = await supabase
+        .from('seasons')
+        .select('*')
+        .eq('competition_id', competitionId)
+        .eq('is_current', true)
+        .order('year', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`[Seasons] Failed to read current season for ${competitionId}:`, error.message);
+    }
+
+    const stored = data ? toCurrentSeason(data as DbSeason) : null;
+
+    if (stored && !needsRefresh(stored)) {
+        memoryCache.set(competitionId, { season: stored, loadedAt: Date.now() });
+        return stored;
+    }
+
+    if (!await getTrackedCompetition(competitionId)) {
+        return stored;
+    }
+
+    try {
+        return await resolveCurrentSeason(competitionId);
+    } catch (err) {
+        console.error(`[Seasons] Could not resolve current season for ${competitionId}:`, err);
+        if (stored) {
+            memoryCache.set(competitionId, { season: stored, loadedAt: Date.now() });
+        } else {
+            rememberFailedLookup(competitionId);
+        }
+        return stored;
+    }
+}
+
+/**
+ * Resolve every tracked competition (used by the daily cron)
+ */
+export async function resolveAllTrackedSeasons(): Promise<{
+    resolved: CurrentSeason[];
+    failed: Array<{ competitionId: string; error: string }>;
+}> {
+    const competitionIds = await getSyncedCompetitionIds();
+    const resolved: CurrentSeason[] = [];
+    const failed: Array<{ competitionId: string; error: string }> = [];
+
+    for (const competitionId of competitionIds) {
+        try {
+            resolved.push(await resolveCurrentSeason(competitionId));
+        } catch (err) {
+            failed.push({ competitionId, error: err instanceof Error ? err.message : 'Unknown error' });
+        }
+    }
+
+    return { resolved, failed };
+}
+
+export function clearSeasonCache(): void {
+    memoryCache.clear();
+    failedLookups.clear();
+}
+
+export const SeasonResolver = {
+    getCurrentSeason,
+    resolveCurrentSeason,
+    resolveAllTrackedSeasons,
+    formatSeasonName,
+    formatPreviousSeasonName,
+    clearCache: clearSeasonCache,
+};
+
+export default SeasonResolver;
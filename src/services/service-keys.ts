@@ -0,0 +1,66 @@
+/**
+ * Service Keys Service
+ * API keys for the protected admin, cron and debug routes (see lib/auth.ts)
+ * The key is returned once on creation - only its SHA-256 hash is stored
+ */
+
+import { generateServiceKey, hashServiceKey, ServiceRole } from '@/lib/auth';
+import { DbServiceKey, supabase } from '@/lib/supabase';
+
+export type ServiceKeyInfo = Omit<DbServiceKey, 'key_hash'>;
+
+const INFO_COLUMNS = 'id, name, role, created_at, revoked_at';
+
+export async function listServiceKeys(): Promise<ServiceKeyInfo[]> {
+    const { data, error } = await supabase
+        .from('service_keys')
+        .select(INFO_COLUMNS)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to list service keys: ${error.message}`);
+    }
+    return (data || []) as ServiceKeyInfo[];
+}
+
+export async function createServiceKey(name: string, role: ServiceRole): Promise<{ key: ServiceKeyInfo; apiKey: string }> {
+    const apiKey = generateServiceKey();
+
+    const { data, error } = await supabase
+        .from('service_keys')
+        .insert({ name, role, key_hash: hashServiceKey(apiKey) })
+        .select(INFO_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to create service key: ${error?.message || 'no row returned'}`);
+    }
+
+    console.log(`[Auth] Issued ${role} key "${name}"`);
+    return { key: data as ServiceKeyInfo, apiKey };
+}
+
+/**
+ * Revoke a key - false when it doesn't exist or was already revoked
+ */
+export async function revokeServiceKey(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('service_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .is('revoked_at', null)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to revoke service key: ${error.message}`);
+    }
+    return (data || []).length > 0;
+}
+
+export const ServiceKeysService = {
+    listServiceKeys,
+    createServiceKey,
+    revokeServiceKey,
+};
+
+export default ServiceKeysService;
@@ -0,0 +1,400 @@
+/**
+ * Standings Engine
+ * Builds a league table locally from finished matches in the matches table
+ *
+ * Used to validate the tables TheSports delivers, to generate tables for
+ * competitions TheSports doesn't cover well, and to compute the table as of
+ * matchday N. Ties on points are broken per competition (TIEBREAKERS).
+ */
+
+import { DbStanding, supabase } from '@/lib/supabase';
+import { getCurrentSeason } from './season-resolver';
+
+const FORM_LENGTH = 5;
+
+export type TiebreakRule =
+    | 'goal_difference'
+    | 'goals_for'
+    | 'wins'
+    | 'away_goals_for'
+    | 'head_to_head_points'
+    | 'head_to_head_goal_difference'
+    | 'head_to_head_goals_for'
+    | 'head_to_head_away_goals';
+
+export const TIEBREAK_PRESETS: Record<'goalDifferenceFirst' | 'headToHeadFirst', TiebreakRule[]> = {
+    // Premier League, Bundesliga: overall record decides before the direct comparison
+    goalDifferenceFirst: ['goal_difference', 'goals_for', 'head_to_head_points', 'head_to_head_away_goals', 'away_goals_for'],
+    // La Liga, Serie A: direct comparison between the tied teams decides first
+    headToHeadFirst: ['head_to_head_points', 'head_to_head_goal_difference', 'goal_difference', 'goals_for'],
+};
+
+// Per-competition tiebreak rules (competitions not listed use goal difference first)
+const TIEBREAKERS: Record<string, TiebreakRule[]> = {
+    'jednm9whz0ryox8': TIEBREAK_PRESETS.goalDifferenceFirst, // Premier League
+    'gy0or5jhg6qwzv3': TIEBREAK_PRESETS.goalDifferenceFirst, // Bundesliga
+    'vl7oqdehlyr510j': TIEBREAK_PRESETS.headToHeadFirst,     // La Liga
+    '4zp5rzghp5q82w1': TIEBREAK_PRESETS.headToHeadFirst,     // Serie A
+};
+
+export function getTiebreakRules(competitionId: string): TiebreakRule[] {
+    return TIEBREAKERS[competitionId] || TIEBREAK_PRESETS.goalDifferenceFirst;
+}
+
+export interface EngineMatch {
+    id: string;
+    home_team_id: string | null;
+    away_team_id: string | null;
+    home_score: number | null;
+    away_score: number | null;
+    round_num: number | null;
+    start_time: string;
+}
+
+export type ComputedStanding = Omit<DbStanding, 'id' | 'updated_at'>;
+
+// What the tiebreak rules look at - engine records, or live rows (live-standings)
+export interface RankableTeam {
+    teamId: string;
+    points: number;
+    won: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    away: { goalsFor: number };
+}
+
+type TeamOrder = (a: RankableTeam, b: RankableTeam) => number;
+
+const byTeamId: TeamOrder = (a, b) => a.teamId.localeCompare(b.teamId);
+
+interface TeamRecord {
+    teamId: string;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    points: number;
+    results: string[];
+    home: { played: number; won: number; drawn: number; lost: number; goalsFor: number; goalsAgainst: number; points: number };
+    away: { played: number; won: number; drawn: number; lost: number; goalsFor: number; goalsAgainst: number; points: number };
+}
+
+function emptySplit() {
+    return { played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0 };
+}
+
+function emptyRecord(teamId: string): TeamRecord {
+    return {
+        teamId, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0,
+        results: [], home: emptySplit(), away: emptySplit(),
+    };
+}
+
+function addResult(record: TeamRecord, isHome: boolean, scored: number, conceded: number) {
+    const result = scored > conceded ? 'W' : scored < conceded ? 'L' : 'D';
+    const points = result === 'W' ? 3 : result === 'D' ? 1 : 0;
+
+    for (const target of [record, isHome ? record.home : record.away]) {
+        target.played++;
+        target.goalsFor += scored;
+        target.goalsAgainst += conceded;
+        target.points += points;
+        if (result === 'W') target.won++;
+        else if (result === 'D') target.drawn++;
+        else target.lost++;
+    }
+    record.results.push(result);
+}
+
+function tally(matches: EngineMatch[], teamIds?: Iterable<string>): Map<string, TeamRecord> {
+    const records = new Map<string, TeamRecord>();
+    for (const teamId of teamIds || []) records.set(teamId, emptyRecord(teamId));
+
+    const ordered = [...matches].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    for (const match of ordered) {
+        if (!match.home_team_id || !match.away_team_id) continue;
+        const home = records.get(match.home_team_id) || emptyRecord(match.home_team_id);
+        const away = records.get(match.away_team_id) || emptyRecord(match.away_team_id);
+        const homeScore = match.home_score || 0;
+        const awayScore = match.away_score || 0;
+
+        addResult(home, true, homeScore, awayScore);
+        addResult(away, false, awayScore, homeScore);
+        records.set(home.teamId, home);
+        records.set(away.teamId, away);
+    }
+    return records;
+}
+
+/**
+ * Direct comparison only counts once every pair of tied teams has met home and away
+ */
+function isMiniLeagueComplete(teamIds: string[], matches: EngineMatch[]): boolean {
+    const played = new Set(matches.map(m => `${m.home_team_id}|${m.away_team_id}`));
+    return teamIds.every(a => teamIds.every(b => a === b || played.has(`${a}|${b}`)));
+}
+
+/**
+ * Order a group of teams that are level on points, applying the rules in turn
+ * Head-to-head rules are evaluated on the mini-league of the (remaining) tied teams
+ */
+function breakTies<T extends RankableTeam>(group: T[], rules: TiebreakRule[], matches: EngineMatch[], fallback: TeamOrder): T[] {
+    if (group.length <= 1) return group;
+    if (rules.length === 0) {
+        return [...group].sort(fallback);
+    }
+
+    const [rule, ...rest] = rules;
+    let key: (team: T) => number;
+
+    if (rule.startsWith('head_to_head')) {
+        const ids = group.map(t => t.teamId);
+        const idSet = new Set(ids);
+        const direct = matches.filter(m => idSet.has(m.home_team_id || '') && idSet.has(m.away_team_id || ''));
+        if (!isMiniLeagueComplete(ids, direct)) {
+            return breakTies(group, rest, matches, fallback);
+        }
+
+        const mini = tally(direct, ids);
+        key = team => {
+            const h2h = mini.get(team.teamId)!;
+            switch (rule) {
+                case 'head_to_head_points': return h2h.points;
+                case 'head_to_head_goal_difference': return h2h.goalsFor - h2h.goalsAgainst;
+                case 'head_to_head_goals_for': return h2h.goalsFor;
+                default: return h2h.away.goalsFor;
+            }
+        };
+    } else {
+        key = team => {
+            switch (rule) {
+                case 'goal_difference': return team.goalsFor - team.goalsAgainst;
+                case 'goals_for': return team.goalsFor;
+                case 'wins': return team.won;
+                default: return team.away.goalsFor;
+            }
+        };
+    }
+
+    // Split into sub-groups with equal key and resolve those with the remaining rules
+    const buckets = new Map<number, T[]>();
+    for (const team of group) {
+        const value = key(team);
+        buckets.set(value, [...(buckets.get(value) || []), team]);
+    }
+
+    return Array.from(buckets.entries())
+        .sort((a, b) => b[0] - a[0])
+        .flatMap(([, teams]) => breakTies(teams, rest, matches, fallback));
+}
+
+/**
+ * Order teams by points, then the competition's tiebreak rules
+ * matches are the results head-to-head rules are evaluated on; fallback orders
+ * teams no rule separates (team ID by default)
+ */
+export function rankTeams<T extends RankableTeam>(
+    teams: Iterable<T>,
+    rules: TiebreakRule[],
+    matches: EngineMatch[],
+    fallback: TeamOrder = byTeamId
+): T[] {
+    const byPoints = new Map<number, T[]>();
+    for (const team of teams) {
+        byPoints.set(team.points, [...(byPoints.get(team.points) || []), team]);
+    }
+
+    return Array.from(byPoints.entries())
+        .sort((a, b) => b[0] - a[0])
+        .flatMap(([, group]) => breakTies(group, rules, matches, fallback));
+}
+
+/**
+ * Build a table from finished matches
+ * Pure function - teamIds adds teams without a finished match yet
+ */
+export function buildStandingsTable(
+    matches: EngineMatch[],
+    rules: TiebreakRule[],
+    teamIds?: Iterable<string>
+): Array<TeamRecord & { position: number; form: string }> {
+    const records = tally(matches, teamIds);
+    const ordered = rankTeams(records.values(), rules, matches);
+
+    return ordered.map((record, idx) => ({
+        ...record,
+        position: idx + 1,
+        form: record.results.slice(-FORM_LENGTH).join(''),
+    }));
+}
+
+/**
+ * Finished matches of a season from the matches table
+ */
+export async function loadFinishedMatches(competitionId: string, seasonId: string): Promise<EngineMatch[]> {
+    const matches: EngineMatch[] = [];
+    const pageSize = 1000;
+
+    for (let from = 0; ; from += pageSize) {
+        const { data, error } = await supabase
+            .from('matches')
+            .select('id, home_team_id, away_team_id, home_score, away_score, round_num, start_time')
+            .eq('competition_id', competitionId)
+            .eq('season_id', seasonId)
+            .eq('status', 'finished')
+            .order('start_time', { ascending: true })
+            .range(from, from + pageSize - 1);
+
+        if (error) {
+            throw new Error(`Failed to load matches: ${error.message}`);
+        }
+        matches.push(...(data || []));
+        if (!data || data.length < pageSize) break;
+    }
+
+    return matches;
+}
+
+/**
+ * Compute a competition's table from stored results
+ * matchday limits the table to rounds 1..N ("table as of matchday N")
+ * null when no season was given and the competition has no current season
+ */
+export async function computeStandings(competitionId: string, options: {
+    seasonId?: string;
+    matchday?: number;
+} = {}): Promise<{
+    seasonId: string;
+    matchday: number | null;
+    rules: TiebreakRule[];
+    matchesCounted: number;
+    rows: ComputedStanding[];
+} | null> {
+    const season = options.seasonId ? null : await getCurrentSeason(competitionId);
+    const seasonId = options.seasonId || season?.seasonId;
+    if (!seasonId) return null;
+
+    const allMatches = await loadFinishedMatches(competitionId, seasonId);
+    const matchday = options.matchday ?? null;
+    const matches = matchday === null
+        ? allMatches
+        : allMatches.filter(m => m.round_num !== null && m.round_num <= matchday);
+
+    // Every team of the season appears, even before its first result
+    const teamIds = new Set(allMatches.flatMap(m => [m.home_team_id, m.away_team_id]).filter((id): id is string => !!id));
+    const rules = getTiebreakRules(competitionId);
+    const table = buildStandingsTable(matches, rules, teamIds);
+
+    const teamMap = new Map<string, { name: string; logo: string | null }>();
+    if (teamIds.size > 0) {
+        const { data: teams } = await supabase
+            .from('teams')
+            .select('id, name, logo')
+            .in('id', Array.from(teamIds));
+        for (const team of teams || []) {
+            teamMap.set(team.id, { name: team.name, logo: team.logo });
+        }
+    }
+
+    const rows: ComputedStanding[] = table.map(record => ({
+        competition_id: competitionId,
+        season_id: seasonId,
+        stage_id: season?.currentStageId || null,
+        table_id: '',
+        group_name: null,
+        team_id: record.teamId,
+        team_name: teamMap.get(record.teamId)?.name || null,
+        team_logo: teamMap.get(record.teamId)?.logo || null,
+        position: record.position,
+        played: record.played,
+        won: record.won,
+        drawn: record.drawn,
+        lost: record.lost,
+        goals_for: record.goalsFor,
+        goals_against: record.goalsAgainst,
+        goal_difference: record.goalsFor - record.goalsAgainst,
+        points: record.points,
+        deduct_points: 0,
+        note: null,
+        form: record.form || null,
+        promotion_id: null,
+        promotion_name: null,
+        promotion_color: null,
+        home_played: record.home.played,
+        home_won: record.home.won,
+        home_drawn: record.home.drawn,
+        home_lost: record.home.lost,
+        home_goals_for: record.home.goalsFor,
+        home_goals_against: record.home.goalsAgainst,
+        home_points: record.home.points,
+        away_played: record.away.played,
+        away_won: record.away.won,
+        away_drawn: record.away.drawn,
+        away_lost: record.away.lost,
+        away_goals_for: record.away.goalsFor,
+        away_goals_against: record.away.goalsAgainst,
+        away_points: record.away.points,
+    }));
+
+    return { seasonId, matchday, rules, matchesCounted: matches.length, rows };
+}
+
+/**
+ * Compare the stored (TheSports) table with the locally computed one
+ * Only meaningful when the matches table holds every finished match of the season
+ * null when the competition has no current season
+ */
+export async function validateStandings(competitionId: string): Promise<{
+    seasonId: string;
+    matchesCounted: number;
+    consistent: boolean;
+    differences: Array<{ teamId: string; field: string; stored: number | null; computed: number | null }>;
+} | null> {
+    const computed = await computeStandings(competitionId);
+    if (!computed) return null;
+
+    const { data: stored, error } = await supabase
+        .from('standings')
+        .select('team_id, position, played, points, goal_difference, goals_for')
+        .eq('competition_id', competitionId)
+        .eq('season_id', computed.seasonId)
+        .eq('table_id', '');
+
+    if (error) {
+        throw new Error(`Failed to read standings: ${error.message}`);
+    }
+
+    const computedByTeam = new Map(computed.rows.map(r => [r.team_id, r]));
+    const fields = ['position', 'played', 'points', 'goal_difference', 'goals_for'] as const;
+    const differences: Array<{ teamId: string; field: string; stored: number | null; computed: number | null }> = [];
+
+    for (const row of stored || []) {
+        const local = computedByTeam.get(row.team_id);
+        for (const field of fields) {
+            const computedValue = local ? local[field] : null;
+            if (row[field] !== computedValue) {
+                differences.push({ teamId: row.team_id, field, stored: row[field], computed: computedValue });
+            }
+        }
+    }
+
+    return {
+        seasonId: computed.seasonId,
+        matchesCounted: computed.matchesCounted,
+        consistent: differences.length === 0,
+        differences,
+    };
+}
+
+export const StandingsEngine = {
+    buildStandingsTable,
+    rankTeams,
+    loadFinishedMatches,
+    computeStandings,
+    validateStandings,
+    getTiebreakRules,
+};
+
+export default StandingsEngine;
@@ -0,0 +1,185 @@
+/**
+ * Standings History Service
+ * Stores a snapshot of each competition's table after every completed matchday
+ * (standings_snapshots) and serves position-over-time data
+ *
+ * Snapshots are computed with the standings engine from the season's fixtures,
+ * so the table of matchday N only contains rounds 1..N even when matches of
+ * later rounds were played early. Missing rounds are backfilled on the next sync.
+ */
+
+import { DbStandingSnapshot, supabase } from '@/lib/supabase';
+import { getCurrentSeason } from './season-resolver';
+import { buildStandingsTable, EngineMatch, getTiebreakRules } from './standings-engine';
+
+// TheSports status ids of matches that will not be played (any more) in their round
+const FINISHED_STATUS = 8;
+const NOT_PLAYED_STATUSES = [0, 9, 10, 11, 12];
+
+export interface SeasonFixture extends EngineMatch {
+    status_id: number;
+    stage_id: string | null;
+}
+
+/**
+ * Rounds in which every match is finished (postponed/cancelled matches don't block)
+ */
+function completedRounds(fixtures: SeasonFixture[]): number[] {
+    const rounds = new Map<number, { finished: number; open: number }>();
+    for (const fixture of fixtures) {
+        if (fixture.round_num === null) continue;
+        const round = rounds.get(fixture.round_num) || { finished: 0, open: 0 };
+        if (fixture.status_id === FINISHED_STATUS) round.finished++;
+        else if (!NOT_PLAYED_STATUSES.includes(fixture.status_id)) round.open++;
+        rounds.set(fixture.round_num, round);
+    }
+
+    return Array.from(rounds.entries())
+        .filter(([, r]) => r.open === 0 && r.finished > 0)
+        .map(([round]) => round)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Write snapshots for completed matchdays that don't have one yet
+ * Returns the rounds that were written
+ */
+export async function snapshotCompletedMatchdays(
+    competitionId: string,
+    seasonId: string,
+    stageId: string | null,
+    fixtures: SeasonFixture[],
+    teamNames: Map<string, string> = new Map()
+): Promise<number[]> {
+    // Only the league stage has matchdays (skip qualifiers and knockout rounds)
+    const leagueFixtures = stageId ? fixtures.filter(f => f.stage_id === stageId) : fixtures;
+    const rounds = completedRounds(leagueFixtures);
+    if (rounds.length === 0) return [];
+
+    const { data: existing, error } = await supabase
+        .from('standings_snapshots')
+        .select('round_num')
+        .eq('season_id', seasonId)
+        .in('round_num', rounds);
+
+    if (error) {
+        throw new Error(`Failed to read snapshots: ${error.message}`);
+    }
+
+    const done = new Set((existing || []).map(r => r.round_num));
+    const missing = rounds.filter(r => !done.has(r));
+    if (missing.length === 0) return [];
+
+    const finished = leagueFixtures.filter(f => f.status_id === FINISHED_STATUS);
+    const teamIds = new Set(leagueFixtures.flatMap(f => [f.home_team_id, f.away_team_id]).filter((id): id is string => !!id));
+    const rules = getTiebreakRules(competitionId);
+
+    const records = missing.flatMap(round => {
+        const table = buildStandingsTable(
+            finished.filter(f => f.round_num !== null && f.round_num <= round),
+            rules,
+            teamIds
+        );
+
+        return table.map(row => ({
+            competition_id: competitionId,
+            season_id: seasonId,
+            round_num: round,
+            team_id: row.teamId,
+            team_name: teamNames.get(row.teamId) || null,
+            position: row.position,
+            played: row.played,
+            won: row.won,
+            drawn: row.drawn,
+            lost: row.lost,
+            goals_for: row.goalsFor,
+            goals_against: row.goalsAgainst,
+            goal_difference: row.goalsFor - row.goalsAgainst,
+            points: row.points,
+        }));
+    });
+
+    const { error: insertError } = await supabase
+        .from('standings_snapshots')
+        .upsert(records, { onConflict: 'season_id,round_num,team_id' });
+
+    if (insertError) {
+        throw new Error(`Failed to save snapshots: ${insertError.message}`);
+    }
+
+    console.log(`[Standings] Snapshots for ${competitionId} matchday(s) ${missing.join(', ')}`);
+    return missing;
+}
+
+export interface TeamHistoryPoint {
+    round: number;
+    position: number;
+    points: number;
+    goalDifference: number;
+    played: number;
+}
+
+/**
+ * Position, points and goal difference per matchday
+ * With teamId only that team, otherwise every team of the season
+ */
+export async function getStandingsHistory(competitionId: string, options: {
+    teamId?: string;
+    seasonId?: string;
+} = {}): Promise<{
+    seasonId: string | null;
+    teams: Array<{ teamId: string; team: string | null; history: TeamHistoryPoint[] }>;
+}> {
+    const seasonId = options.seasonId || (await getCurrentSeason(competitionId))?.seasonId;
+    if (!seasonId) {
+        return { seasonId: null, teams: [] };
+    }
+
+    const snapshots: DbStandingSnapshot[] = [];
+    const pageSize = 1000;
+
+    for (let from = 0; ; from += pageSize) {
+        let query = supabase
+            .from('standings_snapshots')
+            .select('*')
+            .eq('competition_id', competitionId)
+            .eq('season_id', seasonId);
+
+        if (options.teamId) {
+            query = query.eq('team_id', options.teamId);
+        }
+
+        const { data, error } = await query
+            .order('round_num', { ascending: true })
+            .order('position', { ascending: true })
+            .range(from, from + pageSize - 1);
+
+        if (error) {
+            throw new Error(`Failed to read standings history: ${error.message}`);
+        }
+        snapshots.push(...(data || []));
+        if (!data || data.length < pageSize) break;
+    }
+
+    const teams = new Map<string, { teamId: string; team: string | null; history: TeamHistoryPoint[] }>();
+    for (const snapshot of snapshots) {
+        const entry = teams.get(snapshot.team_id) || { teamId: snapshot.team_id, team: snapshot.team_name, history: [] };
+        entry.history.push({
+            round: snapshot.round_num,
+            position: snapshot.position,
+            points: snapshot.points,
+            goalDifference: snapshot.goal_difference,
+            played: snapshot.played,
+        });
+        teams.set(snapshot.team_id, entry);
+    }
+
+    return { seasonId, teams: Array.from(teams.values()) };
+}
+
+export const StandingsHistoryService = {
+    snapshotCompletedMatchdays,
+    getStandingsHistory,
+};
+
+export default StandingsHistoryService;
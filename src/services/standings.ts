@@ -0,0 +1,424 @@
+/**
+ * Standings Service
+ * Syncs full league tables from TheSports into the standings table and
+ * serves them to the league routes
+ *
+ * Rows include zone/promotion, form (last 5 results) and home/away splits.
+ * Group stages produce several tables per season, distinguished by table_id.
+ * Seasons without an upstream table fall back to the standings engine.
+ * Each sync also snapshots newly completed matchdays (standings-history).
+ */
+
+import { DEFAULT_LOCALE, getPromotionLabel, Locale } from '@/lib/i18n';
+import { DbStanding, supabase } from '@/lib/supabase';
+import { getCurrentSeason } from './season-resolver';
+import { computeStandings } from './standings-engine';
+import { SeasonFixture, snapshotCompletedMatchdays } from './standings-history';
+import { theSportsRequest } from './thesports';
+import { getSyncedCompetitionIds } from './tracked-competitions';
+
+const FORM_LENGTH = 5;
+// A season without stored rows is synced on demand at most this often - the cron does the refreshing
+const ON_DEMAND_SYNC_TTL_MS = 30 * 60 * 1000;
+
+// season_id → last on-demand sync attempt (also when it stored nothing or failed)
+const onDemandSyncs = new Map<string, number>();
+
+interface TableDetailRow {
+    team_id: string;
+    promotion_id?: string;
+    points?: number;
+    position?: number;
+    deduct_points?: number;
+    note?: string;
+    total?: number;
+    won?: number;
+    draw?: number;
+    loss?: number;
+    goals?: number;
+    goals_against?: number;
+    goal_diff?: number;
+    home_points?: number;
+    home_total?: number;
+    home_won?: number;
+    home_draw?: number;
+    home_loss?: number;
+    home_goals?: number;
+    home_goals_against?: number;
+    away_points?: number;
+    away_total?: number;
+    away_won?: number;
+    away_draw?: number;
+    away_loss?: number;
+    away_goals?: number;
+    away_goals_against?: number;
+}
+
+interface SeasonTableDetail {
+    promotions?: Array<{ id: string; name: string; color: string }>;
+    tables?: Array<{ id?: string; group?: number; stage_id?: string; rows?: TableDetailRow[] }>;
+}
+
+interface SeasonMatch {
+    id: string;
+    home_team_id?: string;
+    away_team_id?: string;
+    match_time?: number;
+    status_id?: number;
+    home_scores?: number[];
+    away_scores?: number[];
+    round?: { stage_id?: string; round_num?: number };
+}
+
+// Get zone color based on promotion type (for consistent styling)
+export function getZoneColor(promotionName: string, apiColor: string): string {
+    const lowerName = promotionName.toLowerCase();
+
+    // Use API color if provided and not a generic gray
+    if (apiColor && apiColor !== '#B1A7A7' && apiColor !== '#000000') {
+        return apiColor;
+    }
+
+    // Fallback colors for common categories
+    if (lowerName.includes('champions league') || lowerName.includes('cl ')) return '#0066FF';
+    if (lowerName.includes('europa league') && !lowerName.includes('conference')) return '#FFB800';
+    if (lowerName.includes('conference') || lowerName.includes('ecl')) return '#00C853';
+    if (lowerName.includes('relegation playoff')) return '#FF9500';
+    if (lowerName.includes('degrade') || lowerName.includes('abstieg')) return '#FF3B30';
+    if (lowerName.includes('promoted') || lowerName.includes('promotion') || lowerName.includes('aufstieg')) return '#00D26A';
+    if (lowerName.includes('playoff')) return '#5AC8FA';
+    if (lowerName.includes('eliminated') || lowerName.includes('ausgeschieden')) return '#8E8E93';
+
+    return apiColor || '#8E8E93';
+}
+
+/**
+ * Last FORM_LENGTH results per team from finished season matches
+ * Oldest first, e.g. "WWDLW"
+ */
+function buildFormMap(matches: SeasonMatch[]): Map<string, string> {
+    const results = new Map<string, string[]>();
+    const finished = matches
+        .filter(m => m.status_id === 8 && m.match_time)
+        .sort((a, b) => (a.match_time || 0) - (b.match_time || 0));
+
+    const push = (teamId: string | undefined, result: string) => {
+        if (!teamId) return;
+        const list = results.get(teamId) || [];
+        list.push(result);
+        results.set(teamId, list);
+    };
+
+    for (const match of finished) {
+        const home = match.home_scores?.[0] ?? 0;
+        const away = match.away_scores?.[0] ?? 0;
+        push(match.home_team_id, home > away ? 'W' : home < away ? 'L' : 'D');
+        push(match.away_team_id, away > home ? 'W' : away < home ? 'L' : 'D');
+    }
+
+    const form = new Map<string, string>();
+    for (const [teamId, list] of results) {
+        form.set(teamId, list.slice(-FORM_LENGTH).join(''));
+    }
+    return form;
+}
+
+/**
+ * Fetch the current table of a competition from TheSports and persist it
+ */
+export async function syncCompetitionStandings(competitionId: string): Promise<{
+    competitionId: string;
+    seasonId: string;
+    tables: number;
+    rows: number;
+}> {
+    const season = await getCurrentSeason(competitionId);
+    if (!season) {
+        throw new Error(`No current season found for competition ${competitionId}`);
+    }
+
+    const [detail, seasonMatches] = await Promise.all([
+        theSportsRequest<SeasonTableDetail>('/v1/football/season/recent/table/detail', { uuid: season.seasonId }),
+        // Form is best effort - the table itself is what matters
+        theSportsRequest<SeasonMatch[]>('/v1/football/match/season/recent', { uuid: season.seasonId })
+            .catch(err => {
+                console.error(`[Standings] season/recent failed for ${season.seasonId}:`, err);
+                return [];
+            }),
+    ]);
+
+    const tables = (detail?.tables || []).filter(t => (t.rows || []).length > 0);
+    const promotions = new Map((detail?.promotions || []).map(p => [p.id, p]));
+    const formMap = buildFormMap(Array.isArray(seasonMatches) ? seasonMatches : []);
+
+    const teamIds = tables.flatMap(t => (t.rows || []).map(r => r.team_id));
+    const teamMap = new Map<string, { name: string; logo: string | null }>();
+    if (teamIds.length > 0) {
+        const { data: teams, error: teamsError } = await supabase
+            .from('teams')
+            .select('id, name, logo')
+            .in('id', teamIds);
+
+        if (teamsError) {
+            console.error('[Standings] Teams fetch error:', teamsError.message);
+        }
+        for (const team of teams || []) {
+            teamMap.set(team.id, { name: team.name, logo: team.logo });
+        }
+    }
+
+    const syncedAt = new Date().toISOString();
+
+    // Matchday snapshots for the history API (single-table leagues only, best effort)
+    if (tables.length <= 1 && Array.isArray(seasonMatches) && seasonMatches.length > 0) {
+        const fixtures: SeasonFixture[] = seasonMatches.map(m => ({
+            id: m.id,
+            home_team_id: m.home_team_id || null,
+            away_team_id: m.away_team_id || null,
+            home_score: m.home_scores?.[0] ?? 0,
+            away_score: m.away_scores?.[0] ?? 0,
+            round_num: m.round?.round_num ?? null,
+            start_time: new Date((m.match_time || 0) * 1000).toISOString(),
+            status_id: m.status_id ?? 1,
+            stage_id: m.round?.stage_id || null,
+        }));
+        const teamNames = new Map(Array.from(teamMap.entries()).map(([id, t]) => [id, t.name]));
+
+        await snapshotCompletedMatchdays(competitionId, season.seasonId, season.currentStageId, fixtures, teamNames)
+            .catch(err => console.error(`[Standings] Snapshot failed for ${competitionId}:`, err));
+    }
+
+    // TheSports has no table for this season - build it from our own results
+    if (tables.length === 0) {
+        const computed = await computeStandings(competitionId, { seasonId: season.seasonId });
+        if (computed && computed.rows.length > 0) {
+            console.log(`[Standings] No upstream table for ${competitionId}, using computed table (${computed.matchesCounted} matches)`);
+            const { error } = await supabase
+                .from('standings')
+                .upsert(computed.rows.map(row => ({ ...row, updated_at: syncedAt })), { onConflict: 'season_id,table_id,team_id' });
+
+            if (error) {
+                throw new Error(`Failed to save standings for ${competitionId}: ${error.message}`);
+            }
+        }
+        const rows = computed?.rows.length ?? 0;
+        return { competitionId, seasonId: season.seasonId, tables: rows > 0 ? 1 : 0, rows };
+    }
+
+    const records = tables.flatMap((table, tableIdx) => (table.rows || []).map((row, idx) => {
+        const promotion = row.promotion_id ? promotions.get(row.promotion_id) : undefined;
+        const team = teamMap.get(row.team_id);
+        const goalsFor = row.goals || 0;
+        const goalsAgainst = row.goals_against || 0;
+
+        return {
+            competition_id: competitionId,
+            season_id: season.seasonId,
+            stage_id: table.stage_id || season.currentStageId,
+            table_id: table.id || (tables.length > 1 ? String(tableIdx) : ''),
+            group_name: table.group ? String.fromCharCode(64 + table.group) : null,
+            team_id: row.team_id,
+            team_name: team?.name || null,
+            team_logo: team?.logo || null,
+            position: row.position || idx + 1,
+            played: row.total || 0,
+            won: row.won || 0,
+            drawn: row.draw || 0,
+            lost: row.loss || 0,
+            goals_for: goalsFor,
+            goals_against: goalsAgainst,
+            goal_difference: row.goal_diff ?? goalsFor - goalsAgainst,
+            points: row.points || 0,
+            deduct_points: row.deduct_points || 0,
+            note: row.note || null,
+            form: formMap.get(row.team_id) || null,
+            promotion_id: row.promotion_id || null,
+            promotion_name: promotion?.name || null,
+            promotion_color: promotion ? getZoneColor(promotion.name, promotion.color) : null,
+            home_played: row.home_total ?? null,
+            home_won: row.home_won ?? null,
+            home_drawn: row.home_draw ?? null,
+            home_lost: row.home_loss ?? null,
+            home_goals_for: row.home_goals ?? null,
+            home_goals_against: row.home_goals_against ?? null,
+            home_points: row.home_points ?? null,
+            away_played: row.away_total ?? null,
+            away_won: row.away_won ?? null,
+            away_drawn: row.away_draw ?? null,
+            away_lost: row.away_loss ?? null,
+            away_goals_for: row.away_goals ?? null,
+            away_goals_against: row.away_goals_against ?? null,
+            away_points: row.away_points ?? null,
+            updated_at: syncedAt,
+        };
+    }));
+
+    if (records.length > 0) {
+        const { error } = await supabase
+            .from('standings')
+            .upsert(records, { onConflict: 'season_id,table_id,team_id' });
+
+        if (error) {
+            throw new Error(`Failed to save standings for ${competitionId}: ${error.message}`);
+        }
+
+        // Drop rows that are no longer part of the table (e.g. team moved group)
+        await supabase
+            .from('standings')
+            .delete()
+            .eq('season_id', season.seasonId)
+            .lt('updated_at', syncedAt);
+    }
+
+    return { competitionId, seasonId: season.seasonId, tables: tables.length, rows: records.length };
+}
+
+/**
+ * Sync standings for every tracked competition (used by the cron)
+ */
+export async function syncAllStandings(): Promise<{
+    synced: number;
+    errors: number;
+    competitions: Array<{ competitionId: string; seasonId?: string; rows?: number; error?: string }>;
+}> {
+    const competitionIds = await getSyncedCompetitionIds();
+    const competitions: Array<{ competitionId: string; seasonId?: string; rows?: number; error?: string }> = [];
+    let synced = 0;
+    let errors = 0;
+
+    for (const competitionId of competitionIds) {
+        try {
+            const result = await syncCompetitionStandings(competitionId);
+            competitions.push({ competitionId, seasonId: result.seasonId, rows: result.rows });
+            synced += result.rows;
+        } catch (err) {
+            console.error(`[Standings] ${competitionId} failed:`, err);
+            competitions.push({ competitionId, error: err instanceof Error ? err.message : 'Unknown error' });
+            errors++;
+        }
+    }
+
+    return { synced, errors, competitions };
+}
+
+/**
+ * Stored standings of a competition's current season, ordered by table and position
+ * Syncs on demand when nothing has been stored yet (e.g. before the first cron run),
+ * once per ON_DEMAND_SYNC_TTL_MS per season so empty tables don't hit TheSports per request
+ */
+export async function getStandings(competitionId: string): Promise<{
+    seasonId: string | null;
+    rows: DbStanding[];
+}> {
+    const season = await getCurrentSeason(competitionId);
+    if (!season) {
+        return { seasonId: null, rows: [] };
+    }
+
+    const read = async () => {
+        const { data, error } = await supabase
+            .from('standings')
+            .select('*')
+            .eq('competition_id', competitionId)
+            .eq('season_id', season.seasonId)
+            .order('table_id', { ascending: true })
+            .order('position', { ascending: true });
+
+        if (error) {
+            throw new Error(`Failed to read standings: ${error.message}`);
+        }
+        return (data || []) as DbStanding[];
+    };
+
+    let rows = await read();
+    const attemptedAt = onDemandSyncs.get(season.seasonId);
+    if (rows.length === 0 && (attemptedAt === undefined || Date.now() - attemptedAt >= ON_DEMAND_SYNC_TTL_MS)) {
+        onDemandSyncs.set(season.seasonId, Date.now());
+        console.log(`[Standings] No stored table for ${competitionId}, syncing on demand`);
+        const result = await syncCompetitionStandings(competitionId);
+        if (result.rows > 0) {
+            rows = await read();
+        }
+    }
+
+    return { seasonId: season.seasonId, rows };
+}
+
+/**
+ * Split stored rows into their tables (one per group in group stages)
+ */
+export function groupStandingTables(rows: DbStanding[]): Array<{ tableId: string; group: string | null; rows: DbStanding[] }> {
+    const tables = new Map<string, { tableId: string; group: string | null; rows: DbStanding[] }>();
+    for (const row of rows) {
+        const table = tables.get(row.table_id) || { tableId: row.table_id, group: row.group_name, rows: [] };
+        table.rows.push(row);
+        tables.set(row.table_id, table);
+    }
+    return Array.from(tables.values());
+}
+
+/**
+ * API representation of a stored standings row
+ */
+export function formatStandingRow(row: Omit<DbStanding, 'id' | 'updated_at'>, locale: Locale = DEFAULT_LOCALE) {
+    return {
+        position: row.position || 0,
+        teamId: row.team_id,
+        team: row.team_name || 'Unknown',
+        logo: row.team_logo || '',
+        played: row.played || 0,
+        won: row.won || 0,
+        drawn: row.drawn || 0,
+        lost: row.lost || 0,
+        goals: `${row.goals_for || 0}:${row.goals_against || 0}`,
+        goalDiff: row.goal_difference || 0,
+        points: row.points || 0,
+        form: row.form || '',
+        zone: row.promotion_id || null, // Use promotion_id as unique zone
+        zoneLabel: row.promotion_name ? getPromotionLabel(row.promotion_name, locale) : null,
+        zoneColor: row.promotion_color || null,
+        home: {
+            played: row.home_played || 0,
+            won: row.home_won || 0,
+            drawn: row.home_drawn || 0,
+            lost: row.home_lost || 0,
+            goals: `${row.home_goals_for || 0}:${row.home_goals_against || 0}`,
+            points: row.home_points || 0,
+        },
+        away: {
+            played: row.away_played || 0,
+            won: row.away_won || 0,
+            drawn: row.away_drawn || 0,
+            lost: row.away_lost || 0,
+            goals: `${row.away_goals_for || 0}:${row.away_goals_against || 0}`,
+            points: row.away_points || 0,
+        },
+    };
+}
+
+/**
+ * Zones used in the given rows (for the frontend legend)
+ */
+export function buildPromotionLegend(rows: DbStanding[], locale: Locale = DEFAULT_LOCALE): Array<{ zone: string; label: string; color: string }> {
+    const legend = new Map<string, { zone: string; label: string; color: string }>();
+    for (const row of rows) {
+        if (!row.promotion_id || legend.has(row.promotion_id)) continue;
+        legend.set(row.promotion_id, {
+            zone: row.promotion_id,
+            label: row.promotion_name ? getPromotionLabel(row.promotion_name, locale) : '',
+            color: row.promotion_color || '#8E8E93',
+        });
+    }
+    return Array.from(legend.values());
+}
+
+export const StandingsService = {
+    syncCompetitionStandings,
+    syncAllStandings,
+    getStandings,
+    groupStandingTables,
+    formatStandingRow,
+    buildPromotionLegend,
+};
+
+export default StandingsService;
@@ -5,51 +5,11 @@
 
 import { supabase } from '@/lib/supabase';
 import { ensureCachesLoaded, getCacheStats, getCompetitionById, getCountryById, getTeamById } from './cache';
-
-const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-
-// Status mapping from TheSports API (based on official documentation)
-const STATUS_MAP: Record<number, string> = {
-    0: 'cancelled',   // Abnormal (suggest hiding)
-    1: 'scheduled',   // Not started
-    2: 'live',        // First half
-    3: 'halftime',    // Half-time
-    4: 'live',        // Second half
-    5: 'live',        // Overtime
-    6: 'live',        // Overtime (deprecated)
-    7: 'live',        // Penalty Shoot-out
-    8: 'finished',    // End
-    9: 'postponed',   // Delay
-    10: 'suspended',  // Interrupt
-    11: 'suspended',  // Cut in half
-    12: 'cancelled',  // Cancel
-    13: 'scheduled',  // To be determined
-};
-
-// TOP 10 LEAGUES - Only sync these competitions
-const TOP_LEAGUE_IDS = new Set([
-    // England
-    'jednm9whz0ryox8', // Premier League
-    'l965mkyh32r1ge4', // Championship (corrected)
-    // Germany
-    'gy0or5jhg6qwzv3', // Bundesliga (corrected)
-    // Spain  
-    'vl7oqdehlyr510j', // La Liga
-    // Italy
-    '4zp5rzghp5q82w1', // Serie A
-    // France
-    'yl5ergphnzr8k0o', // Ligue 1 (corrected)
-    // Netherlands
-    'vl7oqdeheyr510j', // Eredivisie
-    // Portugal
-    '9vjxm8ghx2r6odg', // Primeira Liga (corrected)
-    // UEFA
-    'z8yomo4h7wq0j6l', // Champions League
-    '56ypq3nh0xmd7oj', // Europa League
-    'p4jwq2gh754m0ve', // Conference League
-]);
+import { publishStatusChange } from './domain-events';
+import { computeClock } from './match-clock';
+import { resolveStatusTransition, statusFromTheSports } from './match-status';
+import { theSportsRequest } from './thesports';
+import { getSyncedCompetitionIds } from './tracked-competitions';
 
 // Fallback logos for competitions (in case API doesn't provide one)
 const COMPETITION_LOGOS: Record<string, string> = {
@@ -58,58 +18,6 @@ const COMPETITION_LOGOS: Record<string, string> = {
     'p4jwq2gh754m0ve': 'https://img.thesports.com/football/competition/88637a74a2cbd634b8b9504a60d711cd.png', // Conference League
 };
 
-/**
- * Fetch from TheSports API
- */
-async function fetchFromApi<T>(endpoint: string, params: Record<string, string> = {}): Promise<T | null> {
-    const url = new URL(`${API_URL}${endpoint}`);
-    url.searchParams.set('user', USERNAME);
-    url.searchParams.set('secret', API_KEY);
-    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
-
-    try {
-        const response = await fetch(url.toString(), {
-            headers: { 'Accept': 'application/json' },
-            cache: 'no-store',
-        });
-
-        if (!response.ok) {
-            console.error(`[Sync] API Error: ${response.status}`);
-            return null;
-        }
-
-        const data = await response.json();
-        if (data.err) {
-            console.error(`[Sync] API Error: ${data.err}`);
-            return null;
-        }
-
-        return data.results || data.data || data;
-    } catch (error) {
-        console.error('[Sync] Fetch error:', error);
-        return null;
-    }
-}
-
-/**
- * Calculate match minute based on status
- */
-function calculateMinute(rawMinute: number | string | undefined, statusId: number): number | null {
-    if (rawMinute === undefined || rawMinute === null) return null;
-
-    let minute = typeof rawMinute === 'string' ? parseInt(rawMinute, 10) : rawMinute;
-    if (isNaN(minute)) return null;
-
-    // Add 45 for second half, 90 for extra time
-    if (statusId === 5 || statusId === 6) {
-        minute = minute + 45;
-    } else if (statusId === 7) {
-        minute = minute + 90;
-    }
-
-    return minute;
-}
-
 interface LiveMatchScore {
     id: string;
     score?: [string, number, number[], number[], number | string, string];
@@ -124,15 +32,24 @@ export async function syncLiveMatches(): Promise<{ synced: number; errors: numbe
 
     console.log('[Sync] Fetching live matches...');
 
-    const matches = await fetchFromApi<LiveMatchScore[]>('/v1/football/match/detail_live');
+    // Upstream errors propagate so the caller can tell an outage from "no live matches"
+    const matches = await theSportsRequest<LiveMatchScore[]>('/v1/football/match/detail_live');
 
-    if (!matches || !Array.isArray(matches) || matches.length === 0) {
+    if (!Array.isArray(matches) || matches.length === 0) {
         console.log('[Sync] No live matches found');
         return { synced: 0, errors: 0 };
     }
 
     console.log(`[Sync] Updating ${matches.length} live matches (score/status only)`);
 
+    // Stored statuses for transition checks
+    const { data: stored } = await supabase
+        .from('matches')
+        .select('id, status, competition_id')
+        .in('id', matches.map(m => m.id));
+    const storedStatus = new Map((stored || []).map(m => [m.id as string, m.status as string]));
+    const storedCompetition = new Map((stored || []).map(m => [m.id as string, m.competition_id as string | null]));
+
     for (const match of matches) {
         try {
             const score = match.score;
@@ -143,22 +60,36 @@ export async function syncLiveMatches(): Promise<{ synced: number; errors: numbe
             const awayScores = score[3] ?? [0];
             const rawMinute = score[4];
 
-            const status = STATUS_MAP[statusId] || 'live';
-            const minute = calculateMinute(rawMinute, statusId);
+            const { status, allowed } = resolveStatusTransition(
+                match.id, storedStatus.get(match.id), statusFromTheSports(statusId), 'live-sync'
+            );
+            // Stale data (e.g. live after finished) - leave the match untouched
+            if (!allowed) continue;
+            const clock = computeClock(statusId, rawMinute);
 
             const { error } = await supabase
                 .from('matches')
                 .update({
                     status: status,
-                    minute: minute,
+                    minute: clock.minute,
+                    minute_display: clock.display,
+                    period: clock.period,
+                    period_started_at: clock.periodStartedAt ? new Date(clock.periodStartedAt * 1000).toISOString() : null,
                     home_score: homeScores[0] || 0,
                     away_score: awayScores[0] || 0,
                     updated_at: new Date().toISOString(),
                 })
                 .eq('id', match.id);
 
-            if (!error) synced++;
-            else errors++;
+            if (!error) {
+                synced++;
+                publishStatusChange(match.id, storedStatus.get(match.id), status, 'live-sync', {
+                    score: { home: homeScores[0] || 0, away: awayScores[0] || 0 },
+                    competitionId: storedCompetition.get(match.id),
+                });
+            } else {
+                errors++;
+            }
         } catch {
             errors++;
         }
@@ -173,10 +104,12 @@ interface DiaryMatch {
     home_team_id?: string;
     away_team_id?: string;
     competition_id?: string;
+    season_id?: string;
     status_id?: number;
     match_time?: number;
     home_scores?: number[];
     away_scores?: number[];
+    round?: { stage_id?: string; round_num?: number };
 }
 
 /**
@@ -200,18 +133,20 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
     const apiDate = date.replace(/-/g, ''); // Convert 2025-12-28 to 20251228
     console.log(`[Sync] Fetching matches from /match/diary for ${apiDate}...`);
 
-    const diaryMatches = await fetchFromApi<DiaryMatch[]>('/v1/football/match/diary', { date: apiDate });
+    // Upstream errors propagate so the caller can tell an outage from an empty match day
+    const diaryMatches = await theSportsRequest<DiaryMatch[]>('/v1/football/match/diary', { date: apiDate });
 
-    if (!diaryMatches || !Array.isArray(diaryMatches) || diaryMatches.length === 0) {
+    if (!Array.isArray(diaryMatches) || diaryMatches.length === 0) {
         console.log('[Sync] No diary matches found');
         return { synced: 0, errors: 0 };
     }
 
     console.log(`[Sync] Found ${diaryMatches.length} total matches for ${date}`);
 
-    // 3. Filter by TOP_LEAGUE_IDS
+    // 3. Filter by tracked competitions (tracked_competitions table)
+    const trackedIds = await getSyncedCompetitionIds();
     const topLeagueMatches = diaryMatches.filter(m =>
-        m.competition_id && TOP_LEAGUE_IDS.has(m.competition_id)
+        m.competition_id && trackedIds.has(m.competition_id)
     );
 
     console.log(`[Sync] Filtered to ${topLeagueMatches.length} top league matches`);
@@ -295,6 +230,13 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
     }
 
     // 7. Upsert matches with team names from cache
+    // Stored statuses for transition checks
+    const { data: storedMatches } = await supabase
+        .from('matches')
+        .select('id, status')
+        .in('id', topLeagueMatches.map(m => m.id));
+    const storedStatus = new Map((storedMatches || []).map(m => [m.id as string, m.status as string]));
+
     for (const match of topLeagueMatches) {
         try {
             const homeTeam = getTeamById(match.home_team_id || '');
@@ -302,15 +244,17 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
             const comp = getCompetitionById(match.competition_id || '');
             const country = comp?.country_id ? getCountryById(comp.country_id) : undefined;
 
-            const statusId = match.status_id ?? 0;
-            let status = STATUS_MAP[statusId] || 'scheduled';
+            let incoming = statusFromTheSports(match.status_id);
 
             // IMPORTANT: If match hasn't started yet (match_time > now), force status to 'scheduled'
+            // (postponed/cancelled are real states and kept)
             const now = Math.floor(Date.now() / 1000);
-            if (match.match_time && match.match_time > now) {
-                status = 'scheduled';
+            if (match.match_time && match.match_time > now && incoming !== 'postponed' && incoming !== 'cancelled') {
+                incoming = 'scheduled';
             }
 
+            const { status } = resolveStatusTransition(match.id, storedStatus.get(match.id), incoming, 'sync');
+
             const { error } = await supabase.from('matches').upsert({
                 id: match.id,
                 home_team_name: homeTeam?.name || 'TBD',
@@ -323,6 +267,9 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
                 home_team_id: match.home_team_id || null,
                 away_team_id: match.away_team_id || null,
                 competition_id: match.competition_id || null,
+                season_id: match.season_id || null,
+                stage_id: match.round?.stage_id || null,
+                round_num: match.round?.round_num || null,
                 status: status,
                 home_score: match.home_scores?.[0] || 0,
                 away_score: match.away_scores?.[0] || 0,
@@ -335,6 +282,10 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
                 errors++;
             } else {
                 synced++;
+                publishStatusChange(match.id, storedStatus.get(match.id), status, 'sync', {
+                    score: { home: match.home_scores?.[0] || 0, away: match.away_scores?.[0] || 0 },
+                    competitionId: match.competition_id || null,
+                });
             }
         } catch {
             errors++;
@@ -353,11 +304,12 @@ export async function syncDailyMatches(date: string): Promise<{ synced: number;
 /**
  * SYNC ALL DAYS: Syncs last 7 days + today + next 7 days (15 days total)
  */
-export async function syncAllDays(): Promise<{ totalSynced: number; totalErrors: number; days: number }> {
+export async function syncAllDays(): Promise<{ totalSynced: number; totalErrors: number; days: number; failedDays: string[] }> {
     console.log('[Sync] Starting 15-day sync...');
 
     let totalSynced = 0;
     let totalErrors = 0;
+    const failedDays: string[] = [];
     const today = new Date();
 
     // Sync -7 to +7 days (15 days total)
@@ -366,13 +318,19 @@ export async function syncAllDays(): Promise<{ totalSynced: number; totalErrors:
         date.setDate(date.getDate() + offset);
         const dateStr = date.toISOString().split('T')[0];
 
-        const result = await syncDailyMatches(dateStr);
-        totalSynced += result.synced;
-        totalErrors += result.errors;
+        // One failing day (e.g. upstream timeout) shouldn't abort the other 14
+        try {
+            const result = await syncDailyMatches(dateStr);
+            totalSynced += result.synced;
+            totalErrors += result.errors;
+        } catch (error) {
+            console.error(`[Sync] Day ${dateStr} failed:`, error instanceof Error ? error.message : error);
+            failedDays.push(dateStr);
+        }
     }
 
-    console.log(`[Sync] 15-day sync complete: ${totalSynced} matches, ${totalErrors} errors`);
-    return { totalSynced, totalErrors, days: 15 };
+    console.log(`[Sync] 15-day sync complete: ${totalSynced} matches, ${totalErrors} errors, ${failedDays.length} failed days`);
+    return { totalSynced, totalErrors, days: 15, failedDays };
 }
 
 /**
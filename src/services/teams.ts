@@ -0,0 +1,198 @@
+/**
+ * Teams Service
+ * Team-centric reads for /api/teams/[id]/*: profile, matches, form and squad
+ * Matches are limited to the visible tracked competitions
+ */
+
+import { DbMatch, DbPlayer, DbTeam, supabase } from '@/lib/supabase';
+import { getVisibleCompetitionIds } from './tracked-competitions';
+
+export type MatchScope = 'past' | 'upcoming' | 'all';
+
+// Denormalized matches row (see migrations/001_denormalize_matches.sql)
+export type MatchRow = DbMatch & {
+    home_team_name: string | null;
+    home_team_logo: string | null;
+    away_team_name: string | null;
+    away_team_logo: string | null;
+    competition_name: string | null;
+    competition_logo: string | null;
+    competition_country: string | null;
+};
+
+/**
+ * TheSports ids are alphanumeric - checked before ids are used in PostgREST or() filters
+ */
+export function isValidEntityId(id: string): boolean {
+    return /^[a-z0-9]{1,32}$/i.test(id);
+}
+
+/**
+ * API representation of a matches row (same shape as /api/matches/date/[date])
+ */
+export function formatMatchRow(m: MatchRow) {
+    return {
+        id: m.id,
+        homeTeam: {
+            id: m.home_team_id || '',
+            name: m.home_team_name || 'TBD',
+            shortName: m.home_team_name || 'TBD',
+            logo: m.home_team_logo || '',
+        },
+        awayTeam: {
+            id: m.away_team_id || '',
+            name: m.away_team_name || 'TBD',
+            shortName: m.away_team_name || 'TBD',
+            logo: m.away_team_logo || '',
+        },
+        score: {
+            home: m.home_score || 0,
+            away: m.away_score || 0
+        },
+        status: m.status,
+        minute: m.minute,
+        minuteDisplay: m.minute_display || null,
+        period: m.period || null,
+        startTime: m.start_time,
+        round: m.round_num,
+        competition: {
+            id: m.competition_id || '',
+            name: m.competition_name || 'Unknown',
+            shortName: m.competition_name || 'Unknown',
+            logo: m.competition_logo || '',
+            country: m.competition_country || '',
+        },
+        venue: m.venue || '',
+        referee: m.referee,
+    };
+}
+
+/**
+ * W/D/L from the perspective of the given team
+ */
+export function matchResultFor(teamId: string, match: Pick<DbMatch, 'home_team_id' | 'home_score' | 'away_score'>): 'W' | 'D' | 'L' {
+    const isHome = match.home_team_id === teamId;
+    const scored = (isHome ? match.home_score : match.away_score) || 0;
+    const conceded = (isHome ? match.away_score : match.home_score) || 0;
+    return scored > conceded ? 'W' : scored < conceded ? 'L' : 'D';
+}
+
+export async function getTeam(teamId: string): Promise<(DbTeam & { country: string | null }) | null> {
+    const { data: team, error } = await supabase
+        .from('teams')
+        .select('*')
+        .eq('id', teamId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to read team: ${error.message}`);
+    }
+    if (!team) return null;
+
+    let country: string | null = null;
+    if (team.country_id) {
+        const { data } = await supabase
+            .from('countries')
+            .select('name')
+            .eq('id', team.country_id)
+            .maybeSingle();
+        country = data?.name || null;
+    }
+
+    return { ...(team as DbTeam), country };
+}
+
+/**
+ * Matches of a team across tracked competitions
+ * past: newest first, upcoming: soonest first
+ */
+export async function getTeamMatches(teamId: string, options: {
+    scope?: MatchScope;
+    page?: number;
+    limit?: number;
+} = {}): Promise<{ matches: MatchRow[]; total: number }> {
+    const scope = options.scope || 'all';
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const now = new Date().toISOString();
+    const competitionIds = await getVisibleCompetitionIds();
+
+    let query = supabase
+        .from('matches')
+        .select('*', { count: 'exact' })
+        .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+        .in('competition_id', competitionIds);
+
+    if (scope === 'past') {
+        query = query
+            .in('status', ['finished', 'cancelled', 'postponed', 'suspended'])
+            .lt('start_time', now);
+    } else if (scope === 'upcoming') {
+        // Live matches count as upcoming; the 3h window skips stale 'scheduled' rows
+        query = query
+            .in('status', ['scheduled', 'live', 'halftime'])
+            .gte('start_time', new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString());
+    }
+
+    const { data, error, count } = await query
+        .order('start_time', { ascending: scope === 'upcoming' })
+        .range((page - 1) * limit, page * limit - 1);
+
+    if (error) {
+        throw new Error(`Failed to read team matches: ${error.message}`);
+    }
+
+    return { matches: (data || []) as MatchRow[], total: count || 0 };
+}
+
+/**
+ * Last N finished matches with results, newest first
+ * form string is oldest first (e.g. "WWDLW"), like the standings form column
+ */
+export async function getTeamForm(teamId: string, limit: number = 5): Promise<{
+    form: string;
+    matches: Array<ReturnType<typeof formatMatchRow> & { result: 'W' | 'D' | 'L' }>;
+}> {
+    const competitionIds = await getVisibleCompetitionIds();
+    const { data, error } = await supabase
+        .from('matches')
+        .select('*')
+        .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+        .in('competition_id', competitionIds)
+        .eq('status', 'finished')
+        .order('start_time', { ascending: false })
+        .limit(Math.min(50, Math.max(1, limit)));
+
+    if (error) {
+        throw new Error(`Failed to read team form: ${error.message}`);
+    }
+
+    const matches = ((data || []) as MatchRow[]).map(m => ({ ...formatMatchRow(m), result: matchResultFor(teamId, m) }));
+    return {
+        form: matches.map(m => m.result).reverse().join(''),
+        matches,
+    };
+}
+
+export async function getTeamSquad(teamId: string): Promise<DbPlayer[]> {
+    const { data, error } = await supabase
+        .from('players')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('jersey_number', { ascending: true, nullsFirst: false });
+
+    if (error) {
+        throw new Error(`Failed to read squad: ${error.message}`);
+    }
+    return (data || []) as DbPlayer[];
+}
+
+export const TeamsService = {
+    getTeam,
+    getTeamMatches,
+    getTeamForm,
+    getTeamSquad,
+    formatMatchRow,
+};
+
+export default TeamsService;
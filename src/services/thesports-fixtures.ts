@@ -0,0 +1,119 @@
+/**
+ * TheSports fixture record/replay
+ * Lets every upstream call run against JSON files on disk instead of the live API
+ *
+ * THESPORTS_FIXTURE_MODE=record  → live calls, every response body is written to disk
+ * THESPORTS_FIXTURE_MODE=replay  → no network, bodies are read from disk (no credentials needed)
+ * THESPORTS_FIXTURE_DIR          → fixture root (default: ./fixtures/thesports)
+ *
+ * Files are stored per endpoint, named by their sorted query params plus a
+ * short hash of the exact param string (sanitizing alone maps "a b" and "a_b"
+ * to the same name):
+ *   fixtures/thesports/v1/football/match/diary/date=20260118-7475eed2.json
+ *   fixtures/thesports/v1/football/match/detail_live/_-da39a3ee.json
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureFile {
+    endpoint: string;
+    params: Record<string, string>;
+    recordedAt: string;
+    body: unknown;
+}
+
+// Keep file names well below filesystem limits - longer keys are truncated before the hash
+const MAX_FILE_NAME_LENGTH = 120;
+const HASH_LENGTH = 8;
+
+/**
+ * Current fixture mode (read on every call so tests/scripts can switch it at runtime)
+ */
+export function getFixtureMode(): FixtureMode {
+    const mode = (process.env.THESPORTS_FIXTURE_MODE || '').toLowerCase();
+    if (mode === 'record' || mode === 'replay') return mode;
+    return 'off';
+}
+
+function getFixtureDir(): string {
+    return path.resolve(process.env.THESPORTS_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'thesports'));
+}
+
+/**
+ * Normalize params: drop empty values and auth, stringify, sort by key
+ */
+function normalizeParams(params: Record<string, unknown>): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const key of Object.keys(params).sort()) {
+        const value = params[key];
+        if (value === undefined || value === null || key === 'user' || key === 'secret') continue;
+        normalized[key] = String(value);
+    }
+    return normalized;
+}
+
+/**
+ * Resolve the fixture file path for an endpoint + params combination
+ */
+export function fixturePath(endpoint: string, params: Record<string, unknown>): string {
+    const normalized = normalizeParams(params);
+    const key = Object.entries(normalized)
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+
+    const readable = key.replace(/[^a-zA-Z0-9=&_.-]/g, '_').replace(/&/g, '__') || '_';
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, HASH_LENGTH);
+    const fileName = `${readable.slice(0, MAX_FILE_NAME_LENGTH - HASH_LENGTH - 1)}-${hash}`;
+
+    const endpointDir = endpoint.replace(/^\/+/, '').split('/').filter(segment => segment && segment !== '..');
+    return path.join(getFixtureDir(), ...endpointDir, `${fileName}.json`);
+}
+
+/**
+ * Load a recorded response body - null if no fixture exists for this call
+ */
+export async function readFixture(endpoint: string, params: Record<string, unknown>): Promise<FixtureFile | null> {
+    const file = fixturePath(endpoint, params);
+    try {
+        const content = await readFile(file, 'utf8');
+        return JSON.parse(content) as FixtureFile;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Persist a response body (error envelopes included, so odd payloads can be replayed)
+ * Recording failures are logged, never thrown - they must not break the live call
+ */
+export async function writeFixture(endpoint: string, params: Record<string, unknown>, body: unknown): Promise<void> {
+    const file = fixturePath(endpoint, params);
+    const fixture: FixtureFile = {
+        endpoint,
+        params: normalizeParams(params),
+        recordedAt: new Date().toISOString(),
+        body,
+    };
+
+    try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+        console.log(`[Fixtures] Recorded ${endpoint} → ${path.relative(process.cwd(), file)}`);
+    } catch (error) {
+        console.error(`[Fixtures] Failed to record ${endpoint}:`, error);
+    }
+}
+
+export const TheSportsFixtures = {
+    getFixtureMode,
+    fixturePath,
+    readFixture,
+    writeFixture,
+};
+
+export default TheSportsFixtures;
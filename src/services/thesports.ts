@@ -1,6 +1,14 @@
 /**
  * TheSports.com API Service
  * Centralized HTTP client for all API calls
+ *
+ * Every module talks to TheSports through theSportsRequest() so that auth,
+ * retries, timeouts, quota handling and concurrency caps live in one place.
+ * Failures are raised as TheSportsApiError instead of being swallowed,
+ * so callers can tell an upstream outage from an empty result.
+ *
+ * With THESPORTS_FIXTURE_MODE=record|replay responses are written to / served
+ * from JSON fixtures on disk (see thesports-fixtures.ts).
  */
 
 import type {
@@ -12,59 +20,405 @@ import type {
     MatchStats,
     StandingsTable
 } from '@/types/thesports';
+import { fixturePath, getFixtureMode, readFixture, writeFixture } from './thesports-fixtures';
 
 const API_URL = process.env.THESPORTS_API_URL || 'https://api.thesports.com';
 const API_KEY = process.env.THESPORTS_API_KEY || '';
 const USERNAME = process.env.THESPORTS_USERNAME || '';
 
+// Retry / timeout defaults
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 15000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+// How long an endpoint is paused after a quota error when the API gives no Retry-After
+const QUOTA_COOLDOWN_MS = 60 * 1000;
+// Quota pauses shorter than this are waited out inside the same request
+const QUOTA_MAX_WAIT_MS = 5000;
+
+// Max parallel requests per endpoint (heavy paginated lists are capped lower)
+const DEFAULT_CONCURRENCY = 4;
+const ENDPOINT_CONCURRENCY: Record<string, number> = {
+    '/v1/football/team/additional/list': 2,
+    '/v1/football/player/with_stat/list': 2,
+    '/v1/football/competition/additional/list': 2,
+    '/v1/football/season/list': 2,
+    '/v1/football/match/diary': 2,
+    '/v1/football/match/detail_live': 2,
+};
+
+// ============ Errors ============
+
+export type TheSportsErrorKind =
+    | 'http'      // Non-2xx HTTP response
+    | 'timeout'   // Request exceeded timeoutMs
+    | 'network'   // DNS, connection reset, invalid JSON, ...
+    | 'quota'     // Request limit / IP whitelist / subscription errors
+    | 'api'       // API answered with {err} or a non-zero code
+    | 'fixture';  // Replay mode and no fixture was recorded for this call
+
+export class TheSportsApiError extends Error {
+    readonly kind: TheSportsErrorKind;
+    readonly endpoint: string;
+    readonly status: number | null;
+    readonly retryAfterMs: number | null;
+
+    constructor(
+        kind: TheSportsErrorKind,
+        endpoint: string,
+        message: string,
+        options: { status?: number | null; retryAfterMs?: number | null; cause?: unknown } = {}
+    ) {
+        super(`TheSports API Error (${endpoint}): ${message}`, { cause: options.cause });
+        this.name = 'TheSportsApiError';
+        this.kind = kind;
+        this.endpoint = endpoint;
+        this.status = options.status ?? null;
+        this.retryAfterMs = options.retryAfterMs ?? null;
+    }
+
+    /** Timeouts, network failures and 5xx responses are worth another attempt */
+    get retryable(): boolean {
+        if (this.kind === 'timeout' || this.kind === 'network') return true;
+        return this.kind === 'http' && this.status !== null && this.status >= 500;
+    }
+}
+
 /**
- * Base fetch wrapper with authentication
+ * Map an error thrown inside a route handler to an HTTP status code
+ * Upstream problems become 502/503/504 instead of a generic 500
  */
-async function apiFetch<T>(
-    endpoint: string,
-    params: Record<string, string | number | undefined> = {}
-): Promise<T> {
-    const url = new URL(`${API_URL}${endpoint}`);
+export function httpStatusForError(error: unknown): number {
+    if (!(error instanceof TheSportsApiError)) return 500;
+    if (error.kind === 'quota') return 503;
+    if (error.kind === 'timeout') return 504;
+    return 502;
+}
+
+// ============ Concurrency ============
+
+const activeRequests = new Map<string, number>();
+const waitingRequests = new Map<string, Array<() => void>>();
+
+async function acquireSlot(endpoint: string): Promise<void> {
+    const limit = ENDPOINT_CONCURRENCY[endpoint] ?? DEFAULT_CONCURRENCY;
+    const active = activeRequests.get(endpoint) || 0;
 
-    // Add auth params
+    if (active < limit) {
+        activeRequests.set(endpoint, active + 1);
+        return;
+    }
+
+    // Wait for a running request to hand over its slot
+    await new Promise<void>(resolve => {
+        const queue = waitingRequests.get(endpoint) || [];
+        queue.push(resolve);
+        waitingRequests.set(endpoint, queue);
+    });
+}
+
+function releaseSlot(endpoint: string): void {
+    const next = waitingRequests.get(endpoint)?.shift();
+    if (next) {
+        // Slot passes directly to the next waiter, active count stays the same
+        next();
+        return;
+    }
+    activeRequests.set(endpoint, Math.max(0, (activeRequests.get(endpoint) || 1) - 1));
+}
+
+// ============ Quota tracking ============
+
+// endpoint -> timestamp (ms) until which we don't call it again
+const quotaBlockedUntil = new Map<string, number>();
+
+function isQuotaMessage(message: string): boolean {
+    return /limit|quota|frequen|too many|whitelist|expired|exceed/i.test(message);
+}
+
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt: number): number {
+    const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    // Jitter keeps parallel retries from hitting the API in lockstep
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+// ============ Core request ============
+
+export type TheSportsParams = Record<string, string | number | undefined | null>;
+
+export interface TheSportsRequestOptions {
+    /** Retry attempts for timeouts, network errors and 5xx (default 3) */
+    retries?: number;
+    /** Per-attempt timeout in ms (default 15s) */
+    timeoutMs?: number;
+    /** Next.js fetch revalidation in seconds - omitted means no-store */
+    revalidate?: number;
+}
+
+/**
+ * Build the request URL with auth params
+ */
+function buildUrl(endpoint: string, params: TheSportsParams): URL {
+    const url = new URL(`${API_URL}${endpoint}`);
     url.searchParams.set('user', USERNAME);
     url.searchParams.set('secret', API_KEY);
 
-    // Add other params
     Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
+        if (value !== undefined && value !== null) {
             url.searchParams.set(key, String(value));
         }
     });
 
-    const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        // Cache configuration
-        next: {
-            revalidate: 30, // Revalidate every 30 seconds for live data
-        },
+    return url;
+}
+
+/**
+ * Single HTTP attempt - returns the parsed JSON body
+ */
+async function attemptRequest(
+    endpoint: string,
+    params: TheSportsParams,
+    options: TheSportsRequestOptions
+): Promise<unknown> {
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const response = await fetch(buildUrl(endpoint, params).toString(), {
+            method: 'GET',
+            headers: { 'Accept': 'application/json' },
+            signal: controller.signal,
+            ...(options.revalidate !== undefined
+                ? { next: { revalidate: options.revalidate } }
+                : { cache: 'no-store' as const }),
+        });
+
+        if (response.status === 429) {
+            throw new TheSportsApiError('quota', endpoint, 'Too many requests', {
+                status: 429,
+                retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+            });
+        }
+
+        if (!response.ok) {
+            throw new TheSportsApiError('http', endpoint, `${response.status} ${response.statusText}`, {
+                status: response.status,
+            });
+        }
+
+        try {
+            return await response.json();
+        } catch (error) {
+            throw new TheSportsApiError('network', endpoint, 'Invalid JSON response', {
+                status: response.status,
+                cause: error,
+            });
+        }
+    } catch (error) {
+        if (error instanceof TheSportsApiError) throw error;
+        if (controller.signal.aborted) {
+            throw new TheSportsApiError('timeout', endpoint, `Timed out after ${timeoutMs}ms`, { cause: error });
+        }
+        throw new TheSportsApiError('network', endpoint, error instanceof Error ? error.message : String(error), {
+            cause: error,
+        });
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Check a parsed body for TheSports error envelopes
+ * Formats: {"err": "message"} or {"code": <non-zero>, "msg"/"message": "..."}
+ */
+function assertEnvelopeOk(endpoint: string, body: unknown): void {
+    if (!body || typeof body !== 'object') return;
+    const envelope = body as { err?: string; code?: number; msg?: string; message?: string };
+
+    let message: string | null = null;
+    if (envelope.err) {
+        message = envelope.err;
+    } else if (envelope.code !== undefined && envelope.code !== 0) {
+        message = envelope.msg || envelope.message || `Error code ${envelope.code}`;
+    }
+
+    if (message === null) return;
+
+    throw new TheSportsApiError(isQuotaMessage(message) ? 'quota' : 'api', endpoint, message, {
+        status: typeof envelope.code === 'number' ? envelope.code : null,
     });
+}
+
+/**
+ * Serve a request from a recorded fixture (replay mode)
+ */
+async function replayRequest(endpoint: string, params: TheSportsParams): Promise<unknown> {
+    const fixture = await readFixture(endpoint, params);
+    if (!fixture) {
+        throw new TheSportsApiError('fixture', endpoint, `No fixture recorded at ${fixturePath(endpoint, params)}`);
+    }
+
+    assertEnvelopeOk(endpoint, fixture.body);
+    return fixture.body;
+}
+
+/**
+ * Send a request with retries, backoff, quota cooldown and concurrency cap
+ * Returns the full response body (envelope included)
+ */
+async function sendRequest(
+    endpoint: string,
+    params: TheSportsParams,
+    options: TheSportsRequestOptions
+): Promise<unknown> {
+    const fixtureMode = getFixtureMode();
+    if (fixtureMode === 'replay') return replayRequest(endpoint, params);
+
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        // Respect an active quota pause for this endpoint
+        const blockedFor = (quotaBlockedUntil.get(endpoint) || 0) - Date.now();
+        if (blockedFor > 0) {
+            if (blockedFor > QUOTA_MAX_WAIT_MS || attempt > retries) {
+                throw new TheSportsApiError('quota', endpoint, `Quota cooldown, retry in ${Math.ceil(blockedFor / 1000)}s`, {
+                    retryAfterMs: blockedFor,
+                });
+            }
+            await sleep(blockedFor);
+        }
+
+        let failure: unknown;
+        await acquireSlot(endpoint);
+        try {
+            const body = await attemptRequest(endpoint, params, options);
+            // Record before the envelope check so error payloads can be replayed too
+            if (fixtureMode === 'record') await writeFixture(endpoint, params, body);
+            assertEnvelopeOk(endpoint, body);
+            return body;
+        } catch (error) {
+            failure = error;
+        } finally {
+            releaseSlot(endpoint);
+        }
+
+        if (!(failure instanceof TheSportsApiError)) throw failure;
+
+        if (failure.kind === 'quota') {
+            const cooldown = failure.retryAfterMs ?? QUOTA_COOLDOWN_MS;
+            quotaBlockedUntil.set(endpoint, Date.now() + cooldown);
+            console.warn(`[TheSports] Quota hit on ${endpoint}, pausing for ${Math.round(cooldown / 1000)}s`);
+            if (cooldown > QUOTA_MAX_WAIT_MS || attempt >= retries) throw failure;
+            continue;
+        }
+
+        if (!failure.retryable || attempt >= retries) throw failure;
+
+        // Sleep outside the concurrency slot so other requests can proceed
+        const delay = backoffDelay(attempt);
+        console.warn(`[TheSports] ${failure.message} - retry ${attempt + 1}/${retries} in ${delay}ms`);
+        await sleep(delay);
+    }
+}
+
+/**
+ * Extract the payload from the different response envelopes
+ * {results}, {data: {results}}, {data} or the body itself
+ */
+function unwrapEnvelope<T>(body: unknown): T {
+    if (!body || typeof body !== 'object') return body as T;
+    const envelope = body as { results?: unknown; data?: { results?: unknown } | unknown };
 
-    if (!response.ok) {
-        throw new Error(`TheSports API Error: ${response.status} ${response.statusText}`);
+    if (envelope.results !== undefined) return envelope.results as T;
+    if (envelope.data !== undefined && envelope.data !== null) {
+        const data = envelope.data as { results?: unknown };
+        return (typeof data === 'object' && data.results !== undefined ? data.results : data) as T;
     }
+    return body as T;
+}
 
-    const data = await response.json();
+/**
+ * Call a TheSports endpoint and return its unwrapped payload
+ * Throws TheSportsApiError on HTTP, timeout, network, quota and API errors
+ */
+export async function theSportsRequest<T>(
+    endpoint: string,
+    params: TheSportsParams = {},
+    options: TheSportsRequestOptions = {}
+): Promise<T> {
+    const body = await sendRequest(endpoint, params, options);
+    return unwrapEnvelope<T>(body);
+}
 
-    // Handle error response format: {"err": "message"}
-    if (data.err) {
-        throw new Error(`TheSports API Error: ${data.err}`);
+/**
+ * Raw TheSports response envelope - R is the shape of results for the endpoint
+ * data/message only appear in legacy or error responses
+ */
+export interface TheSportsEnvelope<R = unknown> {
+    code?: number;
+    err?: string;
+    message?: string;
+    query?: unknown;
+    results?: R;
+    data?: unknown;
+}
+
+/**
+ * Call a TheSports endpoint and return the raw response envelope
+ * For debug tooling that inspects code/err/results itself - API-level errors are NOT thrown
+ */
+export async function theSportsRequestRaw<R = unknown>(
+    endpoint: string,
+    params: TheSportsParams = {},
+    options: TheSportsRequestOptions = {}
+): Promise<TheSportsEnvelope<R>> {
+    try {
+        return (await sendRequest(endpoint, params, options)) as TheSportsEnvelope<R>;
+    } catch (error) {
+        if (error instanceof TheSportsApiError && error.kind === 'api') {
+            return { err: error.message, code: error.status ?? undefined };
+        }
+        throw error;
     }
+}
+
+/**
+ * Fetch all pages of a paginated list endpoint
+ * Stops at the first empty page, or at the first short page when pageSize is given
+ */
+export async function fetchAllPages<T>(
+    endpoint: string,
+    options: TheSportsRequestOptions & { maxPages: number; pageSize?: number; params?: TheSportsParams; onPage?: (page: number, results: T[]) => void }
+): Promise<T[]> {
+    const allResults: T[] = [];
+
+    for (let page = 1; page <= options.maxPages; page++) {
+        const results = await theSportsRequest<T[]>(endpoint, { ...options.params, page }, options);
+        const pageResults = Array.isArray(results) ? results : [];
+
+        if (pageResults.length === 0) break;
+
+        allResults.push(...pageResults);
+        options.onPage?.(page, pageResults);
 
-    // Handle standard response format: {"code": 0, "message": "...", "data": ...}
-    if (data.code !== undefined && data.code !== 0) {
-        throw new Error(`TheSports API Error: ${data.message || 'Unknown error'}`);
+        if (options.pageSize && pageResults.length < options.pageSize) break;
     }
 
-    return data.data ?? data;
+    return allResults;
 }
 
 // ============ Match Endpoints ============
@@ -75,43 +429,43 @@ async function apiFetch<T>(
 export async function getMatches(params: GetMatchesParams = {}): Promise<Match[]> {
     // TheSports uses different endpoints for different statuses
     if (params.status === 'live') {
-        return apiFetch<Match[]>('/v1/football/match/recent/list');
+        return theSportsRequest<Match[]>('/v1/football/match/recent/list', {}, { revalidate: 30 });
     }
 
-    return apiFetch<Match[]>('/v1/football/match/diary', {
+    return theSportsRequest<Match[]>('/v1/football/match/diary', {
         date: params.date,
         competition_id: params.competition_id,
         limit: params.limit,
         offset: params.offset,
-    });
+    }, { revalidate: 30 });
 }
 
 /**
  * Get live matches only
  */
 export async function getLiveMatches(): Promise<Match[]> {
-    return apiFetch<Match[]>('/v1/football/match/recent/list');
+    return theSportsRequest<Match[]>('/v1/football/match/recent/list', {}, { revalidate: 30 });
 }
 
 /**
  * Get match details by ID
  */
 export async function getMatchById(matchId: string): Promise<Match> {
-    return apiFetch<Match>('/v1/football/match/detail', { id: matchId });
+    return theSportsRequest<Match>('/v1/football/match/detail', { id: matchId }, { revalidate: 30 });
 }
 
 /**
  * Get match statistics
  */
 export async function getMatchStats(matchId: string): Promise<MatchStats> {
-    return apiFetch<MatchStats>('/v1/football/match/stats', { id: matchId });
+    return theSportsRequest<MatchStats>('/v1/football/match/stats', { id: matchId }, { revalidate: 30 });
 }
 
 /**
  * Get match lineup
  */
 export async function getMatchLineup(matchId: string): Promise<Lineup> {
-    return apiFetch<Lineup>('/v1/football/match/lineup', { id: matchId });
+    return theSportsRequest<Lineup>('/v1/football/match/lineup', { id: matchId }, { revalidate: 30 });
 }
 
 // ============ Competition Endpoints ============
@@ -120,14 +474,14 @@ export async function getMatchLineup(matchId: string): Promise<Lineup> {
  * Get all competitions/leagues
  */
 export async function getCompetitions(): Promise<Competition[]> {
-    return apiFetch<Competition[]>('/v1/football/competition/additional/list');
+    return theSportsRequest<Competition[]>('/v1/football/competition/additional/list', {}, { revalidate: 30 });
 }
 
 /**
  * Get competition details
  */
 export async function getCompetitionById(competitionId: string): Promise<Competition> {
-    return apiFetch<Competition>('/v1/football/competition/detail', { id: competitionId });
+    return theSportsRequest<Competition>('/v1/football/competition/detail', { id: competitionId }, { revalidate: 30 });
 }
 
 // ============ Standings Endpoints ============
@@ -136,16 +490,21 @@ export async function getCompetitionById(competitionId: string): Promise<Competi
  * Get league standings
  */
 export async function getStandings(params: GetStandingsParams): Promise<StandingsTable> {
-    return apiFetch<StandingsTable>('/v1/football/standing', {
+    return theSportsRequest<StandingsTable>('/v1/football/standing', {
         competition_id: params.competition_id,
         season_id: params.season_id,
         round: params.round,
-    });
+    }, { revalidate: 30 });
 }
 
 // ============ Export API Object ============
 
 export const TheSportsAPI = {
+    // Core client
+    request: theSportsRequest,
+    requestRaw: theSportsRequestRaw,
+    fetchAllPages,
+
     // Matches
     getMatches,
     getLiveMatches,
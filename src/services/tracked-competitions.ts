@@ -0,0 +1,201 @@
+/**
+ * Tracked Competitions Service
+ * Reads the leagues we follow from the tracked_competitions table
+ * (priority, display order, enable flags) with a short in-memory cache
+ *
+ * If the table can't be read (e.g. migration not applied yet) the built-in
+ * defaults are used, so sync keeps running with the leagues we had before.
+ */
+
+import { DbTrackedCompetition, supabase } from '@/lib/supabase';
+
+const TABLE = 'tracked_competitions';
+const CACHE_TTL_MS = 60 * 1000;
+
+export type TrackedCompetition = Pick<
+    DbTrackedCompetition,
+    'competition_id' | 'name' | 'priority' | 'display_order' | 'enabled' | 'sync_enabled' | 'visible'
+>;
+
+export type TrackedCompetitionInput = Partial<Omit<TrackedCompetition, 'competition_id'>>;
+
+// Fallback when the table is not available - same seed as migrations/005_tracked_competitions.sql
+const DEFAULT_TRACKED_COMPETITIONS: TrackedCompetition[] = [
+    ['jednm9whz0ryox8', 'Premier League'],
+    ['gy0or5jhg6qwzv3', 'Bundesliga'],
+    ['vl7oqdehlyr510j', 'La Liga'],
+    ['4zp5rzghp5q82w1', 'Serie A'],
+    ['yl5ergphnzr8k0o', 'Ligue 1'],
+    ['z8yomo4h7wq0j6l', 'Champions League'],
+    ['56ypq3nh0xmd7oj', 'Europa League'],
+    ['p4jwq2gh754m0ve', 'Conference League'],
+    ['l965mkyh32r1ge4', 'Championship'],
+    ['vl7oqdeheyr510j', 'Eredivisie'],
+    ['9vjxm8ghx2r6odg', 'Primeira Liga'],
+    ['8y39mp1h6jmojxg', 'Süper Lig'],
+].map(([competition_id, name], index) => ({
+    competition_id,
+    name,
+    priority: index + 1,
+    display_order: index + 1,
+    enabled: true,
+    sync_enabled: true,
+    visible: true,
+}));
+
+let cache: { data: TrackedCompetition[]; loadedAt: number } | null = null;
+
+function sortCompetitions(list: TrackedCompetition[]): TrackedCompetition[] {
+    return [...list].sort((a, b) => a.display_order - b.display_order || a.priority - b.priority);
+}
+
+/**
+ * All tracked competitions (enabled or not), sorted by display order
+ */
+export async function getTrackedCompetitions(forceRefresh = false): Promise<TrackedCompetition[]> {
+    if (!forceRefresh && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.data;
+    }
+
+    const { data, error } = await supabase
+        .from(TABLE)
+        .select('competition_id, name, priority, display_order, enabled, sync_enabled, visible');
+
+    if (error || !data) {
+        console.warn(`[Competitions] Could not read ${TABLE}, using defaults:`, error?.message);
+        // The fallback is cached like real data - the table is re-read after the TTL
+        cache = { data: DEFAULT_TRACKED_COMPETITIONS, loadedAt: Date.now() };
+        return cache.data;
+    }
+
+    cache = { data: sortCompetitions(data as TrackedCompetition[]), loadedAt: Date.now() };
+    return cache.data;
+}
+
+/**
+ * Competition IDs whose matches and reference data should be synced
+ */
+export async function getSyncedCompetitionIds(): Promise<Set<string>> {
+    const competitions = await getTrackedCompetitions();
+    return new Set(competitions.filter(c => c.enabled && c.sync_enabled).map(c => c.competition_id));
+}
+
+/**
+ * Competition IDs whose matches are returned to the app, in display order
+ */
+export async function getVisibleCompetitionIds(): Promise<string[]> {
+    const competitions = await getTrackedCompetitions();
+    return competitions.filter(c => c.enabled && c.visible).map(c => c.competition_id);
+}
+
+/**
+ * Priority per competition (lower = more important) - untracked competitions get 999
+ */
+export async function getCompetitionPriorities(): Promise<Map<string, number>> {
+    const competitions = await getTrackedCompetitions();
+    return new Map(competitions.map(c => [c.competition_id, c.priority]));
+}
+
+export async function getTrackedCompetition(competitionId: string): Promise<TrackedCompetition | null> {
+    const competitions = await getTrackedCompetitions();
+    return competitions.find(c => c.competition_id === competitionId) || null;
+}
+
+// ============ Admin CRUD ============
+
+export function invalidateTrackedCompetitions(): void {
+    cache = null;
+}
+
+/**
+ * Validate admin input - returns an error message or null
+ */
+export function validateTrackedCompetitionInput(input: Record<string, unknown>, requireName: boolean): string | null {
+    if (requireName && (typeof input.name !== 'string' || !input.name.trim())) {
+        return 'name is required';
+    }
+    if (input.name !== undefined && typeof input.name !== 'string') return 'name must be a string';
+
+    for (const key of ['priority', 'display_order']) {
+        if (input[key] !== undefined && !Number.isInteger(input[key])) return `${key} must be an integer`;
+    }
+    for (const key of ['enabled', 'sync_enabled', 'visible']) {
+        if (input[key] !== undefined && typeof input[key] !== 'boolean') return `${key} must be a boolean`;
+    }
+    return null;
+}
+
+function pickInput(input: Record<string, unknown>): TrackedCompetitionInput {
+    const picked: TrackedCompetitionInput = {};
+    if (input.name !== undefined) picked.name = String(input.name).trim();
+    if (input.priority !== undefined) picked.priority = input.priority as number;
+    if (input.display_order !== undefined) picked.display_order = input.display_order as number;
+    if (input.enabled !== undefined) picked.enabled = input.enabled as boolean;
+    if (input.sync_enabled !== undefined) picked.sync_enabled = input.sync_enabled as boolean;
+    if (input.visible !== undefined) picked.visible = input.visible as boolean;
+    return picked;
+}
+
+export async function createTrackedCompetition(
+    competitionId: string,
+    input: Record<string, unknown>
+): Promise<DbTrackedCompetition> {
+    const { data, error } = await supabase
+        .from(TABLE)
+        .upsert({
+            competition_id: competitionId,
+            ...pickInput(input),
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'competition_id' })
+        .select()
+        .single();
+
+    if (error) throw new Error(`Failed to save competition ${competitionId}: ${error.message}`);
+
+    invalidateTrackedCompetitions();
+    return data as DbTrackedCompetition;
+}
+
+export async function updateTrackedCompetition(
+    competitionId: string,
+    input: Record<string, unknown>
+): Promise<DbTrackedCompetition | null> {
+    const { data, error } = await supabase
+        .from(TABLE)
+        .update({ ...pickInput(input), updated_at: new Date().toISOString() })
+        .eq('competition_id', competitionId)
+        .select()
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to update competition ${competitionId}: ${error.message}`);
+
+    invalidateTrackedCompetitions();
+    return data as DbTrackedCompetition | null;
+}
+
+export async function deleteTrackedCompetition(competitionId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from(TABLE)
+        .delete()
+        .eq('competition_id', competitionId)
+        .select('competition_id');
+
+    if (error) throw new Error(`Failed to delete competition ${competitionId}: ${error.message}`);
+
+    invalidateTrackedCompetitions();
+    return (data || []).length > 0;
+}
+
+export const TrackedCompetitionsService = {
+    getAll: getTrackedCompetitions,
+    getOne: getTrackedCompetition,
+    getSyncedIds: getSyncedCompetitionIds,
+    getVisibleIds: getVisibleCompetitionIds,
+    getPriorities: getCompetitionPriorities,
+    create: createTrackedCompetition,
+    update: updateTrackedCompetition,
+    remove: deleteTrackedCompetition,
+    invalidate: invalidateTrackedCompetitions,
+};
+
+export default TrackedCompetitionsService;
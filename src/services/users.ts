@@ -0,0 +1,86 @@
+/**
+ * Users Service
+ * App users are identified by an API key (POST /api/users issues one; only its
+ * SHA-256 hash is stored) sent as Authorization: Bearer <key> or X-API-Key,
+ * or by a JWT (Authorization: Bearer <jwt>, HS256 signed with USER_JWT_SECRET)
+ * whose sub is the app_users id, e.g. issued by a login service.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getRequestCredential } from '@/lib/auth';
+import { verifyJwt } from '@/lib/jwt';
+import { DbAppUser, supabase } from '@/lib/supabase';
+
+const API_KEY_PREFIX = 'lsk_';
+const JWT_SECRET = process.env.USER_JWT_SECRET || '';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function generateApiKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+export function hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Create a user - the API key is returned once and can't be recovered
+ */
+export async function createUser(): Promise<{ user: DbAppUser; apiKey: string }> {
+    const apiKey = generateApiKey();
+
+    const { data, error } = await supabase
+        .from('app_users')
+        .insert({ api_key_hash: hashApiKey(apiKey) })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to create user: ${error?.message || 'no row returned'}`);
+    }
+
+    return { user: data as DbAppUser, apiKey };
+}
+
+/**
+ * User id (sub) of a valid, unexpired HS256 JWT - null otherwise
+ */
+export function verifyUserJwt(token: string): string | null {
+    const claims = verifyJwt(token, JWT_SECRET);
+    return typeof claims?.sub === 'string' && UUID_PATTERN.test(claims.sub) ? claims.sub : null;
+}
+
+/**
+ * User of a request (API key or JWT), null when no or an unknown credential was sent
+ */
+export async function authenticateUser(request: Request): Promise<DbAppUser | null> {
+    const credential = getRequestCredential(request);
+    if (!credential) return null;
+
+    let query = supabase.from('app_users').select('*');
+    if (credential.startsWith(API_KEY_PREFIX)) {
+        query = query.eq('api_key_hash', hashApiKey(credential));
+    } else {
+        const userId = verifyUserJwt(credential);
+        if (!userId) return null;
+        query = query.eq('id', userId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to authenticate user: ${error.message}`);
+    }
+    return (data as DbAppUser | null) ?? null;
+}
+
+export const UsersService = {
+    generateApiKey,
+    hashApiKey,
+    createUser,
+    getRequestCredential,
+    verifyUserJwt,
+    authenticateUser,
+};
+
+export default UsersService;
@@ -1,18 +1,23 @@
 /**
  * WebSocket Service for TheSports MQTT Real-time Updates
  * Connects to wss://mq.thesports.com for instant match updates
+ * (or any other transport from mqtt-transport.ts, e.g. for scenario replays)
  */
 
 import { supabase } from '@/lib/supabase';
-import mqtt, { MqttClient } from 'mqtt';
+import { publishIncidentEvents, publishStatusChange } from './domain-events';
+import { syncMatchIncidents } from './incidents';
+import { recomputeLiveStandings } from './live-standings';
+import { publishLiveDelta } from './live-stream';
+import { computeClock, MatchClock } from './match-clock';
+import { resolveStatusTransition, statusFromTheSports } from './match-status';
+import { journalMessage } from './mqtt-journal';
+import { createTransportFromEnv, MqttTransport } from './mqtt-transport';
 
-const MQTT_HOST = process.env.THESPORTS_MQTT_HOST || 'mq.thesports.com';
-const MQTT_PORT = process.env.THESPORTS_MQTT_PORT || '8084';
-const USERNAME = process.env.THESPORTS_USERNAME || '';
-const API_KEY = process.env.THESPORTS_API_KEY || '';
+let transport: MqttTransport | null = null;
 
-let client: MqttClient | null = null;
-let isConnecting = false;
+// Last stat values per match (type → "home:away"), used to send stat deltas only
+const lastStats = new Map<string, Map<number, string>>();
 
 // Topics to subscribe to
 // According to TheSports docs, ALL real-time updates (score, status, incidents, stats)
@@ -62,25 +67,6 @@ interface MqttStatUpdate {
     away: number;
 }
 
-// Status mapping - OFFICIAL TheSports values
-// https://www.thesports.com docs
-const STATUS_MAP: Record<number, string> = {
-    0: 'scheduled',   // Abnormal (suggest hiding)
-    1: 'scheduled',   // Not started
-    2: 'live',        // First half
-    3: 'halftime',    // Half-time
-    4: 'live',        // Second half
-    5: 'live',        // Overtime
-    6: 'live',        // Overtime (deprecated)
-    7: 'live',        // Penalty Shoot-out
-    8: 'finished',    // End
-    9: 'live',        // Delay
-    10: 'interrupted',// Interrupt
-    11: 'live',       // Cut in half
-    12: 'cancelled',  // Cancel
-    13: 'scheduled',  // To be determined
-};
-
 /**
  * Handle incoming match update
  * Uses UPSERT to prevent race conditions and duplicate key errors
@@ -99,19 +85,19 @@ const STATUS_MAP: Record<number, string> = {
  * 7 = Penalty Shoot-out
  * 8 = End
  */
-async function handleMatchUpdate(data: any) {
+async function handleMatchUpdate(data: any, receivedAt: Date) {
     try {
         // Parse the score array if present
         // Format: [matchId, statusId, homeScores[], awayScores[], kickoffTimestamp, extra]
-        // According to TheSports docs, position 4 is the kick-off timestamp, NOT the minute!
-        // We need to calculate: minute = (now - kickoffTimestamp) / 60000
-        // For second half, the kickoffTimestamp is the 2nd half kickoff, so we add 45
+        // According to TheSports docs, position 4 is the kick-off timestamp of the
+        // current period, NOT the minute - see services/match-clock
         const scoreData = data.score;
 
         let statusId: number;
         let homeScore: number;
         let awayScore: number;
         let minute: number | null = null;
+        let clock: MatchClock;
 
         if (Array.isArray(scoreData) && scoreData.length >= 5) {
             // New format with score array
@@ -121,82 +107,11 @@ async function handleMatchUpdate(data: any) {
             homeScore = Array.isArray(homeScores) ? (homeScores[0] || 0) : (homeScores || 0);
             awayScore = Array.isArray(awayScores) ? (awayScores[0] || 0) : (awayScores || 0);
 
-            // Position 4: Could be kick-off timestamp OR direct minute value
-            // If it's a large number (> 1000000000), it's a Unix timestamp
-            // If it's a small number (< 200), it's a direct minute value
-            const rawValue = scoreData[4];
-
-            console.log(`[WS] Match ${data.id}: rawValue=${rawValue}, typeof=${typeof rawValue}`);
-
-            if (rawValue !== null && rawValue !== undefined) {
-                let parsedMinute: number | null = null;
-
-                if (typeof rawValue === 'number') {
-                    if (rawValue > 1000000000) {
-                        // It's a Unix timestamp (seconds) - calculate minute using official formula
-                        // First half: minute = (now - kickoff) / 60 + 1
-                        // Second half: minute = (now - kickoff) / 60 + 45 + 1
-                        const kickoffTimestamp = rawValue; // Unix seconds
-                        const nowTimestamp = Math.floor(Date.now() / 1000); // Current time in Unix seconds
-                        const elapsedSeconds = nowTimestamp - kickoffTimestamp;
-                        const elapsedMinutes = Math.floor(elapsedSeconds / 60);
-
-                        // Apply formula based on status
-                        if (statusId === 2) {
-                            // First half: +1 as per formula
-                            parsedMinute = elapsedMinutes + 1;
-                        } else if (statusId === 4) {
-                            // Second half: +45 +1 as per formula
-                            parsedMinute = elapsedMinutes + 45 + 1;
-                        } else if (statusId === 5 || statusId === 6) {
-                            // Overtime: +90 +1
-                            parsedMinute = elapsedMinutes + 90 + 1;
-                        } else {
-                            parsedMinute = elapsedMinutes + 1;
-                        }
-                        console.log(`[WS] Timestamp mode: kickoff=${kickoffTimestamp}, now=${nowTimestamp}, elapsed=${elapsedSeconds}s, minute=${parsedMinute}`);
-                    } else {
-                        // It's a direct minute value - use as is
-                        parsedMinute = rawValue;
-                    }
-                } else if (typeof rawValue === 'string') {
-                    // Handle formats like "45+2" -> 47, or just "67" -> 67
-                    const str = rawValue;
-                    if (str.includes('+')) {
-                        const parts = str.split('+');
-                        parsedMinute = parseInt(parts[0], 10) + parseInt(parts[1], 10);
-                    } else {
-                        parsedMinute = parseInt(str, 10);
-                    }
-                    if (isNaN(parsedMinute)) parsedMinute = null;
-                }
-
-                // Final minute assignment based on status
-                // (Only needed for direct minute values, timestamp calculations already account for status)
-                if (parsedMinute !== null && parsedMinute >= 0) {
-                    if (statusId === 3) {
-                        // Halftime - don't show a minute
-                        minute = null;
-                    } else if (statusId === 7 || statusId === 8) {
-                        // Penalties or End - no minute needed
-                        minute = null;
-                    } else if (rawValue > 1000000000) {
-                        // Already calculated with status offset above
-                        minute = parsedMinute;
-                    } else {
-                        // Direct minute value - apply status offset
-                        if (statusId === 4) {
-                            minute = parsedMinute + 45;
-                        } else if (statusId === 5 || statusId === 6) {
-                            minute = parsedMinute + 90;
-                        } else {
-                            minute = parsedMinute;
-                        }
-                    }
-                }
-            }
+            // Position 4: kick-off timestamp of the current period (or a direct minute)
+            clock = computeClock(statusId, scoreData[4], receivedAt.getTime());
+            minute = clock.minute;
 
-            console.log(`[WS] Match ${data.id}: statusId=${statusId}, rawValue=${JSON.stringify(rawValue)}, finalMinute=${minute}`);
+            console.log(`[WS] Match ${data.id}: statusId=${statusId}, kickoff=${JSON.stringify(scoreData[4])}, minute=${clock.display ?? minute}`);
         } else {
             // No score array - skip this update to avoid overwriting valid data
             // The API sometimes sends updates without the score array
@@ -204,13 +119,13 @@ async function handleMatchUpdate(data: any) {
             return; // DON'T update the database with incomplete data
         }
 
-        const status = STATUS_MAP[statusId] || 'unknown';
+        const incomingStatus = statusFromTheSports(statusId);
 
         // IMPORTANT: TheSports MQTT sends duplicate/stale messages
         // We validate that score doesn't decrease UNLESS there's a VAR event
         const { data: currentMatch } = await supabase
             .from('matches')
-            .select('home_score, away_score')
+            .select('status, minute, period, home_score, away_score, competition_id')
             .eq('id', data.id)
             .single();
 
@@ -243,6 +158,10 @@ async function handleMatchUpdate(data: any) {
             }
         }
 
+        // Out-of-order messages (e.g. live after full time) are dropped
+        const { status, allowed } = resolveStatusTransition(data.id, currentMatch?.status, incomingStatus, 'mqtt');
+        if (!allowed) return;
+
         console.log(`[WS] Match ${data.id}: ${status}, score=${homeScore}-${awayScore}, minute=${minute}`);
 
         // Use UPDATE (not UPSERT) - only update existing matches
@@ -253,6 +172,9 @@ async function handleMatchUpdate(data: any) {
             .update({
                 status: status,
                 minute: minute,
+                minute_display: clock.display,
+                period: clock.period,
+                period_started_at: clock.periodStartedAt ? new Date(clock.periodStartedAt * 1000).toISOString() : null,
                 home_score: homeScore,
                 away_score: awayScore,
                 updated_at: new Date().toISOString(),
@@ -264,6 +186,38 @@ async function handleMatchUpdate(data: any) {
         } else if (count === 0) {
             // Match doesn't exist yet - it will be created by daily sync
             console.log(`[WS] Match ${data.id}: Not in DB yet, waiting for daily sync`);
+        } else if (currentMatch) {
+            // Push only what changed to SSE clients (duplicates produce no delta)
+            const changes: Record<string, unknown> = {};
+            if (currentMatch.status !== status) changes.status = status;
+            if (currentMatch.minute !== minute) {
+                changes.minute = minute;
+                changes.minuteDisplay = clock.display;
+            }
+            if (currentMatch.period !== clock.period) changes.period = clock.period;
+            if (currentMatch.home_score !== homeScore || currentMatch.away_score !== awayScore) {
+                changes.score = { home: homeScore, away: awayScore };
+            }
+            if (Object.keys(changes).length > 0) {
+                publishLiveDelta(data.id, 'match', changes);
+            }
+
+            // Kick-off/half-time/full-time side effects (standings resync, ...) are
+            // domain event subscribers - see domain-event-subscribers.ts
+            publishStatusChange(data.id, currentMatch.status, status, 'mqtt', {
+                score: { home: homeScore, away: awayScore },
+                competitionId: currentMatch.competition_id,
+            });
+
+            // Live table: recompute on score/status changes (full time resyncs the persisted table)
+            const fullTime = status === 'finished' && currentMatch.status !== 'finished';
+            if (currentMatch.competition_id && !fullTime && (changes.score || changes.status)) {
+                recomputeLiveStandings(currentMatch.competition_id, data.id);
+            }
+        }
+
+        if (status === 'finished') {
+            lastStats.delete(data.id);
         }
     } catch (error) {
         console.error('[WS] Error handling match update:', error);
@@ -273,7 +227,8 @@ async function handleMatchUpdate(data: any) {
 /**
  * Handle incoming incidents message
  * The WebSocket sends the COMPLETE list of incidents for a match on each update
- * So we need to REPLACE all events for that match, not append
+ * It is applied as a diff by incident identity (see incidents.ts), so only
+ * added/changed/removed incidents touch match_events and reach SSE clients
  */
 async function handleIncidentsMessage(matchId: string, incidents: MqttIncidentUpdate[]) {
     try {
@@ -283,52 +238,17 @@ async function handleIncidentsMessage(matchId: string, incidents: MqttIncidentUp
 
         console.log(`[WS] Processing ${incidents.length} incidents for match ${matchId}`);
 
-        // Strategy: Delete all existing events for this match, then insert fresh ones
-        // This ensures we always have the correct, deduplicated list
-
-        // Step 1: Delete all existing events for this match
-        const { error: deleteError } = await supabase
-            .from('match_events')
-            .delete()
-            .eq('match_id', matchId);
-
-        if (deleteError) {
-            console.error(`[WS] Error deleting old events for ${matchId}:`, deleteError.message);
-            // Continue anyway to try inserting
-        }
-
-        // Step 2: Insert all new events
-        const eventsToInsert = incidents.map(incident => ({
-            match_id: matchId,
-            type: incident.type,
-            time: incident.time ?? null,
-            position: incident.position ?? null,
-            player_id: incident.player_id ?? null,
-            player_name: incident.player_name ?? null,
-            player2_id: incident.player2_id ?? null,
-            player2_name: incident.player2_name ?? null,
-            in_player_id: incident.in_player_id ?? null,
-            in_player_name: incident.in_player_name ?? null,
-            out_player_id: incident.out_player_id ?? null,
-            out_player_name: incident.out_player_name ?? null,
-            home_score: incident.home_score ?? null,
-            away_score: incident.away_score ?? null,
-            // Assist fields
-            assist1_id: incident.assist1_id ?? null,
-            assist1_name: incident.assist1_name ?? null,
-            // VAR-specific fields
-            var_reason: incident.var_reason ?? null,
-            var_result: incident.var_result ?? null,
-        }));
+        try {
+            const result = await syncMatchIncidents(matchId, incidents);
+            const { added, changed, removed } = result;
 
-        const { error: insertError } = await supabase
-            .from('match_events')
-            .insert(eventsToInsert);
-
-        if (insertError) {
-            console.error(`[WS] Error inserting events for ${matchId}:`, insertError.message);
-        } else {
-            console.log(`[WS] ✓ Synced ${incidents.length} events for match ${matchId}`);
+            if (added.length > 0 || changed.length > 0 || removed.length > 0) {
+                console.log(`[WS] ✓ Events for match ${matchId}: +${added.length} ~${changed.length} -${removed.length}`);
+                publishLiveDelta(matchId, 'incidents', { added, changed, removed, total: result.total });
+            }
+            publishIncidentEvents(matchId, result.events, 'mqtt');
+        } catch (error) {
+            console.error(`[WS] Error syncing events for ${matchId}:`, error instanceof Error ? error.message : error);
         }
 
         // Update match score from the latest goal incident
@@ -385,6 +305,22 @@ async function handleStatsMessage(matchId: string, stats: MqttStatUpdate[]) {
             console.error(`[WS] Error upserting stats for ${matchId}:`, error.message);
         } else {
             console.log(`[WS] ✓ Updated ${stats.length} stats for match ${matchId}`);
+
+            // Push only stats whose values changed since the last message
+            const previous = lastStats.get(matchId) || new Map<number, string>();
+            const changed = statsToUpsert.filter(stat =>
+                previous.get(stat.stat_type) !== `${stat.home_value}:${stat.away_value}`
+            );
+            for (const stat of statsToUpsert) {
+                previous.set(stat.stat_type, `${stat.home_value}:${stat.away_value}`);
+            }
+            lastStats.set(matchId, previous);
+
+            if (changed.length > 0) {
+                publishLiveDelta(matchId, 'stats', {
+                    stats: changed.map(stat => ({ type: stat.stat_type, home: stat.home_value, away: stat.away_value })),
+                });
+            }
         }
     } catch (error) {
         console.error('[WS] Error handling stats:', error);
@@ -392,148 +328,108 @@ async function handleStatsMessage(matchId: string, stats: MqttStatUpdate[]) {
 }
 
 /**
- * Connect to MQTT broker
+ * Parse a raw MQTT message, append it to the journal and dispatch it
  */
-export function connectMqtt(): Promise<void> {
-    return new Promise((resolve, reject) => {
-        if (client?.connected) {
-            console.log('[WS] Already connected');
-            resolve();
-            return;
-        }
+function handleMessage(topic: string, message: Buffer) {
+    const receivedAt = new Date();
+    try {
+        const data = JSON.parse(message.toString());
+        journalMessage(topic, data, receivedAt);
+        processMqttPayload(data, receivedAt).catch(error => {
+            console.error('[WS] Error processing message:', error);
+        });
+    } catch (error) {
+        console.error('[WS] Error parsing message:', error);
+    }
+}
 
-        if (isConnecting) {
-            console.log('[WS] Connection already in progress');
-            resolve();
-            return;
+/**
+ * Route a parsed thesports/football/match/v1 payload to the handlers
+ * Resolves once every handler has finished (the scenario player relies on this)
+ * receivedAt is the time the live minute is computed for (journal replays pass
+ * the original receive time)
+ */
+export async function processMqttPayload(data: unknown, receivedAt: Date = new Date()): Promise<void> {
+    // All updates come via thesports/football/match/v1 topic
+    // Each message contains: id, score, stats, incidents, tlive
+    const updates = (Array.isArray(data) ? data : [data]) as Array<{
+        id?: string;
+        incidents?: MqttIncidentUpdate[];
+        stats?: MqttStatUpdate[];
+    }>;
+    const tasks: Promise<void>[] = [];
+
+    for (const update of updates) {
+        const matchId = update?.id;
+        if (!matchId) continue;
+
+        // Handle match score/status updates
+        tasks.push(handleMatchUpdate(update, receivedAt));
+
+        // Handle incidents if present in this update
+        if (update.incidents && Array.isArray(update.incidents) && update.incidents.length > 0) {
+            console.log(`[WS] Match ${matchId} has ${update.incidents.length} incidents`);
+            tasks.push(handleIncidentsMessage(matchId, update.incidents));
         }
 
-        if (!USERNAME || !API_KEY) {
-            console.warn('[WS] MQTT credentials not configured. Skipping WebSocket connection.');
-            resolve();
-            return;
+        // Handle stats if present in this update
+        if (update.stats && Array.isArray(update.stats) && update.stats.length > 0) {
+            console.log(`[WS] Match ${matchId} has ${update.stats.length} stats`);
+            tasks.push(handleStatsMessage(matchId, update.stats));
         }
+    }
 
-        isConnecting = true;
-        const url = `wss://${MQTT_HOST}:${MQTT_PORT}/mqtt`;
-
-        console.log(`[WS] Connecting to ${url}...`);
-
-        client = mqtt.connect(url, {
-            username: USERNAME,
-            password: API_KEY,
-            clientId: `es-livescore-${Date.now()}`,
-            clean: true,
-            reconnectPeriod: 5000,
-            connectTimeout: 30000,
-            protocolVersion: 4,
-            // Skip SSL certificate verification (TheSports uses a cert that can't be verified)
-            rejectUnauthorized: false,
-        });
-
-        client.on('connect', () => {
-            console.log('[WS] Connected to TheSports MQTT!');
-            isConnecting = false;
-
-            // Subscribe to topics
-            TOPICS.forEach(topic => {
-                client?.subscribe(topic, { qos: 1 }, (err) => {
-                    if (err) {
-                        console.error(`[WS] Failed to subscribe to ${topic}:`, err);
-                    } else {
-                        console.log(`[WS] Subscribed to ${topic}`);
-                    }
-                });
-            });
-
-            resolve();
-        });
-
-        client.on('message', (topic, message) => {
-            try {
-                const data = JSON.parse(message.toString());
-
-                // All updates come via thesports/football/match/v1 topic
-                // Each message contains: id, score, stats, incidents, tlive
-                const updates = Array.isArray(data) ? data : [data];
-
-                for (const update of updates) {
-                    const matchId = update.id;
-                    if (!matchId) continue;
-
-                    // Handle match score/status updates
-                    handleMatchUpdate(update);
-
-                    // Handle incidents if present in this update
-                    if (update.incidents && Array.isArray(update.incidents) && update.incidents.length > 0) {
-                        console.log(`[WS] Match ${matchId} has ${update.incidents.length} incidents`);
-                        handleIncidentsMessage(matchId, update.incidents);
-                    }
-
-                    // Handle stats if present in this update
-                    if (update.stats && Array.isArray(update.stats) && update.stats.length > 0) {
-                        console.log(`[WS] Match ${matchId} has ${update.stats.length} stats`);
-                        handleStatsMessage(matchId, update.stats);
-                    }
-                }
-            } catch (error) {
-                console.error('[WS] Error parsing message:', error);
-            }
-        });
+    await Promise.all(tasks);
+}
 
-        client.on('error', (error) => {
-            console.error('[WS] Connection error:', error);
-            isConnecting = false;
-        });
+/**
+ * Replace the active transport (disconnects the previous one)
+ * Call connectMqtt() afterwards to subscribe through the new transport
+ */
+export async function setMqttTransport(next: MqttTransport): Promise<void> {
+    if (transport && transport !== next) {
+        await transport.disconnect();
+    }
+    transport = next;
+}
 
-        client.on('close', () => {
-            console.log('[WS] Connection closed');
-            isConnecting = false;
-        });
+export function getMqttTransport(): MqttTransport | null {
+    return transport;
+}
 
-        client.on('reconnect', () => {
-            console.log('[WS] Reconnecting...');
-        });
+/**
+ * Connect to MQTT broker
+ */
+export async function connectMqtt(): Promise<void> {
+    if (!transport) {
+        transport = createTransportFromEnv();
+    }
+    if (!transport) return;
 
-        // Timeout if connection takes too long
-        setTimeout(() => {
-            if (isConnecting) {
-                isConnecting = false;
-                console.warn('[WS] Connection timeout - continuing with HTTP polling');
-                resolve();
-            }
-        }, 10000);
-    });
+    await transport.connect(TOPICS, handleMessage);
 }
 
 /**
  * Disconnect from MQTT broker
  */
-export function disconnectMqtt(): Promise<void> {
-    return new Promise((resolve) => {
-        if (client) {
-            client.end(true, {}, () => {
-                console.log('[WS] Disconnected');
-                client = null;
-                resolve();
-            });
-        } else {
-            resolve();
-        }
-    });
+export async function disconnectMqtt(): Promise<void> {
+    await transport?.disconnect();
 }
 
 /**
  * Check if connected
  */
 export function isConnected(): boolean {
-    return client?.connected || false;
+    return transport?.isConnected() || false;
 }
 
 export const WebSocketService = {
     connect: connectMqtt,
     disconnect: disconnectMqtt,
     isConnected,
+    setTransport: setMqttTransport,
+    getTransport: getMqttTransport,
+    processPayload: processMqttPayload,
 };
 
 export default WebSocketService;